@@ -5,9 +5,14 @@
  */
 
 import { appState } from './state';
-import { connectMCP, sendChatToMCP, sendMcpResponse } from './mcp-client';
-import { callLLM } from './llm-client';
+import { connectMCP, sendChatToMCP, sendMcpResponse, pairWithServer } from './mcp-client';
+import type { ChatStreamEvent } from './mcp-client';
+import { callLLM, getProviderLabel, providerRequiresApiKey } from './llm-client';
 import { convertMarkdownToHtml } from './utils/formatting';
+import { sanitizeHtml } from './utils/sanitize';
+import { renderSandboxed, initSandboxMessaging } from './sandbox';
+import { maskWorksheetData, maskFieldValues, unmaskText, unmaskValue } from './pii-masking';
+import type { SandboxFilter } from './sandbox';
 import { renderVisualization } from './renderers';
 import { buildSmartDashboard, buildStoryHtml } from './html-builder';
 import type { VizConfig as RendererVizConfig } from './renderers/types';
@@ -167,6 +172,7 @@ export async function initDashAgent(): Promise<void> {
 
   // Setup event listeners
   setupEventListeners(elements);
+  initSandboxMessaging({ onFilter: applySandboxFilter });
 
   // Initialize Tableau connection
   await initializeTableau(elements);
@@ -383,6 +389,26 @@ function setupEventListeners(elements: DOMElements): void {
     settingsModal?.classList.remove('active');
   });
 
+  // Pair with the MCP server using its one-time code
+  const btnPairMcp = document.getElementById('btn-pair-mcp') as HTMLButtonElement | null;
+  btnPairMcp?.addEventListener('click', async () => {
+    const codeInput = document.getElementById('mcp-pairing-code') as HTMLInputElement;
+    const status = document.getElementById('mcp-pairing-status');
+    if (!codeInput?.value.trim()) return;
+
+    btnPairMcp.disabled = true;
+    if (status) status.textContent = 'Pairing...';
+    try {
+      const result = await pairWithServer(codeInput.value);
+      if (status) status.textContent = result.success ? '✓ Paired with MCP server' : `Pairing failed: ${result.error}`;
+      if (result.success) codeInput.value = '';
+    } catch (error) {
+      if (status) status.textContent = `Pairing failed: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+      btnPairMcp.disabled = false;
+    }
+  });
+
   // Save & Close button - save HTML to extension settings and close config dialog
   elements.btnSave?.addEventListener('click', async () => {
     try {
@@ -698,8 +724,9 @@ async function sendMessage(elements: DOMElements): Promise<void> {
     }
   }
 
-  // Show thinking indicator
+  // Show thinking indicator (replaced by the streamed reply once events arrive)
   const thinkingId = showThinking(chatMessages);
+  const stream = createStreamingMessage(chatMessages, thinkingId);
   
   // Store the user's intent for design-related requests
   // If the user asks about design/colors/accessibility but doesn't have a screenshot,
@@ -730,7 +757,7 @@ async function sendMessage(elements: DOMElements): Promise<void> {
         message: text.substring(0, 50) 
       });
       // Pass hasImage to MCP for intelligent tool routing (reduces tokens by 80%+)
-      const mcpResponse = await sendChatToMCP(text, systemPrompt, hasImage);
+      const mcpResponse = await sendChatToMCP(text, systemPrompt, hasImage, stream.handle);
       responseContent = mcpResponse.content;
       responseMeta = {
         modelUsed: mcpResponse.modelUsed,
@@ -741,6 +768,10 @@ async function sendMessage(elements: DOMElements): Promise<void> {
     } catch (mcpError: any) {
       console.error('[DashAgent] MCP failed:', mcpError);
       
+      // Drop any partial streamed reply - the fallback answers in a new message
+      stream.element?.remove();
+      stream.element = null;
+      
       // Check if this is a token limit error AND we have an image
       const isTokenLimitError = mcpError.message?.includes('tokens') || mcpError.message?.includes('limit');
       
@@ -770,13 +801,20 @@ User request: ${text}`;
         const analysisConfig = appState.settings.getModelConfig('analysis');
         responseMeta = { modelUsed: `${analysisConfig.provider}:${analysisConfig.model}` };
         console.log('[DashAgent] Direct LLM response:', responseContent?.substring(0, 100));
+        // The direct prompt asks for visualizations as ```html blocks - show them sandboxed
+        const generated = responseContent?.match(/```html\s*\n([\s\S]*?)```/);
+        const previewContainer = document.getElementById('preview-container');
+        if (generated && previewContainer) {
+          renderSandboxed(previewContainer, generated[1]);
+          state.generatedHtml = previewContainer.innerHTML;
+        }
       }
     }
     
     removeThinking(thinkingId, chatMessages);
     
     if (responseContent) {
-      addMessage(chatMessages, 'assistant', responseContent, responseMeta);
+      addMessage(chatMessages, 'assistant', responseContent, responseMeta, stream.element ?? undefined);
       appState.addToHistory({ role: 'assistant', content: responseContent });
       
       // Clear pending intent if the response doesn't ask for a screenshot
@@ -788,6 +826,7 @@ User request: ${text}`;
     }
   } catch (error: any) {
     removeThinking(thinkingId, chatMessages);
+    stream.element?.remove();
     console.error('[DashAgent] Chat error:', error);
     addMessage(chatMessages, 'system', `❌ Error: ${error.message || 'Failed to get response'}`);
   }
@@ -815,6 +854,216 @@ function showThinking(chatMessages: Element | null): string {
   return id;
 }
 
+/**
+ * Assistant message that fills in while a chat streams
+ */
+interface StreamingMessage {
+  element: HTMLElement | null;
+  handle: (event: ChatStreamEvent) => void;
+}
+
+/**
+ * Create the handler for streamed chat events. The first event replaces the
+ * thinking indicator with a message showing text so far and a tool timeline;
+ * addMessage() later renders the final reply into the same element.
+ */
+function createStreamingMessage(chatMessages: Element | null, thinkingId: string): StreamingMessage {
+  let text = '';
+  const stream: StreamingMessage = {
+    element: null,
+    handle: (event: ChatStreamEvent) => {
+      if (!stream.element) {
+        removeThinking(thinkingId, chatMessages);
+        stream.element = document.createElement('div');
+        stream.element.className = 'message assistant streaming';
+        stream.element.innerHTML = `
+          <div class="message-avatar">Dash</div>
+          <div class="message-content" style="max-width: 100%; overflow-x: auto;">
+            <div class="stream-tools"></div>
+            <div class="stream-text"></div>
+          </div>
+        `;
+        chatMessages?.appendChild(stream.element);
+      }
+      const toolsEl = stream.element.querySelector('.stream-tools');
+      const textEl = stream.element.querySelector('.stream-text');
+
+      switch (event.type) {
+        case 'text-delta':
+          text += event.delta;
+          if (textEl) textEl.innerHTML = sanitizeHtml(convertMarkdownToHtml(unmaskText(text)), { inline: true }).html;
+          break;
+        case 'tool-start': {
+          const args = JSON.stringify(event.args ?? {});
+          const item = document.createElement('div');
+          item.className = 'stream-tool running';
+          item.dataset.toolCallId = event.toolCallId;
+          item.textContent = `🔧 ${event.tool} ${args.length > 80 ? args.slice(0, 77) + '...' : args}`;
+          item.title = args;
+          toolsEl?.appendChild(item);
+          break;
+        }
+        case 'tool-end': {
+          const item = Array.from(toolsEl?.querySelectorAll<HTMLElement>('.stream-tool') ?? [])
+            .find(el => el.dataset.toolCallId === event.toolCallId);
+          if (item) {
+            item.className = `stream-tool ${event.success ? 'done' : 'failed'}`;
+            item.textContent = `${event.success ? '✓' : '✗'} ${event.tool} · ${(event.durationMs / 1000).toFixed(1)}s${event.error ? ` - ${event.error}` : ''}`;
+          }
+          break;
+        }
+        case 'usage':
+          // Model and token totals are shown by addMessage with the final reply
+          break;
+      }
+      stream.element.scrollIntoView({ block: 'end' });
+    },
+  };
+  return stream;
+}
+
+/**
+ * Show or update the publish progress bar for a workbook
+ */
+function updatePublishProgress(progress: {
+  workbookId?: string;
+  workbookName?: string;
+  stage: 'initiate' | 'upload' | 'commit' | 'done' | 'error';
+  bytesUploaded: number;
+  totalBytes: number;
+  chunk?: number;
+  totalChunks?: number;
+  chunked?: boolean;
+  message?: string;
+}): void {
+  const chatMessages = document.getElementById('chat-messages');
+  const id = `publish-progress-${progress.workbookId || 'workbook'}`.replace(/[^\w-]/g, '_');
+  let div = document.getElementById(id);
+  if (!div) {
+    div = document.createElement('div');
+    div.id = id;
+    div.className = 'message assistant publish-progress';
+    div.innerHTML = `
+      <div class="message-avatar">Dash</div>
+      <div class="message-content">
+        <div class="publish-progress-label"></div>
+        <progress class="publish-progress-bar" max="100" value="0"></progress>
+      </div>
+    `;
+    chatMessages?.appendChild(div);
+    div.scrollIntoView({ behavior: 'smooth' });
+  }
+
+  const percent = progress.totalBytes > 0 ? Math.round((progress.bytesUploaded / progress.totalBytes) * 100) : 0;
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  const stageText: Record<typeof progress.stage, string> = {
+    initiate: 'Starting upload',
+    upload: `Uploading chunk ${progress.chunk}/${progress.totalChunks} (${mb(progress.bytesUploaded)} of ${mb(progress.totalBytes)} MB)`,
+    commit: 'Publishing to Tableau',
+    done: 'Published',
+    error: `Publish failed${progress.message ? ` - ${progress.message}` : ''}`,
+  };
+
+  const label = div.querySelector('.publish-progress-label');
+  if (label) label.textContent = `${progress.workbookName || 'Workbook'}: ${stageText[progress.stage]}`;
+  const bar = div.querySelector('.publish-progress-bar') as HTMLProgressElement | null;
+  if (bar) {
+    if (progress.stage === 'error') {
+      bar.hidden = true; // Stops an indeterminate bar from running on
+    } else if (progress.stage === 'commit' && !progress.chunked) {
+      bar.removeAttribute('value'); // Indeterminate while the single-request upload runs
+    } else {
+      bar.value = progress.stage === 'done' ? 100 : percent;
+    }
+  }
+
+  if (progress.stage === 'done') {
+    setTimeout(() => div?.remove(), 3000);
+  } else if (progress.stage === 'error') {
+    // Left in place so the failure stays visible; a retry starts a fresh bar
+    div.classList.add('failed');
+    div.id = '';
+  }
+}
+
+/**
+ * Ask the analyst to approve a tool call the server paused on. Resolves with
+ * the decision, or a rejection once the request expires unanswered.
+ */
+function confirmAction(request: {
+  tool: string;
+  title: string;
+  details?: string[];
+  expiresAt?: string;
+}): Promise<{ approved: boolean; reason?: string }> {
+  const chatMessages = document.getElementById('chat-messages');
+  const div = document.createElement('div');
+  div.className = 'message assistant confirm-action';
+  div.innerHTML = `
+    <div class="message-avatar">Dash</div>
+    <div class="message-content">
+      <div class="confirm-action-title"></div>
+      <ul class="confirm-action-details"></ul>
+      <div class="confirm-action-buttons">
+        <button class="btn btn-primary confirm-approve">Approve</button>
+        <button class="btn btn-ghost confirm-reject">Reject</button>
+      </div>
+      <div class="confirm-action-status"></div>
+    </div>
+  `;
+  // Model-chosen values go in as text, never as markup, with masked values
+  // restored so the analyst approves what will actually run
+  div.querySelector('.confirm-action-title')!.textContent = `⚠️ ${unmaskText(request.title)}`;
+  const details = div.querySelector('.confirm-action-details')!;
+  for (const line of [...(request.details || []), `Tool: ${request.tool}`]) {
+    const item = document.createElement('li');
+    item.textContent = unmaskText(line);
+    details.appendChild(item);
+  }
+  chatMessages?.appendChild(div);
+  div.scrollIntoView({ behavior: 'smooth' });
+
+  return new Promise(resolve => {
+    const status = div.querySelector('.confirm-action-status')!;
+    const finish = (result: { approved: boolean; reason?: string }, label: string) => {
+      clearTimeout(expiry);
+      div.querySelectorAll('button').forEach(button => button.remove());
+      div.classList.add(result.approved ? 'approved' : 'rejected');
+      status.textContent = label;
+      resolve(result);
+    };
+
+    const remainingMs = request.expiresAt ? new Date(request.expiresAt).getTime() - Date.now() : 120000;
+    const expiry = setTimeout(() => finish({ approved: false, reason: 'no answer in time' }, 'Expired - not run'), Math.max(remainingMs, 0));
+    div.querySelector('.confirm-approve')?.addEventListener('click', () => finish({ approved: true }, 'Approved'));
+    div.querySelector('.confirm-reject')?.addEventListener('click', () => finish({ approved: false, reason: 'rejected by the analyst' }, 'Rejected - not run'));
+  });
+}
+
+/**
+ * Apply a click-to-filter request from a sandboxed component. Only
+ * worksheets on this dashboard are touched; without a worksheet name the
+ * filter goes to every worksheet that has the field.
+ */
+async function applySandboxFilter(filter: SandboxFilter): Promise<void> {
+  const dashboard = tableau?.extensions?.dashboardContent?.dashboard;
+  if (!dashboard) return;
+  const worksheets = filter.worksheet
+    ? dashboard.worksheets.filter((w: any) => w.name === filter.worksheet)
+    : dashboard.worksheets;
+  if (worksheets.length === 0) {
+    console.warn('[DashAgent] Sandbox filter: worksheet not found:', filter.worksheet);
+    return;
+  }
+
+  const results = await Promise.allSettled(worksheets.map((w: any) => filter.value
+    ? w.applyFilterAsync(filter.field, [unmaskValue(filter.value)], tableau.FilterUpdateType.Replace)
+    : w.clearFilterAsync(filter.field)));
+  if (results.every(result => result.status === 'rejected')) {
+    throw new Error(`No worksheet could filter on "${filter.field}"`);
+  }
+}
+
 /**
  * Remove thinking indicator
  */
@@ -833,10 +1082,14 @@ interface MessageMeta {
 }
 
 /**
- * Add a message to chat
+ * Add a message to chat. Pass target to render into an existing (streamed)
+ * message instead of appending a new one; its tool timeline is kept.
  */
-function addMessage(chatMessages: Element | null, role: string, content: string, meta?: MessageMeta): void {
-  const div = document.createElement('div');
+function addMessage(chatMessages: Element | null, role: string, content: string, meta?: MessageMeta, target?: HTMLElement): void {
+  // Show the real values behind PII pseudonyms - conversation history keeps them masked
+  content = unmaskText(content);
+  const toolTimeline = target?.querySelector('.stream-tools:not(:empty)')?.outerHTML || '';
+  const div = target ?? document.createElement('div');
   div.className = `message ${role}`;
   
   // Get avatar content based on role
@@ -895,7 +1148,8 @@ function addMessage(chatMessages: Element | null, role: string, content: string,
     .replace(/\n---\n\*Click the "Download PDF" button below to save this documentation\.\*/, '')
     .replace(/\n---\n\*Click the "Download Analysis PDF" button below to save this report\.\*/, '');
   
-  const htmlContent = convertMarkdownToHtml(cleanContent);
+  // Model replies can contain raw HTML - only the allow-listed subset reaches the page
+  const htmlContent = sanitizeHtml(convertMarkdownToHtml(cleanContent), { inline: true }).html;
   
   // Create download button HTML
   const downloadButtonStyle = `
@@ -939,9 +1193,11 @@ function addMessage(chatMessages: Element | null, role: string, content: string,
   // Build metadata display for assistant messages
   let metaHtml = '';
   if (role === 'assistant' && meta && meta.modelUsed) {
-    const modelParts = meta.modelUsed.split(':');
-    const provider = modelParts[0] === 'openai' ? 'OpenAI' : 'Anthropic';
-    const modelName = modelParts[1] || 'unknown';
+    const separator = meta.modelUsed.indexOf(':');
+    const providerId = meta.modelUsed.slice(0, separator);
+    const provider = getProviderLabel(providerId);
+    const modelName = meta.modelUsed.slice(separator + 1) || 'unknown';
+    const providerColors: Record<string, string> = { openai: '#10a37f', anthropic: '#d97706', local: '#2563eb' };
     
     // Format token count with K notation if over 1000
     const formatTokens = (n: number) => n >= 1000 ? (n / 1000).toFixed(1) + 'K' : n.toString();
@@ -957,7 +1213,7 @@ function addMessage(chatMessages: Element | null, role: string, content: string,
     metaHtml = `
       <div style="margin-top: 8px; padding-top: 8px; border-top: 1px solid #e5e7eb; font-size: 11px; color: #9ca3af; display: flex; align-items: center; gap: 8px; flex-wrap: wrap;">
         <span style="display: flex; align-items: center; gap: 4px;">
-          <span style="width: 6px; height: 6px; background: ${modelParts[0] === 'openai' ? '#10a37f' : '#d97706'}; border-radius: 50%;"></span>
+          <span style="width: 6px; height: 6px; background: ${providerColors[providerId] || '#9ca3af'}; border-radius: 50%;"></span>
           ${provider} ${modelName}
         </span>
         ${tokensDisplay ? `<span style="color: #6b7280;">• ${tokensDisplay}</span>` : ''}
@@ -969,13 +1225,14 @@ function addMessage(chatMessages: Element | null, role: string, content: string,
   div.innerHTML = `
     <div class="message-avatar">${avatarContent}</div>
     <div class="message-content" style="max-width: 100%; overflow-x: auto;">
+      ${toolTimeline}
       ${htmlContent}
       ${downloadButton}
       ${metaHtml}
     </div>
   `;
   
-  chatMessages?.appendChild(div);
+  if (!target) chatMessages?.appendChild(div);
   div.scrollIntoView({ behavior: 'smooth' });
 }
 
@@ -988,16 +1245,27 @@ function loadSettingsToForm(): void {
   const openaiKeyInput = document.getElementById('openai-api-key') as HTMLInputElement;
   const anthropicKeyInput = document.getElementById('anthropic-api-key') as HTMLInputElement;
   const mcpUrlInput = document.getElementById('mcp-url') as HTMLInputElement;
+  const localLlmUrlInput = document.getElementById('local-llm-url') as HTMLInputElement;
   const modelVisionSelect = document.getElementById('model-vision') as HTMLSelectElement;
   const modelGenerationSelect = document.getElementById('model-generation') as HTMLSelectElement;
   const modelAnalysisSelect = document.getElementById('model-analysis') as HTMLSelectElement;
+  const piiFieldsInput = document.getElementById('pii-fields') as HTMLTextAreaElement;
 
+  if (localLlmUrlInput) localLlmUrlInput.value = settings.localLlmUrl;
   if (openaiKeyInput) openaiKeyInput.value = settings.openaiApiKey;
   if (anthropicKeyInput) anthropicKeyInput.value = settings.anthropicApiKey;
   if (mcpUrlInput) mcpUrlInput.value = settings.mcpUrl;
   if (modelVisionSelect) modelVisionSelect.value = settings.modelVision;
   if (modelGenerationSelect) modelGenerationSelect.value = settings.modelGeneration;
   if (modelAnalysisSelect) modelAnalysisSelect.value = settings.modelAnalysis;
+  if (piiFieldsInput) piiFieldsInput.value = settings.piiFields;
+
+  const pairingStatus = document.getElementById('mcp-pairing-status');
+  if (pairingStatus) {
+    pairingStatus.textContent = settings.wsAuthToken
+      ? '✓ Paired - enter a new code to pair again'
+      : 'Enter the one-time code printed by the MCP server';
+  }
 }
 
 /**
@@ -1007,16 +1275,20 @@ function saveSettingsFromForm(): void {
   const openaiKeyInput = document.getElementById('openai-api-key') as HTMLInputElement;
   const anthropicKeyInput = document.getElementById('anthropic-api-key') as HTMLInputElement;
   const mcpUrlInput = document.getElementById('mcp-url') as HTMLInputElement;
+  const localLlmUrlInput = document.getElementById('local-llm-url') as HTMLInputElement;
   const modelVisionSelect = document.getElementById('model-vision') as HTMLSelectElement;
   const modelGenerationSelect = document.getElementById('model-generation') as HTMLSelectElement;
   const modelAnalysisSelect = document.getElementById('model-analysis') as HTMLSelectElement;
+  const piiFieldsInput = document.getElementById('pii-fields') as HTMLTextAreaElement;
 
+  if (localLlmUrlInput) appState.settings.localLlmUrl = localLlmUrlInput.value;
   if (openaiKeyInput) appState.settings.openaiApiKey = openaiKeyInput.value;
   if (anthropicKeyInput) appState.settings.anthropicApiKey = anthropicKeyInput.value;
   if (mcpUrlInput) appState.settings.mcpUrl = mcpUrlInput.value;
   if (modelVisionSelect) appState.settings.modelVision = modelVisionSelect.value;
   if (modelGenerationSelect) appState.settings.modelGeneration = modelGenerationSelect.value;
   if (modelAnalysisSelect) appState.settings.modelAnalysis = modelAnalysisSelect.value;
+  if (piiFieldsInput) appState.settings.piiFields = piiFieldsInput.value;
 
   appState.saveSettings();
   console.log('[DashAgent] Settings saved');
@@ -1202,18 +1474,20 @@ async function initializeTableau(elements: DOMElements): Promise<void> {
               break;
             }
             try {
+              // The model only knows pseudonyms for PII fields
+              const filterValues = (data.values || []).map(unmaskValue);
               if (data.action === 'clear') {
                 await filterWs.clearFilterAsync(data.field);
               } else if (data.action === 'exclude') {
                 await filterWs.applyFilterAsync(
                   data.field,
-                  data.values || [],
+                  filterValues,
                   tableau.FilterUpdateType.Remove
                 );
               } else {
                 await filterWs.applyFilterAsync(
                   data.field,
-                  data.values || [],
+                  filterValues,
                   tableau.FilterUpdateType.Replace
                 );
               }
@@ -1232,7 +1506,7 @@ async function initializeTableau(elements: DOMElements): Promise<void> {
             try {
               const param = await dashboard.findParameterAsync(data.name);
               if (param) {
-                await param.changeValueAsync(data.value);
+                await param.changeValueAsync(unmaskValue(data.value));
                 responseData = { success: true };
               } else {
                 responseData = { error: 'Parameter not found: ' + data.name };
@@ -1423,8 +1697,8 @@ async function initializeTableau(elements: DOMElements): Promise<void> {
               });
               
               if (previewContainer) {
-                previewContainer.innerHTML = dashboardResult.html;
-                state.generatedHtml = dashboardResult.html;
+                previewContainer.innerHTML = unmaskText(dashboardResult.html, true);
+                state.generatedHtml = previewContainer.innerHTML;
                 // Store dashboard base HTML for append functionality
                 state.dashboardBaseHtml = dashboardResult.html;
                 console.log('[DashAgent] Dashboard HTML set to previewContainer and stored for append');
@@ -1454,16 +1728,25 @@ async function initializeTableau(elements: DOMElements): Promise<void> {
           }
           
           case 'render': {
-            // Direct HTML rendering
+            // Generated HTML never runs in the extension page - see sandbox.ts
+            let removed: string[] = [];
             if (previewContainer) {
-              if (data.append) {
-                previewContainer.innerHTML += data.html;
-              } else {
-                previewContainer.innerHTML = data.html;
-              }
+              ({ removed } = renderSandboxed(previewContainer, unmaskText(data.html || '', true), !!data.append));
               state.generatedHtml = previewContainer.innerHTML;
             }
-            responseData = { success: true };
+            responseData = { success: true, removed };
+            break;
+          }
+          
+          case 'publish-progress': {
+            // Fire-and-forget progress from publish-workbook - no response expected
+            updatePublishProgress(data);
+            return;
+          }
+          
+          case 'confirm-action': {
+            // The server waits (up to expiresAt) for the analyst's decision
+            responseData = await confirmAction(data);
             break;
           }
           
@@ -1550,8 +1833,8 @@ async function initializeTableau(elements: DOMElements): Promise<void> {
               });
               
               if (previewContainer) {
-                previewContainer.innerHTML = storyResult.html;
-                state.generatedHtml = storyResult.html;
+                previewContainer.innerHTML = unmaskText(storyResult.html, true);
+                state.generatedHtml = previewContainer.innerHTML;
               }
               
               // Clear stale viz configs - story uses different render approach
@@ -1598,8 +1881,8 @@ async function initializeTableau(elements: DOMElements): Promise<void> {
             if (data.useVision && data.screenshotBase64) {
               try {
                 const visionModelConfig = appState.settings.getModelConfig('vision');
-                if (!visionModelConfig.apiKey) {
-                  responseData = { error: 'Vision API key not configured. Please set up OpenAI or Anthropic API key in Settings.' };
+                if (providerRequiresApiKey(visionModelConfig.provider) && !visionModelConfig.apiKey) {
+                  responseData = { error: `Vision API key not configured. Please set up your ${getProviderLabel(visionModelConfig.provider)} API key in Settings.` };
                   break;
                 }
                 
@@ -1920,13 +2203,14 @@ async function extractWorksheetData(ws: any, maxRows: number = 500): Promise<any
     }
   }
   
-  return {
+  // Everything returned here is sent to the MCP server - mask PII fields first
+  return maskWorksheetData({
     worksheet: ws.name,
     data: allData,
     columns,
     rowCount: allData.length,
     dataSource // 'summary', 'underlying', or 'underlying-deprecated'
-  };
+  });
 }
 
 /**
@@ -1961,12 +2245,12 @@ async function getWorksheetSummaryData(worksheetName?: string): Promise<any> {
       data.push(rowObj);
     }
     
-    return {
+    return await maskWorksheetData({
       worksheet: targetWs.name,
       columns,
       data,
       rowCount: data.length
-    };
+    });
   } catch (error: any) {
     return { error: error.message };
   }
@@ -2170,11 +2454,11 @@ async function generateDashboardDocumentation(options: any = {}): Promise<any> {
       if (options.includeWorksheets !== false) {
         try {
           const filters = await ws.getFiltersAsync();
-          wsData.filters = filters.map((f: any) => ({
+          wsData.filters = await Promise.all(filters.map(async (f: any) => ({
             fieldName: f.fieldName,
             filterType: f.filterType,
-            appliedValues: f.appliedValues?.map((v: any) => v.value) || []
-          }));
+            appliedValues: await maskFieldValues(f.fieldName, f.appliedValues?.map((v: any) => v.value) || [])
+          })));
           
           // Add to global filters list
           for (const f of wsData.filters) {
@@ -11,7 +11,7 @@
  * to determine optimal arrangement.
  */
 
-import { ThemeConfig, THEMES, applyCustomColors } from './base';
+import { ThemeConfig, THEMES, applyCustomColors, escapeHtml } from './base';
 
 // ==================== ELEMENT TYPES ====================
 
@@ -236,13 +236,13 @@ function renderHeroHeadline(content: ElementContent, theme: ThemeConfig): string
         font-weight: 700;
         color: ${theme.text};
         line-height: 1.2;
-      ">${content.title || 'Dashboard'}</h1>
+      ">${escapeHtml(content.title || 'Dashboard')}</h1>
       ${content.subtitle ? `
         <p style="
           margin: 0;
           font-size: 16px;
           color: ${theme.textMuted};
-        ">${content.subtitle}</p>
+        ">${escapeHtml(content.subtitle)}</p>
       ` : ''}
     </div>
   `;
@@ -285,12 +285,12 @@ function renderKeyTakeaway(content: ElementContent, theme: ThemeConfig): string
             color: ${theme.text};
             margin-bottom: 4px;
             font-size: 14px;
-          ">${content.title || 'Key Takeaway'}</div>
+          ">${escapeHtml(content.title || 'Key Takeaway')}</div>
           <div style="
             color: ${theme.textSecondary};
             font-size: 14px;
             line-height: 1.5;
-          ">${content.text || content.description || ''}</div>
+          ">${escapeHtml(content.text || content.description || '')}</div>
         </div>
       </div>
     </div>
@@ -333,7 +333,7 @@ function renderKpiCard(content: ElementContent, theme: ThemeConfig): string {
         white-space: nowrap;
         overflow: hidden;
         text-overflow: ellipsis;
-      ">${content.label || 'Metric'}</div>
+      ">${escapeHtml(content.label || 'Metric')}</div>
       
       <div style="
         font-size: 32px;
@@ -342,7 +342,7 @@ function renderKpiCard(content: ElementContent, theme: ThemeConfig): string {
         margin-bottom: 8px;
         line-height: 1.1;
         word-break: break-word;
-      ">${content.value || '0'}</div>
+      ">${escapeHtml(content.value || '0')}</div>
       
       ${content.change ? `
         <div style="
@@ -350,7 +350,7 @@ function renderKpiCard(content: ElementContent, theme: ThemeConfig): string {
           color: ${changeColor};
           font-weight: 500;
           margin-bottom: 8px;
-        ">${changeIcon} ${content.change}</div>
+        ">${changeIcon} ${escapeHtml(content.change)}</div>
       ` : ''}
       
       ${sparklineSvg ? `
@@ -427,13 +427,13 @@ function renderInsight(content: ElementContent, theme: ThemeConfig): string {
         gap: 8px;
       ">
         <span>${content.icon || style.icon}</span>
-        ${content.title || 'Insight'}
+        ${escapeHtml(content.title || 'Insight')}
       </div>
       <div style="
         color: ${theme.textSecondary};
         font-size: 13px;
         line-height: 1.5;
-      ">${content.description || ''}</div>
+      ">${escapeHtml(content.description || '')}</div>
     </div>
   `;
 }
@@ -456,7 +456,7 @@ function renderSectionHeader(content: ElementContent, theme: ThemeConfig): strin
         font-size: 18px;
         font-weight: 600;
         color: ${theme.text};
-      ">${content.title || 'Section'}</h2>
+      ">${escapeHtml(content.title || 'Section')}</h2>
       ${content.badge ? `
         <span style="
           background: ${theme.primary}15;
@@ -465,7 +465,7 @@ function renderSectionHeader(content: ElementContent, theme: ThemeConfig): strin
           border-radius: 12px;
           font-size: 12px;
           font-weight: 600;
-        ">${content.badge}</span>
+        ">${escapeHtml(content.badge)}</span>
       ` : ''}
     </div>
   `;
@@ -510,7 +510,7 @@ function renderChart(content: ElementContent, theme: ThemeConfig): string {
         font-weight: 600;
         color: ${theme.text};
         margin-bottom: 16px;
-      ">${content.title || 'Chart'}</div>
+      ">${escapeHtml(content.title || 'Chart')}</div>
       <div style="color: ${theme.textMuted}; text-align: center; padding: 40px;">
         Chart content will be rendered here
       </div>
@@ -556,19 +556,19 @@ function renderRecommendation(content: ElementContent, theme: ThemeConfig): stri
           font-weight: 600;
           text-transform: uppercase;
           color: ${color};
-        ">${content.priority || 'Medium'} Priority</span>
+        ">${escapeHtml(content.priority || 'Medium')} Priority</span>
       </div>
       <div style="
         font-weight: 600;
         color: ${theme.text};
         margin-bottom: 6px;
         font-size: 14px;
-      ">${content.action || 'Recommendation'}</div>
+      ">${escapeHtml(content.action || 'Recommendation')}</div>
       ${content.rationale ? `
         <div style="
           color: ${theme.textMuted};
           font-size: 13px;
-        ">${content.rationale}</div>
+        ">${escapeHtml(content.rationale)}</div>
       ` : ''}
     </div>
   `;
@@ -584,7 +584,7 @@ function renderNarrative(content: ElementContent, theme: ThemeConfig): string {
       font-size: 14px;
       line-height: 1.7;
       padding: 12px 0;
-    ">${content.text || ''}</div>
+    ">${escapeHtml(content.text || '')}</div>
   `;
 }
 
@@ -622,7 +622,7 @@ function renderDataTable(content: ElementContent, theme: ThemeConfig): string {
         font-weight: 600;
         color: ${theme.text};
         margin-bottom: 8px;
-      ">${content.title || 'Data Table'}</div>
+      ">${escapeHtml(content.title || 'Data Table')}</div>
       ${content.rowCount ? `
         <div style="
           font-size: 12px;
@@ -650,7 +650,7 @@ function renderFooter(content: ElementContent, theme: ThemeConfig): string {
       font-size: 12px;
       border-top: 1px solid ${theme.border || '#e5e7eb'};
     ">
-      ${content.text || `Generated by DashAgent • ${new Date().toLocaleDateString()}`}
+      ${escapeHtml(content.text || `Generated by DashAgent • ${new Date().toLocaleDateString()}`)}
     </div>
   `;
 }
@@ -690,7 +690,7 @@ export async function buildStoryHtml(
   const dimensions = allDimensions;
 
   if (measures.length === 0) {
-    const wsInfo = worksheetResults.map(r => `${r.name}: ${r.measures} measures, ${r.rows} rows`).join('<br/>');
+    const wsInfo = worksheetResults.map(r => `${escapeHtml(r.name)}: ${r.measures} measures, ${r.rows} rows`).join('<br/>');
     return {
       html: `<div style="padding: 40px; text-align: center; color: #666;">
         <h3>No Metrics Found</h3>
@@ -973,10 +973,10 @@ export function buildStoryFromAnalyzedData(
       text-align: center;
     ">
       <div style="font-size: 12px; text-transform: uppercase; letter-spacing: 2px; opacity: 0.8; margin-bottom: 12px;">
-        ${title}
+        ${escapeHtml(title)}
       </div>
       <h1 style="font-size: 32px; font-weight: 800; line-height: 1.2; margin: 0;">
-        ${headline}
+        ${escapeHtml(headline)}
       </h1>
     </div>
 
@@ -991,7 +991,7 @@ export function buildStoryFromAnalyzedData(
       margin-bottom: 24px;
       line-height: 1.5;
     ">
-      <span style="display: flex; align-items: center; justify-content: center; gap: 8px;">${ICONS.lightbulb} ${keyTakeaway}</span>
+      <span style="display: flex; align-items: center; justify-content: center; gap: 8px;">${ICONS.lightbulb} ${escapeHtml(keyTakeaway)}</span>
     </div>
 
     ${generateMetricComparison({ metrics: heroMetrics, theme })}
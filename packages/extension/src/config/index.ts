@@ -28,6 +28,14 @@ export {
   sendMcpResponse
 } from './mcp-client';
 
+// Re-export sandboxed rendering
+export { renderSandboxed, initSandboxMessaging } from './sandbox';
+export type { SandboxFilter, SandboxHandlers } from './sandbox';
+
+// Re-export PII masking
+export { maskWorksheetData, maskFieldValues, unmaskText, unmaskValue, parsePiiFieldRules } from './pii-masking';
+export type { PiiFieldRule, PiiMaskMode } from './pii-masking';
+
 // Re-export renderers (explicit to avoid conflicts)
 export {
   renderVisualization,
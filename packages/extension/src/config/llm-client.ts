@@ -1,5 +1,9 @@
 /**
- * LLM Client - Handles API calls to OpenAI and Anthropic
+ * LLM Client - Handles direct API calls to LLM providers
+ * 
+ * Providers are looked up by id in PROVIDERS (mirrors the MCP server's
+ * provider registry). "local" calls an OpenAI-compatible server such as
+ * Ollama at settings.localLlmUrl; "mock" only exists on the MCP server.
  * 
  * SECURITY: Includes client-side guardrails to match server-side protections.
  */
@@ -7,6 +11,51 @@
 import { appState } from './state';
 import type { ModelConfig } from './types';
 
+// ==================== PROVIDERS ====================
+
+interface ProviderInfo {
+  label: string;
+  requiresApiKey: boolean;
+  /** Direct call from the browser - omitted for MCP-only providers */
+  call?: (message: string, imageBase64: string | null, modelConfig: ModelConfig) => Promise<string>;
+}
+
+const PROVIDERS: Record<string, ProviderInfo> = {
+  openai: {
+    label: 'OpenAI',
+    requiresApiKey: true,
+    call: (message, imageBase64, modelConfig) => callOpenAICompatible('https://api.openai.com/v1', message, imageBase64, modelConfig),
+  },
+  anthropic: {
+    label: 'Anthropic',
+    requiresApiKey: true,
+    call: (message, imageBase64, modelConfig) => callAnthropic(message, imageBase64, modelConfig),
+  },
+  local: {
+    label: 'Local',
+    requiresApiKey: false,
+    call: (message, imageBase64, modelConfig) => callOpenAICompatible(appState.settings.localLlmUrl, message, imageBase64, modelConfig),
+  },
+  mock: {
+    label: 'Mock',
+    requiresApiKey: false,
+  },
+};
+
+/**
+ * Display name for a provider id ("openai" -> "OpenAI")
+ */
+export function getProviderLabel(provider: string): string {
+  return PROVIDERS[provider]?.label || provider;
+}
+
+/**
+ * Whether a provider needs an API key in Settings (unknown providers are assumed to)
+ */
+export function providerRequiresApiKey(provider: string): boolean {
+  return PROVIDERS[provider]?.requiresApiKey ?? true;
+}
+
 // ==================== CLIENT-SIDE GUARDRAILS ====================
 
 /**
@@ -73,25 +122,25 @@ export async function callLLM(
   }
   
   const modelConfig = appState.settings.getModelConfig(taskType);
+  const provider = PROVIDERS[modelConfig.provider];
   
-  if (!modelConfig.apiKey) {
-    const providerName = modelConfig.provider === 'openai' ? 'OpenAI' : 'Anthropic';
-    throw new Error(`Please configure your ${providerName} API key in Settings (needed for ${taskType} tasks)`);
+  if (!provider?.call) {
+    throw new Error(`The ${getProviderLabel(modelConfig.provider)} provider is only available through the MCP server`);
+  }
+  if (provider.requiresApiKey && !modelConfig.apiKey) {
+    throw new Error(`Please configure your ${provider.label} API key in Settings (needed for ${taskType} tasks)`);
   }
 
   console.log(`[LLM] Task: ${taskType}, Provider: ${modelConfig.provider}, Model: ${modelConfig.model}`);
 
-  if (modelConfig.provider === 'openai') {
-    return callOpenAI(message, imageBase64, modelConfig);
-  } else {
-    return callAnthropic(message, imageBase64, modelConfig);
-  }
+  return provider.call(message, imageBase64, modelConfig);
 }
 
 /**
- * Call OpenAI API
+ * Call an OpenAI-compatible chat completions API (OpenAI or a local server)
  */
-async function callOpenAI(
+async function callOpenAICompatible(
+  baseUrl: string,
   message: string, 
   imageBase64: string | null, 
   modelConfig: ModelConfig
@@ -111,22 +160,27 @@ async function callOpenAI(
   }
   messages.push({ role: 'user', content: userContent });
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+  // OpenAI wants max_completion_tokens; local servers still read max_tokens
+  const tokenParam = modelConfig.provider === 'openai'
+    ? appState.settings.getOpenAITokenParam(modelConfig.model, 4096)
+    : { max_tokens: 4096 };
+
+  const response = await fetch(baseUrl.replace(/\/+$/, '') + '/chat/completions', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': 'Bearer ' + modelConfig.apiKey
+      ...(modelConfig.apiKey ? { 'Authorization': 'Bearer ' + modelConfig.apiKey } : {})
     },
     body: JSON.stringify({
       model: modelConfig.model,
       messages: messages,
-      ...appState.settings.getOpenAITokenParam(modelConfig.model, 4096)
+      ...tokenParam
     })
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API request failed');
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || `${getProviderLabel(modelConfig.provider)} API request failed`);
   }
 
   const data = await response.json();
@@ -2,11 +2,13 @@
  * MCP Client - WebSocket connection to MCP server
  * Handles communication between extension and MCP server
  * 
- * SECURITY: Uses a configurable auth token from settings.
+ * SECURITY: Uses a per-extension token from settings, obtained by pairing with
+ * the one-time code printed by the MCP server (see pairWithServer).
  * CONNECTION: Uses a singleton pattern with reconnection logic.
  */
 
 import { appState } from './state';
+import { getProviderLabel, providerRequiresApiKey } from './llm-client';
 
 type MessageHandler = (data: any) => Promise<void>;
 
@@ -19,6 +21,17 @@ const RECONNECT_DELAY_MS = 1000;
 // Store the onRequest handler globally so sendChatToMCP can dispatch tool requests
 let globalOnRequest: MessageHandler | null = null;
 
+// Register without a token so a rejected/expired token doesn't block pairing
+let pairingMode = false;
+
+/**
+ * Store a token issued by the server (pairing or rotation)
+ */
+function storeAuthToken(token: string): void {
+  appState.settings.wsAuthToken = token;
+  appState.saveSettings();
+}
+
 /**
  * Connect to MCP server via WebSocket (singleton with reconnection)
  */
@@ -52,10 +65,11 @@ export function connectMCP(onRequest: MessageHandler): void {
       isConnecting = false;
       reconnectAttempts = 0;
       
-      // Register with the bridge (include auth token from settings)
+      // Register with the bridge (include auth token from settings, if paired)
+      const authToken = pairingMode ? '' : appState.settings.wsAuthToken;
       appState.mcpSocket!.send(JSON.stringify({
         type: 'register',
-        authToken: appState.settings.wsAuthToken,
+        ...(authToken ? { authToken } : {}),
         dashboardName: appState.dashboardContext?.dashboardName || 'Unknown'
       }));
     };
@@ -87,16 +101,28 @@ export function connectMCP(onRequest: MessageHandler): void {
           console.error('MCP authentication failed:', data.error);
           return;
         }
+        if (data.type === 'auth-required') {
+          console.warn('MCP server requires pairing:', data.message);
+          return;
+        }
+        
+        // Token issued or replaced by the server - keep it for the next connection
+        if (data.type === 'paired' || data.type === 'token-rotated') {
+          console.log(`MCP token ${data.type === 'paired' ? 'issued' : 'rotated'}, expires ${data.expiresAt}`);
+          storeAuthToken(data.token);
+          pairingMode = false;
+          return;
+        }
         
         // Handle bridge protocol messages
         if (data.type === 'connected') {
           console.log('Bridge connection confirmed:', data.clientId);
-        } else if (data.type === 'chat-response') {
+        } else if (data.type === 'chat-response' || data.type === 'chat-stream') {
           // Chat responses are handled by the sendChatToMCP listener, NOT by onRequest
           // This check prevents chat-response from being routed as a tool call
           console.log('[MCP] Ignoring chat-response in onmessage - handled by sendChatToMCP listener');
           // The sendChatToMCP function has its own message listener that handles this
-        } else if (data.type === 'render' || data.type === 'toggle-tooltips') {
+        } else if (data.type === 'render' || data.type === 'toggle-tooltips' || data.type === 'publish-progress') {
           // Handle fire-and-forget messages (no requestId needed)
           // These come from sendToExtensionNoWait in the MCP server
           console.log('Fire-and-forget message:', data.type);
@@ -145,6 +171,52 @@ async function ensureConnection(): Promise<void> {
   throw new Error('Could not connect to MCP server. Make sure it is running.');
 }
 
+/**
+ * Pair this extension with the MCP server using the one-time code it printed.
+ * On success the issued token is saved to settings and used from then on.
+ */
+export async function pairWithServer(pairingCode: string): Promise<{ success: boolean; error?: string }> {
+  // Reconnect without the stored token - an invalid one would get the socket closed
+  if (!appState.mcpSocket || appState.mcpSocket.readyState !== WebSocket.OPEN) {
+    pairingMode = true;
+    reconnectAttempts = 0;
+    // Keep the app's request handler for the new socket
+    if (globalOnRequest) connectMCP(globalOnRequest);
+  }
+  await ensureConnection();
+  
+  return new Promise((resolve) => {
+    const socket = appState.mcpSocket!;
+    const messageHandler = (event: MessageEvent) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'paired') {
+          // Token is stored by the main onmessage handler
+          finish({ success: true });
+        } else if (data.type === 'pair-error' || data.type === 'auth-error') {
+          finish({ success: false, error: data.error });
+        }
+      } catch (e) {
+        console.error('Error parsing pairing response:', e);
+      }
+    };
+    const timer = setTimeout(() => finish({ success: false, error: 'Pairing timed out after 10 seconds' }), 10000);
+    const finish = (result: { success: boolean; error?: string }) => {
+      clearTimeout(timer);
+      socket.removeEventListener('message', messageHandler);
+      pairingMode = false;
+      resolve(result);
+    };
+    
+    socket.addEventListener('message', messageHandler);
+    socket.send(JSON.stringify({
+      type: 'pair',
+      pairingCode: pairingCode.trim(),
+      dashboardName: appState.dashboardContext?.dashboardName || 'Unknown'
+    }));
+  });
+}
+
 /**
  * Send a request to MCP server
  */
@@ -212,23 +284,33 @@ export interface ChatResponseWithMeta {
   toolsCalled?: string[];
 }
 
+/**
+ * Progress event streamed by the MCP server while a chat is answered
+ */
+export type ChatStreamEvent =
+  | { type: 'text-delta'; delta: string }
+  | { type: 'tool-start'; toolCallId: string; tool: string; args: any }
+  | { type: 'tool-end'; toolCallId: string; tool: string; durationMs: number; success: boolean; error?: string }
+  | { type: 'usage'; modelUsed: string; tokensUsed: NonNullable<ChatResponseWithMeta['tokensUsed']>; toolsCalled?: string[] };
+
 /**
  * Send chat message to MCP server for centralized LLM handling
  * @param message - The user's message
  * @param systemPrompt - System prompt for the LLM
  * @param hasImage - Whether the request includes an image (for tool routing optimization)
+ * @param onStream - Receives text deltas and tool events as they happen
  * @returns ChatResponseWithMeta containing the response and metadata
  */
 export async function sendChatToMCP(
   message: string, 
   systemPrompt: string,
-  hasImage: boolean = false
+  hasImage: boolean = false,
+  onStream?: (event: ChatStreamEvent) => void
 ): Promise<ChatResponseWithMeta> {
   const modelConfig = appState.settings.getModelConfig('analysis');
   
-  if (!modelConfig.apiKey) {
-    const providerName = modelConfig.provider === 'openai' ? 'OpenAI' : 'Anthropic';
-    throw new Error(`Please configure your ${providerName} API key in Settings (needed for chat/analysis)`);
+  if (providerRequiresApiKey(modelConfig.provider) && !modelConfig.apiKey) {
+    throw new Error(`Please configure your ${getProviderLabel(modelConfig.provider)} API key in Settings (needed for chat/analysis)`);
   }
   
   // Ensure connection before sending
@@ -238,13 +320,31 @@ export async function sendChatToMCP(
     const requestId = 'chat_' + Date.now();
     console.log('[MCP] Sending chat with requestId:', requestId, 'hasImage:', hasImage);
     
+    // Timeout: 120 seconds for image requests (vision API is slow), 60 seconds for normal.
+    // While streaming it counts from the last event, so long tool loops stay alive.
+    const timeoutMs = hasImage ? 120000 : 60000;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    const armTimeout = () => {
+      clearTimeout(timeoutTimer);
+      timeoutTimer = setTimeout(() => {
+        appState.mcpSocket!.removeEventListener('message', messageHandler);
+        reject(new Error(`Chat request timed out after ${timeoutMs / 1000} seconds`));
+      }, timeoutMs);
+    };
+    
     // Set up response handler
     const messageHandler = (event: MessageEvent) => {
       try {
         const data = JSON.parse(event.data);
+        if (data.type === 'chat-stream' && data.requestId === requestId) {
+          armTimeout();
+          onStream?.(data.event);
+          return;
+        }
         console.log('[MCP] Message received while waiting for chat:', data.type, data.requestId);
         if (data.type === 'chat-response' && data.requestId === requestId) {
           console.log('[MCP] Chat response matched!', data.error ? 'ERROR: ' + data.error : 'SUCCESS');
+          clearTimeout(timeoutTimer);
           appState.mcpSocket!.removeEventListener('message', messageHandler);
           if (data.error) {
             reject(new Error(data.error));
@@ -257,7 +357,7 @@ export async function sendChatToMCP(
               toolsCalled: data.toolsCalled,
             });
           }
-        } else if (data.requestId && data.type !== 'chat-response' && globalOnRequest) {
+        } else if (data.requestId && data.type !== 'chat-response' && data.type !== 'chat-stream' && globalOnRequest) {
           // This is a tool request (like get-image) that came in during the chat
           // Dispatch it to the main handler so UI actions like tab switch happen
           console.log('[MCP] Dispatching tool request during chat:', data.type);
@@ -281,7 +381,8 @@ export async function sendChatToMCP(
       type: 'chat',
       requestId,
       chatMessage: message,
-      conversationHistory: appState.conversationHistory.slice(-10), // Reduced for token savings
+      conversationHistory: appState.conversationHistory.slice(-10), // Seeds server memory after a restart
+      conversationId: appState.conversationId,
       modelConfig: {
         provider: modelConfig.provider,
         model: modelConfig.model,
@@ -300,16 +401,11 @@ export async function sendChatToMCP(
       systemPrompt,
       dashboardContext: appState.dashboardContext,
       hasImage,  // Used by MCP server for tool routing optimization
+      stream: !!onStream,  // Ask for 'chat-stream' progress messages
     };
     console.log('[MCP] Sending payload:', { ...chatPayload, modelConfig: { ...chatPayload.modelConfig, apiKey: '***' } });
     appState.mcpSocket!.send(JSON.stringify(chatPayload));
-    
-    // Timeout: 120 seconds for image requests (vision API is slow), 60 seconds for normal
-    const timeoutMs = hasImage ? 120000 : 60000;
-    setTimeout(() => {
-      appState.mcpSocket!.removeEventListener('message', messageHandler);
-      reject(new Error(`Chat request timed out after ${timeoutMs / 1000} seconds`));
-    }, timeoutMs);
+    armTimeout();
   });
 }
 
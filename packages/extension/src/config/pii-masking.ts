@@ -0,0 +1,175 @@
+/**
+ * PII masking for worksheet data sent to the MCP server
+ *
+ * Fields tagged in Settings > Data Privacy are masked in every row before
+ * the extension answers a data request (extract-analysis-data,
+ * get-worksheet-data, profile-data...), so names and emails never reach the
+ * server or the LLM provider behind it. One rule per line:
+ *   Customer Name: tokenize   -> PII-customername-7
+ *   Email: hash               -> PII-email-3f9a1c2b7d
+ *   Phone: drop               -> column removed
+ *
+ * Pseudonyms are consistent - the same value always gets the same one - so
+ * counts and group-bys on masked fields still work. Tokens are numbered per
+ * session; hashes use a key kept in this browser, so they stay the same
+ * across sessions. The mapping back to real values never leaves the
+ * extension: unmaskText restores them in chat replies and rendered output.
+ */
+
+import { appState } from './state';
+
+export type PiiMaskMode = 'hash' | 'tokenize' | 'drop';
+
+export interface PiiFieldRule {
+  field: string;
+  mode: PiiMaskMode;
+}
+
+const MODES: PiiMaskMode[] = ['hash', 'tokenize', 'drop'];
+const SALT_KEY = 'dashagent_pii_salt';
+const TOKEN_PATTERN = /\bPII-[a-z0-9]+-[a-z0-9]+\b/g;
+
+// token -> real value, and field+value -> token
+const originals = new Map<string, string>();
+const pseudonyms = new Map<string, string>();
+const tokenCounters = new Map<string, number>();
+let hmacKey: Promise<CryptoKey> | null = null;
+
+/**
+ * Parse the Settings text: "Field Name: mode" per line, mode defaults to
+ * tokenize. Blank lines and lines starting with # are skipped.
+ */
+export function parsePiiFieldRules(text: string): PiiFieldRule[] {
+  const rules: PiiFieldRule[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const separator = line.lastIndexOf(':');
+    const candidate = separator > 0 ? line.slice(separator + 1).trim().toLowerCase() : '';
+    const hasMode = (MODES as string[]).includes(candidate);
+    const field = hasMode ? line.slice(0, separator).trim() : line;
+    if (field) rules.push({ field, mode: hasMode ? candidate as PiiMaskMode : 'tokenize' });
+  }
+  return rules;
+}
+
+/**
+ * Find the rule for a column. Aggregated columns (ATTR(Email), CNTD(Email))
+ * match the field inside.
+ */
+function ruleFor(column: string, rules: PiiFieldRule[]): PiiFieldRule | undefined {
+  const inner = column.match(/^[A-Z]+\((.+)\)$/i)?.[1];
+  const names = [column, inner].filter(Boolean).map(name => name!.trim().toLowerCase());
+  return rules.find(rule => names.includes(rule.field.toLowerCase()));
+}
+
+const slugFor = (field: string) => field.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 24) || 'field';
+
+function getHmacKey(): Promise<CryptoKey> {
+  if (!hmacKey) {
+    let salt = localStorage.getItem(SALT_KEY);
+    if (!salt) {
+      salt = Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+      localStorage.setItem(SALT_KEY, salt);
+    }
+    hmacKey = crypto.subtle.importKey('raw', new TextEncoder().encode(salt), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  }
+  return hmacKey;
+}
+
+async function pseudonymFor(rule: PiiFieldRule, value: string): Promise<string> {
+  const slug = slugFor(rule.field);
+  const key = `${rule.mode}\u0000${slug}\u0000${value}`;
+  const existing = pseudonyms.get(key);
+  if (existing) return existing;
+
+  let token: string;
+  if (rule.mode === 'hash') {
+    const signature = await crypto.subtle.sign('HMAC', await getHmacKey(), new TextEncoder().encode(`${slug}\u0000${value}`));
+    const hex = Array.from(new Uint8Array(signature).slice(0, 5), b => b.toString(16).padStart(2, '0')).join('');
+    token = `PII-${slug}-${hex}`;
+  } else {
+    const next = (tokenCounters.get(slug) ?? 0) + 1;
+    tokenCounters.set(slug, next);
+    token = `PII-${slug}-${next}`;
+  }
+  pseudonyms.set(key, token);
+  originals.set(token, value);
+  return token;
+}
+
+/**
+ * Mask the tagged fields of extracted worksheet data ({ data, columns }).
+ * Columns may be field names or { fieldName } objects. Data without any
+ * tagged field is returned unchanged.
+ */
+export async function maskWorksheetData<T extends { data?: Record<string, any>[]; columns?: any[] }>(result: T): Promise<T> {
+  const rules = parsePiiFieldRules(appState.settings.piiFields);
+  if (rules.length === 0 || !result.data || !result.columns) return result;
+
+  const columnName = (column: any): string => typeof column === 'string' ? column : column?.fieldName;
+  const masked = new Map<string, PiiFieldRule>();
+  for (const column of result.columns) {
+    const rule = ruleFor(columnName(column), rules);
+    if (rule) masked.set(columnName(column), rule);
+  }
+  if (masked.size === 0) return result;
+
+  const data = await Promise.all(result.data.map(async row => {
+    const copy: Record<string, any> = { ...row };
+    for (const [column, rule] of masked) {
+      if (rule.mode === 'drop') {
+        delete copy[column];
+      } else if (copy[column] !== null && copy[column] !== undefined && copy[column] !== '') {
+        copy[column] = await pseudonymFor(rule, String(copy[column]));
+      }
+    }
+    return copy;
+  }));
+
+  const piiMasking = Object.fromEntries(Array.from(masked, ([column, rule]) => [column, rule.mode]));
+  return {
+    ...result,
+    data,
+    columns: result.columns.filter(column => masked.get(columnName(column))?.mode !== 'drop'),
+    piiMasking,
+    piiNote: 'Fields in piiMasking hold pseudonyms (PII-<field>-<id>) or were dropped. Use pseudonyms verbatim - the analyst sees the real values.',
+  };
+}
+
+/**
+ * Mask values of one field outside row data, e.g. a worksheet's applied
+ * filter values. Dropped fields report no values.
+ */
+export async function maskFieldValues(field: string, values: unknown[]): Promise<unknown[]> {
+  const rule = ruleFor(field, parsePiiFieldRules(appState.settings.piiFields));
+  if (!rule) return values;
+  if (rule.mode === 'drop') return [];
+  return Promise.all(values.map(value =>
+    value === null || value === undefined || value === '' ? value : pseudonymFor(rule, String(value))));
+}
+
+/**
+ * Map a pseudonym the model sent back (a filter value, a parameter value)
+ * to the real value before Tableau applies it. Anything else is returned
+ * unchanged.
+ */
+export function unmaskValue<T>(value: T): T | string {
+  if (typeof value !== 'string') return value;
+  return unmaskText(value);
+}
+
+/**
+ * Replace pseudonyms with the real values for display in the extension.
+ * Pass html when the result is inserted as markup.
+ */
+export function unmaskText(text: string, html = false): string {
+  if (originals.size === 0 || !text) return text;
+  return text.replace(TOKEN_PATTERN, token => {
+    const value = originals.get(token);
+    if (value === undefined) return token;
+    return html
+      ? value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+      : value;
+  });
+}
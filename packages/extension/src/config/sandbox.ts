@@ -0,0 +1,198 @@
+/**
+ * Sandboxed rendering for generated HTML
+ *
+ * Components from render-component and HTML written by the direct LLM
+ * fallback are sanitized (see utils/sanitize.ts) and then shown in an
+ * <iframe sandbox="allow-scripts"> rather than the extension page itself.
+ * The frame has an opaque origin, so it can't reach the Tableau API, the
+ * page's DOM or localStorage (API keys), and its CSP only allows inline
+ * styles, data: images and our own bridge script.
+ *
+ * The bridge script is the frame's only way out. It turns two markup
+ * conventions into postMessage calls the page checks before acting on:
+ *   data-tooltip="text"                       -> tooltip shown by the page
+ *   data-filter-field="Region"
+ *   data-filter-value="West"                  -> click filters the dashboard
+ *   data-filter-worksheet="Sales Map"            (optional, default: every
+ *                                                 worksheet with the field)
+ * An empty or missing data-filter-value clears the filter on that field.
+ */
+
+import { sanitizeHtml } from './utils/sanitize';
+
+const MESSAGE_SOURCE = 'dashagent-sandbox';
+const MAX_TEXT = 500;
+const MAX_FRAME_HEIGHT = 5000;
+
+const CSP = [
+  "default-src 'none'",
+  "style-src 'unsafe-inline'",
+  'img-src data:',
+  'font-src data:',
+  "base-uri 'none'",
+  "form-action 'none'",
+].join('; ');
+
+export interface SandboxFilter {
+  field: string;
+  /** Missing means clear the filter */
+  value?: string;
+  worksheet?: string;
+}
+
+export interface SandboxHandlers {
+  /** Apply a click-to-filter request from a rendered component */
+  onFilter(filter: SandboxFilter): Promise<void>;
+}
+
+// Runs inside the frame. Kept as plain ES5 so it needs no bundling.
+const BRIDGE_SCRIPT = `(function () {
+  var hovered = null;
+  function post(message) {
+    message.source = '${MESSAGE_SOURCE}';
+    parent.postMessage(message, '*');
+  }
+  function closest(node, attribute) {
+    while (node && node.nodeType === 1) {
+      if (node.hasAttribute(attribute)) return node;
+      node = node.parentNode;
+    }
+    return null;
+  }
+  document.addEventListener('mouseover', function (event) {
+    var target = closest(event.target, 'data-tooltip');
+    if (target === hovered) return;
+    hovered = target;
+    if (!target) return post({ type: 'tooltip-hide' });
+    var box = target.getBoundingClientRect();
+    post({ type: 'tooltip', text: target.getAttribute('data-tooltip'), x: box.left + box.width / 2, y: box.top });
+  });
+  document.documentElement.addEventListener('mouseleave', function () {
+    hovered = null;
+    post({ type: 'tooltip-hide' });
+  });
+  document.addEventListener('click', function (event) {
+    var target = closest(event.target, 'data-filter-field');
+    if (!target) return;
+    event.preventDefault();
+    post({
+      type: 'filter',
+      field: target.getAttribute('data-filter-field'),
+      value: target.getAttribute('data-filter-value'),
+      worksheet: target.getAttribute('data-filter-worksheet')
+    });
+  });
+  function resize() {
+    post({ type: 'resize', height: document.documentElement.scrollHeight });
+  }
+  new ResizeObserver(resize).observe(document.body);
+  resize();
+})();`;
+
+function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function buildSrcdoc(html: string): string {
+  const nonce = createNonce();
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${CSP}; script-src 'nonce-${nonce}'">
+<style>
+  html, body { margin: 0; background: transparent; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: #1f2937; }
+  [data-filter-field] { cursor: pointer; }
+</style>
+</head>
+<body>${html}<script nonce="${nonce}">${BRIDGE_SCRIPT}</script></body>
+</html>`;
+}
+
+/**
+ * Render generated HTML into a sandboxed frame inside container. Returns
+ * what the sanitizer removed.
+ */
+export function renderSandboxed(container: HTMLElement, html: string, append = false): { removed: string[] } {
+  if (!append) container.innerHTML = '';
+  if (!html.trim()) return { removed: [] };
+
+  const { html: clean, removed } = sanitizeHtml(html);
+  const frame = document.createElement('iframe');
+  frame.className = 'sandbox-frame';
+  frame.title = 'Generated component';
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.setAttribute('referrerpolicy', 'no-referrer');
+  frame.srcdoc = buildSrcdoc(clean);
+  container.appendChild(frame);
+  return { removed };
+}
+
+function findFrame(source: MessageEventSource | null): HTMLIFrameElement | undefined {
+  return Array.from(document.querySelectorAll<HTMLIFrameElement>('iframe.sandbox-frame'))
+    .find(frame => frame.contentWindow === source);
+}
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value.slice(0, MAX_TEXT) : undefined;
+
+function getTooltip(): HTMLElement {
+  let tooltip = document.getElementById('sandbox-tooltip');
+  if (!tooltip) {
+    tooltip = document.createElement('div');
+    tooltip.id = 'sandbox-tooltip';
+    tooltip.className = 'sandbox-tooltip';
+    document.body.appendChild(tooltip);
+  }
+  return tooltip;
+}
+
+/**
+ * Listen for bridge messages from sandboxed frames. Messages from anything
+ * other than one of our frames, or not in the expected shape, are ignored.
+ */
+export function initSandboxMessaging(handlers: SandboxHandlers): void {
+  window.addEventListener('message', (event: MessageEvent) => {
+    const data = event.data;
+    if (!data || typeof data !== 'object' || data.source !== MESSAGE_SOURCE) return;
+    // Sandboxed frames without allow-same-origin always report origin "null"
+    if (event.origin !== 'null') return;
+    const frame = findFrame(event.source);
+    if (!frame) return;
+
+    switch (data.type) {
+      case 'resize': {
+        if (typeof data.height !== 'number' || !isFinite(data.height)) return;
+        frame.style.height = `${Math.min(Math.max(Math.ceil(data.height), 0), MAX_FRAME_HEIGHT)}px`;
+        break;
+      }
+
+      case 'tooltip': {
+        const text = asText(data.text);
+        if (!text || typeof data.x !== 'number' || typeof data.y !== 'number') return;
+        const box = frame.getBoundingClientRect();
+        const tooltip = getTooltip();
+        // Text only - the frame never gets to put markup in the page
+        tooltip.textContent = text;
+        tooltip.style.left = `${box.left + Math.min(Math.max(data.x, 0), box.width)}px`;
+        tooltip.style.top = `${box.top + Math.min(Math.max(data.y, 0), box.height)}px`;
+        tooltip.classList.add('visible');
+        break;
+      }
+
+      case 'tooltip-hide':
+        document.getElementById('sandbox-tooltip')?.classList.remove('visible');
+        break;
+
+      case 'filter': {
+        const field = asText(data.field);
+        if (!field) return;
+        handlers.onFilter({ field, value: asText(data.value), worksheet: asText(data.worksheet) })
+          .catch(error => console.warn('[DashAgent] Sandbox filter failed:', error));
+        break;
+      }
+    }
+  });
+}
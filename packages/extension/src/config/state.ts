@@ -79,9 +79,15 @@ function createSettings(): Settings {
     modelGeneration: localStorage.getItem('dashagent_model_generation') || 'anthropic:claude-sonnet-4-20250514',
     modelAnalysis: localStorage.getItem('dashagent_model_analysis') || 'openai:gpt-5.2',
     
+    // OpenAI-compatible local server (Ollama, vLLM) for "local:" models
+    localLlmUrl: localStorage.getItem('dashagent_local_llm_url') || 'http://localhost:11434/v1',
+    
     // MCP Server
     mcpUrl: localStorage.getItem('dashagent_mcpurl') || 'ws://localhost:3001',
-    wsAuthToken: localStorage.getItem('dashagent_ws_auth_token') || 'dashagent-dev-token-2024',  // Must match DASHAGENT_WS_TOKEN on server
+    wsAuthToken: localStorage.getItem('dashagent_ws_auth_token') || '',  // Issued by pairing (or DASHAGENT_WS_TOKEN on server)
+    
+    // Fields masked before worksheet data is sent to the MCP server
+    piiFields: localStorage.getItem('dashagent_pii_fields') || '',
     
     // Helper to get model config for a task type
     getModelConfig(taskType: 'vision' | 'generation' | 'analysis'): ModelConfig {
@@ -92,9 +98,12 @@ function createSettings(): Settings {
         case 'analysis': 
         default: modelString = this.modelAnalysis; break;
       }
-      const [provider, model] = modelString.split(':') as ['openai' | 'anthropic', string];
-      const apiKey = provider === 'openai' ? this.openaiApiKey : this.anthropicApiKey;
-      return { provider, model, apiKey };
+      // Split at the first colon only - local model tags can contain colons (qwen2.5:14b)
+      const separator = modelString.indexOf(':');
+      const provider = modelString.slice(0, separator);
+      const model = modelString.slice(separator + 1);
+      const apiKeys: Record<string, string> = { openai: this.openaiApiKey, anthropic: this.anthropicApiKey };
+      return { provider, model, apiKey: apiKeys[provider] || '' };
     },
     
     // Helper to get the correct token parameter for OpenAI models
@@ -107,6 +116,11 @@ function createSettings(): Settings {
   return settings;
 }
 
+// Unguessable - the server keys memory by caller and this id
+function newConversationId(): string {
+  return `conv_${crypto.randomUUID()}`;
+}
+
 // Application state singleton
 export class AppState {
   // Settings
@@ -118,6 +132,9 @@ export class AppState {
   // Conversation history
   conversationHistory: ChatMessage[] = [];
   
+  // Lets the MCP server keep memory (digest, pinned facts) across chats; new after Clear
+  conversationId: string = newConversationId();
+  
   // Last generated analysis (for follow-up questions)
   lastGeneratedAnalysis: { markdown?: string } | null = null;
   
@@ -150,12 +167,15 @@ export class AppState {
     localStorage.setItem('dashagent_model_generation', this.settings.modelGeneration);
     localStorage.setItem('dashagent_model_analysis', this.settings.modelAnalysis);
     localStorage.setItem('dashagent_mcpurl', this.settings.mcpUrl);
+    localStorage.setItem('dashagent_local_llm_url', this.settings.localLlmUrl);
     localStorage.setItem('dashagent_ws_auth_token', this.settings.wsAuthToken);
+    localStorage.setItem('dashagent_pii_fields', this.settings.piiFields);
   }
   
   // Clear conversation history
   clearConversation(): void {
     this.conversationHistory = [];
+    this.conversationId = newConversationId();
     this.lastGeneratedAnalysis = null;
   }
   
@@ -47,12 +47,14 @@ export interface Settings {
   modelAnalysis: string;
   mcpUrl: string;
   wsAuthToken: string;
+  localLlmUrl: string;  // Direct LLM calls only - MCP chat uses the server's DASHAGENT_LOCAL_LLM_URL
+  piiFields: string;  // "Field: hash|tokenize|drop" per line - see pii-masking.ts
   getModelConfig(taskType: 'vision' | 'generation' | 'analysis'): ModelConfig;
   getOpenAITokenParam(model: string, tokens?: number): { max_completion_tokens: number };
 }
 
 export interface ModelConfig {
-  provider: 'openai' | 'anthropic';
+  provider: string;  // LLM provider id - see PROVIDERS in llm-client.ts
   model: string;
   apiKey: string;
 }
@@ -4,3 +4,4 @@
 
 export * from './statistics';
 export * from './formatting';
+export * from './sanitize';
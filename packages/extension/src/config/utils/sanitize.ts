@@ -0,0 +1,182 @@
+/**
+ * Allow-list HTML sanitizer for model-written markup
+ *
+ * Everything not listed here is dropped: unknown elements are unwrapped
+ * (their text is kept), dangerous ones are removed with their content, and
+ * attributes, URLs and inline CSS are checked one by one. Parsing happens in
+ * an inert DOMParser document, so nothing runs or loads while sanitizing.
+ */
+
+const HTML_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'b', 'blockquote', 'br', 'button', 'caption', 'code', 'col',
+  'colgroup', 'dd', 'del', 'details', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'label', 'li',
+  'main', 'mark', 'meter', 'nav', 'ol', 'p', 'pre', 'progress', 'q', 's', 'section', 'small',
+  'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'time', 'tr', 'u', 'ul',
+]);
+
+// Inline SVG for charts and icons - no <use>, <image>, <foreignObject> or <animate>
+const SVG_TAGS = new Set([
+  'svg', 'g', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan',
+  'title', 'desc', 'defs', 'linearGradient', 'radialGradient', 'stop', 'clipPath', 'mask', 'pattern',
+  'marker',
+]);
+
+// Removed together with everything inside them
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript',
+  'template', 'textarea', 'select', 'link', 'meta', 'base', 'head', 'title', 'foreignObject',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'id', 'style', 'title', 'role', 'dir', 'lang', 'hidden', 'tabindex']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'target', 'rel']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  td: new Set(['colspan', 'rowspan', 'align']),
+  th: new Set(['colspan', 'rowspan', 'align', 'scope']),
+  col: new Set(['span', 'width']),
+  colgroup: new Set(['span']),
+  ol: new Set(['start', 'reversed', 'type']),
+  progress: new Set(['value', 'max']),
+  meter: new Set(['value', 'min', 'max', 'low', 'high', 'optimum']),
+  time: new Set(['datetime']),
+  details: new Set(['open']),
+  button: new Set(['type', 'disabled']),
+  table: new Set(['width']),
+};
+
+const SVG_ATTRIBUTES = new Set([
+  'viewBox', 'width', 'height', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy',
+  'd', 'points', 'dx', 'dy', 'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+  'stroke-dasharray', 'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'opacity', 'transform',
+  'text-anchor', 'dominant-baseline', 'font-size', 'font-family', 'font-weight', 'letter-spacing',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'patternUnits',
+  'clip-path', 'clipPathUnits', 'mask', 'maskUnits', 'markerWidth', 'markerHeight', 'refX', 'refY',
+  'orient', 'marker-start', 'marker-mid', 'marker-end', 'preserveAspectRatio', 'xmlns', 'visibility',
+]);
+
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+// Only raster data URLs - an SVG data URL can carry its own script
+const SAFE_IMAGE = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i;
+
+export interface SanitizeOptions {
+  /**
+   * The markup goes straight into the extension page (chat messages) rather
+   * than a sandboxed frame: <style> elements and ids are dropped so they
+   * can't restyle or shadow the page's own elements, and links open in a
+   * new tab.
+   */
+  inline?: boolean;
+}
+
+export interface SanitizeResult {
+  html: string;
+  /** What was taken out, e.g. ['<script>', 'onclick', 'javascript: URL'] */
+  removed: string[];
+}
+
+/**
+ * Strip CSS that could run code or fetch from elsewhere. Local references
+ * (url(#gradient)) are kept for SVG fills.
+ */
+function cleanCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/expression\s*\(/gi, '(')
+    .replace(/url\(\s*(['"]?)(?!#)[^)]*\)/gi, 'none')
+    .replace(/(java|vb)script:/gi, '');
+}
+
+function sanitizeAttributes(el: Element, isSvg: boolean, options: SanitizeOptions, removed: Set<string>): void {
+  const tag = el.localName;
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.name;
+    const lower = name.toLowerCase();
+
+    if (lower.startsWith('on')) {
+      removed.add(lower);
+      el.removeAttribute(name);
+      continue;
+    }
+
+    const allowed = lower.startsWith('data-') || lower.startsWith('aria-') ||
+      GLOBAL_ATTRIBUTES.has(lower) ||
+      (isSvg ? SVG_ATTRIBUTES.has(name) : TAG_ATTRIBUTES[tag]?.has(lower));
+    if (!allowed || (options.inline && lower === 'id')) {
+      el.removeAttribute(name);
+      continue;
+    }
+
+    const value = attr.value.trim();
+    if (lower === 'href' && !SAFE_LINK.test(value)) {
+      removed.add(/^\s*(java|vb)script:/i.test(value) ? 'javascript: URL' : 'unsafe link');
+      el.removeAttribute(name);
+    } else if (lower === 'src' && !SAFE_IMAGE.test(value)) {
+      removed.add('external image');
+      el.removeAttribute(name);
+    } else if (lower === 'style') {
+      const css = cleanCss(attr.value);
+      if (css !== attr.value) removed.add('unsafe CSS');
+      el.setAttribute(name, css);
+    } else if (isSvg && /url\(/i.test(value) && !/^url\(\s*#[\w-]+\s*\)$/i.test(value)) {
+      removed.add('unsafe CSS');
+      el.removeAttribute(name);
+    }
+  }
+
+  if (tag === 'a' && el.hasAttribute('href') && (options.inline || el.getAttribute('target'))) {
+    el.setAttribute('target', '_blank');
+    el.setAttribute('rel', 'noopener noreferrer');
+  }
+  if (tag === 'button') el.setAttribute('type', 'button');
+}
+
+function sanitizeChildren(parent: Element, options: SanitizeOptions, removed: Set<string>): void {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      node.remove();
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const el = node as Element;
+    const isSvg = el.namespaceURI === 'http://www.w3.org/2000/svg';
+    const tag = el.localName;
+    const known = isSvg ? SVG_TAGS.has(tag) : HTML_TAGS.has(tag);
+
+    if (tag === 'style' && !isSvg && !options.inline) {
+      // Stylesheets are scoped to the sandboxed frame, so only their content is checked
+      const css = cleanCss(el.textContent || '');
+      if (css !== el.textContent) removed.add('unsafe CSS');
+      el.textContent = css;
+      for (const attr of Array.from(el.attributes)) el.removeAttribute(attr.name);
+      continue;
+    }
+    if (DROP_WITH_CONTENT.has(tag) && !(isSvg && tag === 'title')) {
+      removed.add(`<${tag}>`);
+      el.remove();
+      continue;
+    }
+    if (!known) {
+      // Keep the text of anything unrecognised (<font>, <center>, <form>...)
+      sanitizeChildren(el, options, removed);
+      el.replaceWith(...Array.from(el.childNodes));
+      continue;
+    }
+
+    sanitizeAttributes(el, isSvg, options, removed);
+    sanitizeChildren(el, options, removed);
+  }
+}
+
+/**
+ * Reduce markup to the allowed tags, attributes and inline SVG
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): SanitizeResult {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}`, 'text/html');
+  const removed = new Set<string>();
+  sanitizeChildren(doc.body, options, removed);
+  return { html: doc.body.innerHTML, removed: Array.from(removed) };
+}
@@ -0,0 +1,262 @@
+/**
+ * Audit Log - append-only record of what the agent did
+ *
+ * Every tool call (from chat, extension tools/call or MCP clients), every
+ * guardrail flag raised on a chat message and every request sent to an
+ * extension is appended as one JSON line to DASHAGENT_AUDIT_LOG (default
+ * ~/.dashagent/audit.jsonl):
+ *   {"timestamp": "...", "event": "tool-call", "source": "chat", "caller": "tok_1a2b",
+ *    "clientId": "ext_...", "dashboardName": "Sales", "messageHash": "9f86d0...",
+ *    "tool": "apply-filter", "args": {...}, "status": "success",
+ *    "guardrailFlags": [], "durationMs": 412}
+ *
+ * User messages are never stored - only their SHA-256, so an entry can be
+ * matched to a message someone already has. Arguments are sanitized: secret
+ * fields are redacted and long values (HTML, images) truncated.
+ *
+ * ROTATION:
+ * When the log would pass DASHAGENT_AUDIT_MAX_MB (default 10) it is renamed
+ * to audit.jsonl.1 (older files shift up) and a new one is started.
+ * DASHAGENT_AUDIT_MAX_FILES (default 5) rotated files are kept.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { callerKey, UsageCaller } from './usage-ledger.js';
+
+// Read on use so the replay harness can point the log elsewhere
+const auditFile = () => process.env.DASHAGENT_AUDIT_LOG || join(homedir(), '.dashagent', 'audit.jsonl');
+const maxBytes = () => (parseFloat(process.env.DASHAGENT_AUDIT_MAX_MB || '') || 10) * 1024 * 1024;
+const maxFiles = () => parseInt(process.env.DASHAGENT_AUDIT_MAX_FILES || '', 10) || 5;
+
+export const AUDIT_EVENTS = ['tool-call', 'guardrail', 'extension-action'] as const;
+export type AuditEvent = typeof AUDIT_EVENTS[number];
+
+export const AUDIT_STATUSES = ['success', 'error', 'blocked', 'rejected', 'flagged'] as const;
+export type AuditStatus = typeof AUDIT_STATUSES[number];
+
+export type AuditSource = 'chat' | 'extension' | 'mcp';
+
+export interface AuditEntry extends UsageCaller {
+  timestamp: string;
+  event: AuditEvent;
+  source: AuditSource;
+  caller: string;
+  /** SHA-256 of the chat message that led to this (chat only) */
+  messageHash?: string;
+  /** Tool being run; for extension actions, the tool that sent the request */
+  tool?: string;
+  /** Extension message type (extension-action only) */
+  action?: string;
+  args?: unknown;
+  status: AuditStatus;
+  error?: string;
+  guardrailFlags: string[];
+  durationMs?: number;
+}
+
+interface AuditContext {
+  source: AuditSource;
+  messageHash?: string;
+  guardrailFlags: string[];
+  tool?: string;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run fn with audit details that entries recorded inside it inherit
+ * (the chat message, the tool being run)
+ */
+export function withAuditContext<T>(context: Partial<AuditContext>, fn: () => T): T {
+  const parent = auditContext.getStore();
+  return auditContext.run({ source: 'mcp', guardrailFlags: [], ...parent, ...context }, fn);
+}
+
+export function getAuditSource(): AuditSource | undefined {
+  return auditContext.getStore()?.source;
+}
+
+/**
+ * Attach a chat's guardrail flags to everything it goes on to record
+ */
+export function noteGuardrailFlags(flags: string[]): void {
+  const context = auditContext.getStore();
+  if (context) context.guardrailFlags = [...flags];
+}
+
+export function hashMessage(message: string): string {
+  return createHash('sha256').update(message).digest('hex');
+}
+
+const SECRET_KEY = /api[-_]?key|secret|password|passwd|token$|authorization|cookie/i;
+const MAX_STRING = 200;
+const MAX_ITEMS = 20;
+const MAX_DEPTH = 4;
+
+/**
+ * Copy of tool arguments that is safe and small enough to log
+ */
+export function sanitizeArgs(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    if (value.startsWith('data:')) return `[data URL, ${value.length} chars]`;
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}… (${value.length} chars)` : value;
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? `[array of ${value.length}]` : '[object]';
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map(item => sanitizeArgs(item, depth + 1));
+    return value.length > MAX_ITEMS ? [...items, `… ${value.length - MAX_ITEMS} more`] : items;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEY.test(key) && item ? '[redacted]' : sanitizeArgs(item, depth + 1);
+  }
+  return result;
+}
+
+// Writes are queued so rotation never races an append
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Append a line to a JSON-lines log, first rotating it to file.1 (older
+ * files shift up, maxFiles kept) when the line would take it past maxBytes.
+ * Callers queue their writes so rotation never races an append.
+ */
+export async function appendRotated(file: string, line: string, limits: { maxBytes: number; maxFiles: number }): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  const size = await stat(file).then(s => (s.isFile() ? s.size : 0), () => 0);
+  if (size > 0 && size + Buffer.byteLength(line) > limits.maxBytes) {
+    await rm(`${file}.${limits.maxFiles}`, { force: true });
+    for (let i = limits.maxFiles - 1; i >= 1; i--) {
+      await rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => undefined);
+    }
+    await rename(file, `${file}.1`);
+  }
+  await appendFile(file, line);
+}
+
+async function append(line: string): Promise<void> {
+  const file = auditFile();
+  try {
+    await appendRotated(file, line, { maxBytes: maxBytes(), maxFiles: maxFiles() });
+  } catch (error) {
+    console.error(`[Audit] Failed to write ${file}:`, error);
+  }
+}
+
+/**
+ * Append an entry. Source, message hash, guardrail flags and tool come from
+ * the surrounding audit context unless given.
+ */
+export function recordAudit(
+  entry: Omit<AuditEntry, 'timestamp' | 'caller' | 'source' | 'guardrailFlags'> & Partial<Pick<AuditEntry, 'source' | 'guardrailFlags'>>
+): Promise<void> {
+  const context = auditContext.getStore();
+  const recorded: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    event: entry.event,
+    source: entry.source ?? context?.source ?? 'mcp',
+    caller: callerKey(entry),
+    clientId: entry.clientId,
+    tokenId: entry.tokenId,
+    dashboardName: entry.dashboardName,
+    messageHash: context?.messageHash,
+    tool: entry.tool ?? context?.tool,
+    action: entry.action,
+    args: entry.args === undefined ? undefined : sanitizeArgs(entry.args),
+    status: entry.status,
+    error: entry.error,
+    guardrailFlags: entry.guardrailFlags ?? context?.guardrailFlags ?? [],
+    durationMs: entry.durationMs,
+  };
+  const line = JSON.stringify(recorded) + '\n';
+  writeQueue = writeQueue.then(() => append(line));
+  return writeQueue;
+}
+
+// ==================== QUERIES ====================
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  tool?: string;
+  event?: AuditEvent;
+  status?: AuditStatus;
+  dashboard?: string;
+  caller?: string;
+  messageHash?: string;
+  /** Most recent entries to return (default 100) */
+  limit?: number;
+}
+
+async function readEntries(file: string): Promise<AuditEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch {
+    return [];
+  }
+  const entries: AuditEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip a partially written line rather than losing the whole file
+    }
+  }
+  return entries;
+}
+
+/**
+ * Search the log and its rotated files, newest entries first
+ */
+export async function queryAudit(query: AuditQuery): Promise<{
+  entries: AuditEntry[];
+  matched: number;
+  truncated: boolean;
+  filesSearched: number;
+}> {
+  const file = auditFile();
+  const limit = query.limit ?? 100;
+  const matches: AuditEntry[] = [];
+  let filesSearched = 0;
+
+  await writeQueue;
+  for (let i = 0; i <= maxFiles(); i++) {
+    const path = i === 0 ? file : `${file}.${i}`;
+    // Rotated files hold older entries - stop once one ends before the range
+    const modified = await stat(path).then(s => s.mtime, () => null);
+    if (!modified) {
+      if (i === 0) continue;
+      break;
+    }
+    if (query.since && i > 0 && modified < query.since) break;
+    filesSearched++;
+
+    const entries = (await readEntries(path)).filter(entry => {
+      const time = new Date(entry.timestamp);
+      if (query.since && time < query.since) return false;
+      if (query.until && time > query.until) return false;
+      if (query.tool && entry.tool !== query.tool) return false;
+      if (query.event && entry.event !== query.event) return false;
+      if (query.status && entry.status !== query.status) return false;
+      if (query.dashboard && entry.dashboardName !== query.dashboard) return false;
+      if (query.caller && entry.caller !== query.caller) return false;
+      if (query.messageHash && entry.messageHash !== query.messageHash) return false;
+      return true;
+    });
+    matches.push(...entries.reverse());
+  }
+
+  return {
+    entries: matches.slice(0, limit),
+    matched: matches.length,
+    truncated: matches.length > limit,
+    filesSearched,
+  };
+}
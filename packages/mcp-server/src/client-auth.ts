@@ -0,0 +1,287 @@
+/**
+ * Client Auth - per-extension tokens for the WebSocket bridge
+ *
+ * Extensions pair once: the server prints a short one-time code, the user
+ * enters it in the extension settings, and the bridge exchanges it for a
+ * token tied to that client. Tokens expire, are rotated automatically when
+ * close to expiry, and can be revoked (revoked tokens stay listed). A
+ * rotated token keeps working until its replacement is first used, so an
+ * extension that never received the new token isn't locked out.
+ *
+ * Failed pairing attempts are counted across all connections: after
+ * MAX_FAILED_PAIRINGS in PAIRING_WINDOW_MS, every attempt is refused until
+ * the window has passed, so reconnecting doesn't buy more guesses.
+ *
+ * Only token hashes are stored, in DASHAGENT_TOKEN_FILE
+ * (default ~/.dashagent/client-tokens.json).
+ *
+ * The shared DASHAGENT_WS_TOKEN secret is still accepted, but the old
+ * built-in default is refused unless DASHAGENT_DEV is set.
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_TTL_MS = Number(process.env.DASHAGENT_TOKEN_TTL_DAYS || 30) * DAY_MS;
+// Rotate when less than a quarter of the lifetime is left
+const ROTATE_BEFORE_MS = TOKEN_TTL_MS / 4;
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+const PAIRING_WINDOW_MS = 10 * 60 * 1000;
+const MAX_FAILED_PAIRINGS = 10;
+// No 0/O or 1/I so codes are easy to type
+const PAIRING_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const TOKEN_FILE = process.env.DASHAGENT_TOKEN_FILE || join(homedir(), '.dashagent', 'client-tokens.json');
+
+export const DEV_SHARED_TOKEN = 'dashagent-dev-token-2024';
+
+export interface ClientTokenInfo {
+  tokenId: string;
+  label: string;
+  issuedAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  revokedReason?: string;
+  /** Replacement issued by rotation; this token is revoked once it is used */
+  rotatedTo?: string;
+  /** Token this one replaced */
+  rotatedFrom?: string;
+}
+
+interface StoredToken extends ClientTokenInfo {
+  hash: string;
+}
+
+interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+const tokens = new Map<string, StoredToken>(loadTokens().map(t => [t.tokenId, t]));
+const pairingCodes = new Map<string, PairingCode>();
+// Times of failed pairing attempts within the window, from any connection
+let failedPairings: number[] = [];
+
+// ==================== PERSISTENCE ====================
+
+function loadTokens(): StoredToken[] {
+  try {
+    return JSON.parse(readFileSync(TOKEN_FILE, 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+function saveTokens(): void {
+  try {
+    mkdirSync(dirname(TOKEN_FILE), { recursive: true });
+    writeFileSync(TOKEN_FILE, JSON.stringify(Array.from(tokens.values()), null, 2), { encoding: 'utf8', mode: 0o600 });
+  } catch (error) {
+    console.error('[ClientAuth] Failed to save client tokens:', error);
+  }
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toInfo(token: StoredToken): ClientTokenInfo {
+  const { hash: _hash, ...info } = token;
+  return info;
+}
+
+// ==================== SHARED TOKEN ====================
+
+/**
+ * Resolve the shared bridge secret from the environment
+ * Returns null when only paired tokens are accepted. Throws if the built-in
+ * default is configured without DASHAGENT_DEV, so the server refuses to start.
+ */
+export function resolveSharedToken(): string | null {
+  const devMode = ['1', 'true'].includes((process.env.DASHAGENT_DEV || '').toLowerCase());
+  const configured = process.env.DASHAGENT_WS_TOKEN;
+
+  if (configured === DEV_SHARED_TOKEN && !devMode) {
+    throw new Error(
+      `DASHAGENT_WS_TOKEN is set to the built-in default "${DEV_SHARED_TOKEN}". ` +
+      'Set a unique secret, unset it to use pairing only, or set DASHAGENT_DEV=1 for local development.'
+    );
+  }
+  if (configured) return configured;
+  return devMode ? DEV_SHARED_TOKEN : null;
+}
+
+// ==================== PAIRING ====================
+
+/**
+ * Create a one-time pairing code (e.g. "K7MD-Q2XA")
+ */
+export function createPairingCode(): { code: string; expiresAt: Date } {
+  const now = Date.now();
+  for (const [code, pairing] of pairingCodes) {
+    if (pairing.expiresAt <= now) pairingCodes.delete(code);
+  }
+
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    code += PAIRING_ALPHABET[randomInt(PAIRING_ALPHABET.length)];
+  }
+  code = `${code.slice(0, 4)}-${code.slice(4)}`;
+
+  const expiresAt = now + PAIRING_CODE_TTL_MS;
+  pairingCodes.set(code, { code, expiresAt });
+  return { code, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Exchange a pairing code for a client token (the code is consumed)
+ * Returns an error for unknown or expired codes, and for every attempt
+ * while too many have failed recently.
+ */
+export function redeemPairingCode(
+  code: string,
+  label: string
+): { token: string; info: ClientTokenInfo } | { error: string } {
+  const now = Date.now();
+  failedPairings = failedPairings.filter(time => time > now - PAIRING_WINDOW_MS);
+  if (failedPairings.length >= MAX_FAILED_PAIRINGS) {
+    const minutes = Math.ceil((failedPairings[0] + PAIRING_WINDOW_MS - now) / 60000);
+    return { error: `Too many failed pairing attempts - try again in ${minutes} min` };
+  }
+
+  const normalized = code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const key = `${normalized.slice(0, 4)}-${normalized.slice(4)}`;
+  const pairing = pairingCodes.get(key);
+  if (pairing) pairingCodes.delete(key);
+  if (!pairing || pairing.expiresAt <= now) {
+    failedPairings.push(now);
+    return { error: 'Invalid or expired pairing code' };
+  }
+
+  return issueToken(label);
+}
+
+// ==================== TOKENS ====================
+
+function issueToken(label: string, rotatedFrom?: string): { token: string; info: ClientTokenInfo } {
+  const tokenId = randomBytes(6).toString('hex');
+  const secret = randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  const stored: StoredToken = {
+    tokenId,
+    label,
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + TOKEN_TTL_MS).toISOString(),
+    ...(rotatedFrom ? { rotatedFrom } : {}),
+    hash: hashSecret(secret),
+  };
+  tokens.set(tokenId, stored);
+  saveTokens();
+
+  return { token: `dat_${tokenId}.${secret}`, info: toInfo(stored) };
+}
+
+/**
+ * Verify a client token presented in a 'register' message
+ */
+export function verifyClientToken(token: string): { valid: boolean; info?: ClientTokenInfo; shouldRotate?: boolean; reason?: string } {
+  const match = /^dat_([0-9a-f]+)\.(.+)$/.exec(token);
+  const stored = match ? tokens.get(match[1]) : undefined;
+  if (!match || !stored) {
+    return { valid: false, reason: 'Unknown token' };
+  }
+
+  const expected = Buffer.from(stored.hash, 'hex');
+  const actual = Buffer.from(hashSecret(match[2]), 'hex');
+  if (!timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'Unknown token' };
+  }
+  if (stored.revokedAt) {
+    return { valid: false, reason: 'Token revoked' };
+  }
+
+  const expiresAt = new Date(stored.expiresAt).getTime();
+  if (expiresAt <= Date.now()) {
+    return { valid: false, reason: 'Token expired' };
+  }
+
+  // First use of a rotated token - the extension has it, so retire the old one
+  if (!stored.lastUsedAt && stored.rotatedFrom) {
+    const previous = tokens.get(stored.rotatedFrom);
+    if (previous) markRevoked(previous, `Rotated to ${stored.tokenId}`);
+  }
+
+  stored.lastUsedAt = new Date().toISOString();
+  saveTokens();
+  return { valid: true, info: toInfo(stored), shouldRotate: expiresAt - Date.now() < ROTATE_BEFORE_MS };
+}
+
+/**
+ * Issue a fresh token to replace one close to expiry
+ * The old token stays valid until the new one is first used. Rotating again
+ * before that (the new token never arrived) replaces the unused one.
+ */
+export function rotateClientToken(tokenId: string): { token: string; info: ClientTokenInfo } | null {
+  const stored = tokens.get(tokenId);
+  if (!stored || stored.revokedAt) return null;
+
+  const rotated = issueToken(stored.label, tokenId);
+  const unused = stored.rotatedTo ? tokens.get(stored.rotatedTo) : undefined;
+  if (unused) markRevoked(unused, `Superseded by ${rotated.info.tokenId}`);
+  stored.rotatedTo = rotated.info.tokenId;
+  saveTokens();
+  return rotated;
+}
+
+function markRevoked(stored: StoredToken, reason: string): void {
+  if (stored.revokedAt) return;
+  stored.revokedAt = new Date().toISOString();
+  stored.revokedReason = reason;
+}
+
+/**
+ * Every token linked to tokenId by rotation - the ones it replaced and the
+ * ones that replaced it - including tokenId itself
+ */
+export function getTokenChain(tokenId: string): string[] {
+  const chain: string[] = [];
+  const pending = [tokenId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    const stored = tokens.get(id);
+    if (!stored || chain.includes(id)) continue;
+    chain.push(id);
+    if (stored.rotatedTo) pending.push(stored.rotatedTo);
+    if (stored.rotatedFrom) pending.push(stored.rotatedFrom);
+  }
+  return chain;
+}
+
+/**
+ * Revoke a token - it stays in the list with the revocation time
+ * Revocation covers the whole rotation chain: a pending replacement the
+ * extension may already hold, and a predecessor still valid because the
+ * replacement hasn't been used yet.
+ */
+export function revokeClientToken(tokenId: string, reason = 'Revoked'): boolean {
+  const stored = tokens.get(tokenId);
+  if (!stored || stored.revokedAt) return false;
+
+  for (const id of getTokenChain(tokenId)) {
+    markRevoked(tokens.get(id)!, id === tokenId ? reason : `${reason} (rotation of ${tokenId})`);
+  }
+  saveTokens();
+  return true;
+}
+
+/**
+ * List issued tokens, including expired and revoked ones (secrets are never returned)
+ */
+export function listClientTokens(): ClientTokenInfo[] {
+  return Array.from(tokens.values()).map(toInfo);
+}
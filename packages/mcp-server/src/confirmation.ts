@@ -0,0 +1,112 @@
+/**
+ * Confirmation - asks the analyst before a chat runs a risky tool call
+ *
+ * When the guardrails policy says a call needs approval (see
+ * toolRequiresConfirmation), the chat's tool loop pauses and the extension
+ * that sent the chat is asked over the bridge:
+ *   { type: 'confirm-action', tool, args, title, details, expiresAt }
+ * It shows the exact change with approve/reject buttons and answers
+ *   { approved: boolean, reason?: string }
+ * Anything else - no answer before expiresAt, a closed connection, an
+ * extension that doesn't know the message - counts as rejected.
+ */
+
+import { getWorkbookSummary } from './tableau-rest-api.js';
+import { getConfirmationTimeoutMs } from './guardrails.js';
+import type { WebSocketBridge } from './websocket-bridge.js';
+
+export interface ActionDescription {
+  /** One line, e.g. 'Exclude 2 values from "Region" on Sales Map' */
+  title: string;
+  /** What exactly changes, one item per line */
+  details: string[];
+}
+
+export interface ConfirmationResult {
+  approved: boolean;
+  reason?: string;
+}
+
+const quoteList = (values: unknown[]) => values.map(value => `"${value}"`).join(', ');
+
+/**
+ * Describe the change a tool call would make, in the analyst's terms
+ */
+export function describeToolAction(toolName: string, args: Record<string, any>): ActionDescription {
+  switch (toolName) {
+    case 'apply-filter': {
+      const values: unknown[] = Array.isArray(args.values) ? args.values : [];
+      const target = `"${args.field}" on ${args.worksheet}`;
+      const replaced = 'Replaces the current filter on this field';
+      if (args.action === 'clear') {
+        return { title: `Clear the filter on ${target}`, details: ['Removes every value currently selected or excluded on this field'] };
+      }
+      if (args.action === 'exclude') {
+        return { title: `Exclude ${values.length} value${values.length === 1 ? '' : 's'} from ${target}`, details: [`Hide: ${quoteList(values)}`, replaced] };
+      }
+      return { title: `Filter ${target} to ${values.length} value${values.length === 1 ? '' : 's'}`, details: [`Keep only: ${quoteList(values)}`, replaced] };
+    }
+
+    case 'set-parameter':
+      return { title: `Set parameter "${args.name}" to "${args.value}"`, details: ['Every sheet using this parameter will update'] };
+
+    case 'clear-canvas':
+      return { title: 'Clear the extension canvas', details: ['Removes every chart and component rendered in the extension'] };
+
+    case 'publish-workbook':
+    case 'rollback-workbook': {
+      const summary = getWorkbookSummary(args.workbookId);
+      const workbook = summary.loaded ? `"${summary.workbookName}"` : 'the workbook';
+      const details = [
+        ...(summary.projectName ? [`Project: ${summary.projectName}`] : []),
+        ...(args.server ? [`Server: ${args.server}${args.siteName ? ` (site ${args.siteName})` : ''}`] : []),
+        ...(args.reason ? [`Reason: ${args.reason}`] : []),
+      ];
+      if (toolName === 'rollback-workbook') {
+        return { title: `Republish version ${args.versionId} of ${workbook} over the current one`, details };
+      }
+      if (args.mode === 'overwrite') {
+        return { title: `Overwrite ${workbook} on the server`, details: [...details, 'The replaced version is kept and can be restored with rollback-workbook'] };
+      }
+      return { title: `Publish ${workbook} as ${args.newName ? `"${args.newName}"` : 'a new workbook'}`, details };
+    }
+
+    default:
+      return {
+        title: `Run ${toolName}`,
+        details: Object.entries(args).map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`),
+      };
+  }
+}
+
+/**
+ * Ask the extension behind the current chat to approve a tool call. Fails
+ * closed: errors and timeouts are rejections.
+ */
+export async function requestConfirmation(
+  bridge: WebSocketBridge,
+  toolName: string,
+  args: Record<string, any>
+): Promise<ConfirmationResult> {
+  const timeoutMs = getConfirmationTimeoutMs();
+  const description = describeToolAction(toolName, args);
+
+  try {
+    const response = await bridge.sendToExtension({
+      type: 'confirm-action',
+      tool: toolName,
+      args,
+      ...description,
+      expiresAt: new Date(Date.now() + timeoutMs).toISOString(),
+    }, undefined, timeoutMs);
+
+    if (response?.approved === true) return { approved: true };
+    return { approved: false, reason: response?.reason || response?.error };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      approved: false,
+      reason: /timed out/.test(message) ? `no answer within ${Math.round(timeoutMs / 1000)}s` : message,
+    };
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Conversation Memory - what the model remembers across a long chat
+ *
+ * Replaces the fixed "last 10 messages" window. Each conversation (keyed by
+ * the calling extension plus its conversationId - see conversationMemoryKey
+ * in llm-handler.ts) keeps:
+ * - recent turns, sent verbatim while they fit the token budget
+ * - a running digest: turns that fall out of the window are summarized into
+ *   it by the chat model (or clipped extractively if that fails)
+ * - pinned facts that are never dropped: chosen KPIs, active filters,
+ *   parameter values, the audience and anything the user asked to remember
+ *
+ * TOKEN BUDGET:
+ * Digest + pinned facts + recent turns are fitted to a per-model budget,
+ * estimated at ~4 characters per token. The default is 6000 tokens (2000 for
+ * local models). DASHAGENT_MEMORY_TOKENS changes the default and
+ * DASHAGENT_MEMORY_BUDGETS sets it per model, as JSON keyed by
+ * "provider:model", "model" or "provider:*":
+ *   {"openai:gpt-4o-mini": 4000, "local:*": 1500}
+ */
+
+import { LLMProvider, ModelConfig, ConversationMessage, TokenUsage } from './providers/index.js';
+
+export interface MemoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface PinnedFacts {
+  kpis: string[];
+  /** "Worksheet › Field" → applied values */
+  filters: Record<string, string>;
+  parameters: Record<string, string>;
+  audience?: string;
+  /** Things the user asked to remember */
+  notes: string[];
+}
+
+export interface MemorySnapshot {
+  turns: MemoryTurn[];
+  digest: string;
+  pinned: PinnedFacts;
+}
+
+/** Fold dropped turns into the digest, staying under maxTokens */
+export type Summarizer = (previousDigest: string, dropped: MemoryTurn[], maxTokens: number) => Promise<string>;
+
+const DEFAULT_BUDGET = 6000;
+const DEFAULT_LOCAL_BUDGET = 2000;
+const MAX_KPIS = 10;
+const MAX_NOTES = 10;
+const MAX_CONVERSATIONS = 200;
+const IDLE_EXPIRY_MS = 12 * 60 * 60 * 1000;
+
+// Tool arguments that name the metrics the user cares about
+const KPI_ARGS = ['focusMetrics', 'focusMeasures', 'measureField'];
+
+const AUDIENCE_PATTERN = /\b(?:for|audience(?: is)?|presenting to)\s+(?:the\s+|our\s+|my\s+)?(executives?|exec team|leadership|c-suite|board|cfo|ceo|vps?|managers?|analysts?|stakeholders?|clients?|customers?|investors?|sales team|marketing team|finance team|operations team)\b/i;
+const REMEMBER_PATTERN = /^(?:please\s+)?(?:remember|note|keep in mind)\s+(?:that\s+)?(.+)/i;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function clip(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxChars ? `${flat.slice(0, maxChars - 1)}…` : flat;
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return typeof value === 'string' && value ? [value] : [];
+}
+
+/**
+ * Token budget for a model's conversation memory (see TOKEN BUDGET)
+ */
+export function memoryBudgetFor(config: Pick<ModelConfig, 'provider' | 'model'>): number {
+  const fromEnv = parseInt(process.env.DASHAGENT_MEMORY_TOKENS || '', 10);
+  const fallback = fromEnv > 0 ? fromEnv : config.provider === 'local' ? DEFAULT_LOCAL_BUDGET : DEFAULT_BUDGET;
+
+  let budgets: Record<string, number> = {};
+  try {
+    budgets = JSON.parse(process.env.DASHAGENT_MEMORY_BUDGETS || '{}');
+  } catch {
+    console.error('[Memory] DASHAGENT_MEMORY_BUDGETS is not valid JSON - using defaults');
+  }
+  const budget = budgets[`${config.provider}:${config.model}`] ?? budgets[config.model] ?? budgets[`${config.provider}:*`];
+  return typeof budget === 'number' && budget > 0 ? budget : fallback;
+}
+
+/**
+ * Extractive digest: one clipped line per turn, oldest lines dropped first
+ */
+function extractiveDigest(previousDigest: string, dropped: MemoryTurn[], maxTokens: number): string {
+  const lines = [
+    ...(previousDigest ? previousDigest.split('\n') : []),
+    ...dropped.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${clip(turn.content, 200)}`),
+  ];
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > maxTokens) lines.shift();
+  return lines.join('\n').slice(-maxTokens * 4);
+}
+
+/**
+ * Summarizer that asks the chat model to update the digest
+ */
+export function createModelSummarizer(
+  provider: LLMProvider,
+  modelConfig: ModelConfig,
+  onUsage?: (usage: TokenUsage) => void
+): Summarizer {
+  return async (previousDigest, dropped, maxTokens) => {
+    const transcript = dropped
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${clip(turn.content, 2000)}`)
+      .join('\n\n');
+    const turn = await provider.chat({
+      model: modelConfig.model,
+      apiKey: modelConfig.apiKey,
+      system: 'You maintain a running summary of a Tableau analytics conversation. ' +
+        'Keep the metrics, filters, findings, decisions and open questions; drop pleasantries. ' +
+        `Reply with the updated summary only, in plain sentences, under ${Math.floor(maxTokens * 0.75)} words.`,
+      messages: [{
+        role: 'user',
+        content: `Summary so far:\n${previousDigest || '(none)'}\n\nNew turns to fold in:\n${transcript}`,
+      }],
+      tools: [],
+      maxTokens,
+    });
+    onUsage?.(turn.usage);
+    if (!turn.text.trim()) throw new Error('Empty summary');
+    return turn.text.trim();
+  };
+}
+
+export class ConversationMemory {
+  turns: MemoryTurn[] = [];
+  digest = '';
+  pinned: PinnedFacts = { kpis: [], filters: {}, parameters: {}, notes: [] };
+  lastUsed = Date.now();
+
+  constructor(snapshot?: MemorySnapshot) {
+    if (snapshot) {
+      this.turns = [...snapshot.turns];
+      this.digest = snapshot.digest;
+      this.pinned = structuredClone(snapshot.pinned);
+    }
+  }
+
+  snapshot(): MemorySnapshot {
+    return { turns: [...this.turns], digest: this.digest, pinned: structuredClone(this.pinned) };
+  }
+
+  addUserMessage(content: string): void {
+    this.turns.push({ role: 'user', content });
+
+    const audience = content.match(AUDIENCE_PATTERN)?.[1];
+    if (audience) this.pinned.audience = audience.toLowerCase();
+    const note = content.trim().match(REMEMBER_PATTERN)?.[1];
+    if (note) this.pinned.notes = [...this.pinned.notes, clip(note, 200)].slice(-MAX_NOTES);
+  }
+
+  addAssistantMessage(content: string): void {
+    this.turns.push({ role: 'assistant', content });
+  }
+
+  /**
+   * Pin facts from a successful tool call (filters, parameters, KPIs, audience)
+   */
+  noteToolCall(name: string, args: Record<string, any>): void {
+    if (name === 'apply-filter' && args.worksheet && args.field) {
+      const key = `${args.worksheet} › ${args.field}`;
+      const values = asList(args.values).join(', ');
+      if (args.action === 'clear') delete this.pinned.filters[key];
+      else this.pinned.filters[key] = args.action === 'exclude' ? `excluding ${values}` : values;
+    }
+    if (name === 'set-parameter' && args.name) {
+      this.pinned.parameters[args.name] = String(args.value);
+    }
+    for (const arg of KPI_ARGS) {
+      for (const kpi of asList(args[arg])) {
+        this.pinned.kpis = [...this.pinned.kpis.filter(k => k !== kpi), kpi].slice(-MAX_KPIS);
+      }
+    }
+    if (typeof args.audience === 'string' && args.audience) {
+      this.pinned.audience = args.audience;
+    }
+  }
+
+  /**
+   * Pinned facts and digest for the system prompt ('' when there are none)
+   */
+  formatForPrompt(): string {
+    const facts: string[] = [];
+    const { kpis, filters, parameters, audience, notes } = this.pinned;
+    if (kpis.length > 0) facts.push(`- KPIs: ${kpis.join(', ')}`);
+    const filterList = Object.entries(filters);
+    if (filterList.length > 0) facts.push(`- Active filters: ${filterList.map(([k, v]) => `${k} = ${v}`).join('; ')}`);
+    const parameterList = Object.entries(parameters);
+    if (parameterList.length > 0) facts.push(`- Parameters: ${parameterList.map(([k, v]) => `${k} = ${v}`).join('; ')}`);
+    if (audience) facts.push(`- Audience: ${audience}`);
+    for (const note of notes) facts.push(`- Noted: ${note}`);
+
+    if (facts.length === 0 && !this.digest) return '';
+    return [
+      '\n\nCONVERSATION MEMORY (context from earlier in this chat):',
+      ...(facts.length > 0 ? ['Pinned facts:', ...facts] : []),
+      ...(this.digest ? ['Summary of earlier turns:', this.digest] : []),
+    ].join('\n');
+  }
+
+  /**
+   * Fit memory to the budget: keep the newest turns that fit and fold the
+   * rest into the digest. Returns the turns to send as messages.
+   */
+  async compose(budget: number, summarize?: Summarizer): Promise<ConversationMessage[]> {
+    this.lastUsed = Date.now();
+    const digestBudget = Math.max(200, Math.floor(budget / 4));
+    const available = budget - estimateTokens(this.formatForPrompt());
+
+    // Newest first; the latest turn (the current message) is always kept
+    let keepFrom = this.turns.length;
+    let used = 0;
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      const cost = estimateTokens(this.turns[i].content) + 4;
+      if (i < this.turns.length - 1 && used + cost > available) break;
+      used += cost;
+      keepFrom = i;
+    }
+    // Providers expect the message list to start with a user turn
+    while (keepFrom < this.turns.length - 1 && this.turns[keepFrom].role !== 'user') keepFrom++;
+
+    const dropped = this.turns.slice(0, keepFrom);
+    if (dropped.length > 0) {
+      let digest: string | undefined;
+      if (summarize) {
+        try {
+          digest = await summarize(this.digest, dropped, digestBudget);
+        } catch (error) {
+          console.error('[Memory] Summarization failed - keeping an extractive digest:', error);
+        }
+      }
+      this.digest = digest
+        ? digest.slice(0, digestBudget * 4)
+        : extractiveDigest(this.digest, dropped, digestBudget);
+      this.turns = this.turns.slice(keepFrom);
+      console.error(`[Memory] Folded ${dropped.length} turns into the digest (${estimateTokens(this.digest)} tokens)`);
+    }
+
+    return this.turns.map(turn => ({ role: turn.role, content: turn.content }));
+  }
+}
+
+// ==================== CONVERSATION STORE ====================
+
+const conversations = new Map<string, ConversationMemory>();
+
+function evictStale(): void {
+  const now = Date.now();
+  for (const [id, memory] of conversations) {
+    if (now - memory.lastUsed > IDLE_EXPIRY_MS) conversations.delete(id);
+  }
+  // Oldest first (Map keeps insertion order; get() re-inserts on use)
+  while (conversations.size > MAX_CONVERSATIONS) {
+    conversations.delete(conversations.keys().next().value!);
+  }
+}
+
+/**
+ * Memory for a conversation, seeded from the client's history the first time
+ * (or after a restart). Without a key the memory is not kept.
+ */
+export function getConversationMemory(key: string | undefined, history: MemoryTurn[]): ConversationMemory {
+  const existing = key ? conversations.get(key) : undefined;
+  if (existing && key) {
+    conversations.delete(key);
+    conversations.set(key, existing);
+    return existing;
+  }
+
+  const memory = new ConversationMemory();
+  memory.turns = history.map(turn => ({ role: turn.role, content: turn.content }));
+  if (key) {
+    conversations.set(key, memory);
+    evictStale();
+  }
+  return memory;
+}
+
+export function getMemorySnapshot(key: string): MemorySnapshot | undefined {
+  return conversations.get(key)?.snapshot();
+}
+
+/**
+ * Replace a conversation's memory (record/replay restores it this way)
+ */
+export function restoreMemorySnapshot(key: string, snapshot: MemorySnapshot | undefined): void {
+  if (snapshot) conversations.set(key, new ConversationMemory(snapshot));
+  else conversations.delete(key);
+}
+
+export function clearConversationMemory(key: string): boolean {
+  return conversations.delete(key);
+}
@@ -1,63 +1,147 @@
 /**
- * Guardrails - Security layer for AI inputs and tool calls
+ * Guardrails - Security layer for AI inputs, outputs and tool calls
  * 
- * Implements three key protections:
+ * Implements four key protections:
  * 1. Input Sanitization - Block dangerous patterns
  * 2. Prompt Injection Defense - Detect manipulation attempts
- * 3. Tool Call Whitelisting - Validate tools against context
+ * 3. Output Filtering - Redact secrets and PII, limit echoed data, strip scripts from HTML
+ * 4. Tool Call Whitelisting - Validate tools against context
+ *
+ * POLICY FILE:
+ * The built-in rules below can be tuned per deployment with a JSON policy
+ * at DASHAGENT_GUARDRAILS_POLICY (default ~/.dashagent/guardrails-policy.json),
+ * loaded at startup and reloaded when it changes:
+ *   {
+ *     "rules": [
+ *       { "id": "bypass-safety", "action": "warn" },
+ *       { "id": "no-salaries", "pattern": "salar(y|ies)", "flag": "hr_data", "action": "block",
+ *         "message": "Salary data is not available here." }
+ *     ],
+ *     "tools": {
+ *       "deny": ["rollback-workbook"],
+ *       "requireConfirmation": { "apply-filter": "destructive", "set-parameter": "never" },
+ *       "confirmationTimeoutSeconds": 300,
+ *       "requirements": { "render-component": [] }
+ *     }
+ *   }
+ * Rules override built-in rules with the same id (set "disabled": true to
+ * drop one) or add new ones; "includeDefaultRules": false starts from none.
+ * Actions: block (refuse the message), warn (log and allow), log (flag only).
+ * tools.allow (if set) and tools.deny take tool names or "*" globs;
+ * requirements list context flags of which any one must hold ([] = none).
+ * requireConfirmation maps tools (or globs) to always, destructive (only
+ * calls that discard state, e.g. an exclude filter or an overwrite publish)
+ * or never, ahead of the defaults; a plain list means exactly those tools,
+ * always. Chats wait confirmationTimeoutSeconds for an answer (see
+ * confirmation.ts).
+ * "output" filters what the model says (see OUTPUT FILTERING):
+ *   "output": {
+ *     "rules": [
+ *       { "id": "email", "disabled": true },
+ *       { "id": "ssn", "pattern": "\\b\\d{3}-\\d{2}-\\d{4}\\b", "replacement": "[SSN redacted]" }
+ *     ],
+ *     "maxDataRows": 20
+ *   }
+ * Output rules override the built-in ones by id like input rules do;
+ * maxDataRows 0 turns the row limit off.
+ * An invalid policy is reported and the previous one stays in force.
  */
 
+import { readFileSync, watchFile } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// ==================== POLICY ====================
+
+export type GuardrailAction = 'block' | 'warn' | 'log';
+
+export interface GuardrailRule {
+  id: string;
+  pattern: RegExp;
+  /** Flag reported when the rule matches (injection rules use "injection:...") */
+  flag: string;
+  action: GuardrailAction;
+  /** Shown to the user when the rule blocks */
+  message?: string;
+}
+
+type ContextFlag = keyof ToolValidationContext;
+
+export type ConfirmationMode = 'always' | 'destructive' | 'never';
+
+interface GuardrailPolicy {
+  source: string;
+  rules: GuardrailRule[];
+  outputRules: OutputRule[];
+  maxDataRows: number;
+  allowTools?: string[];
+  denyTools: string[];
+  /** Tool name or glob -> mode; the first matching entry wins */
+  confirmTools: Array<[string, ConfirmationMode]>;
+  confirmationTimeoutMs: number;
+  requirements: Record<string, ContextFlag[]>;
+}
+
+const CONTEXT_FLAGS: ContextFlag[] = ['hasImage', 'hasDashboardContext', 'hasWorksheetData', 'connectionVerified'];
+const ACTIONS: GuardrailAction[] = ['block', 'warn', 'log'];
+const CONFIRMATION_MODES: ConfirmationMode[] = ['always', 'destructive', 'never'];
+
 // ==================== INPUT SANITIZATION ====================
 
 interface SanitizationResult {
   safe: boolean;
   sanitizedMessage: string;
   flags: string[];
+  matchedRules: Array<{ id: string; flag: string; action: GuardrailAction }>;
   blockedReason?: string;
+  blockedBy?: string;
 }
 
+const CREDENTIAL_MESSAGE = 'Request appears to be attempting to access credentials or secrets.';
+const MANIPULATION_MESSAGE = 'Request contains patterns associated with prompt manipulation.';
+
 // Patterns that indicate potentially dangerous requests
-const DANGEROUS_PATTERNS = [
+const DANGEROUS_PATTERNS: GuardrailRule[] = [
   // Code execution requests
-  { pattern: /exec(?:ute)?\s*(?:code|script|command|shell|bash|powershell)/i, flag: 'code_execution' },
-  { pattern: /run\s+(?:system|shell|terminal|cmd)/i, flag: 'code_execution' },
-  { pattern: /(?:import|require)\s+(?:os|subprocess|child_process)/i, flag: 'code_execution' },
+  { id: 'execute-code', pattern: /exec(?:ute)?\s*(?:code|script|command|shell|bash|powershell)/i, flag: 'code_execution', action: 'warn' },
+  { id: 'run-shell', pattern: /run\s+(?:system|shell|terminal|cmd)/i, flag: 'code_execution', action: 'warn' },
+  { id: 'import-os', pattern: /(?:import|require)\s+(?:os|subprocess|child_process)/i, flag: 'code_execution', action: 'warn' },
   
-  // Credential/secret exfiltration
-  { pattern: /(?:show|print|display|reveal|tell|give)\s*(?:me\s+)?(?:the\s+)?(?:api|secret|password|token|key|credential)/i, flag: 'credential_exfil' },
-  { pattern: /(?:what|where)\s+(?:is|are)\s+(?:the\s+)?(?:api|secret|password|token|key)/i, flag: 'credential_exfil' },
-  { pattern: /environment\s+variable|process\.env|getenv/i, flag: 'credential_exfil' },
+  // Credential/secret exfiltration - blocked outright
+  { id: 'reveal-secret', pattern: /(?:show|print|display|reveal|tell|give)\s*(?:me\s+)?(?:the\s+)?(?:api|secret|password|token|key|credential)/i, flag: 'credential_exfil', action: 'block', message: CREDENTIAL_MESSAGE },
+  { id: 'locate-secret', pattern: /(?:what|where)\s+(?:is|are)\s+(?:the\s+)?(?:api|secret|password|token|key)/i, flag: 'credential_exfil', action: 'block', message: CREDENTIAL_MESSAGE },
+  { id: 'environment-variables', pattern: /environment\s+variable|process\.env|getenv/i, flag: 'credential_exfil', action: 'block', message: CREDENTIAL_MESSAGE },
   
   // Log/file access
-  { pattern: /(?:read|access|show|cat|type)\s+(?:log|\.log|system)\s*file/i, flag: 'log_access' },
-  { pattern: /(?:access|read)\s+(?:server|system)\s+(?:file|config)/i, flag: 'file_access' },
+  { id: 'read-logs', pattern: /(?:read|access|show|cat|type)\s+(?:log|\.log|system)\s*file/i, flag: 'log_access', action: 'warn' },
+  { id: 'read-system-files', pattern: /(?:access|read)\s+(?:server|system)\s+(?:file|config)/i, flag: 'file_access', action: 'warn' },
   
   // Network probing
-  { pattern: /(?:scan|probe|enumerate)\s+(?:network|port|host)/i, flag: 'network_probe' },
+  { id: 'network-probe', pattern: /(?:scan|probe|enumerate)\s+(?:network|port|host)/i, flag: 'network_probe', action: 'warn' },
 ];
 
 // ==================== PROMPT INJECTION DEFENSE ====================
 
 // Patterns that indicate prompt injection attempts
-const INJECTION_PATTERNS = [
+const INJECTION_PATTERNS: GuardrailRule[] = [
   // Direct override attempts
-  { pattern: /ignore\s+(?:all\s+)?(?:previous|prior|above|earlier)\s+(?:instruction|rule|prompt|directive)/i, flag: 'ignore_instructions' },
-  { pattern: /forget\s+(?:everything|all|your)\s+(?:instruction|rule|training|prompt)/i, flag: 'forget_instructions' },
-  { pattern: /disregard\s+(?:all\s+)?(?:safety|security|guardrail|rule)/i, flag: 'disregard_safety' },
+  { id: 'ignore-instructions', pattern: /ignore\s+(?:all\s+)?(?:previous|prior|above|earlier)\s+(?:instruction|rule|prompt|directive)/i, flag: 'injection:ignore_instructions', action: 'warn' },
+  { id: 'forget-instructions', pattern: /forget\s+(?:everything|all|your)\s+(?:instruction|rule|training|prompt)/i, flag: 'injection:forget_instructions', action: 'warn' },
+  { id: 'disregard-safety', pattern: /disregard\s+(?:all\s+)?(?:safety|security|guardrail|rule)/i, flag: 'injection:disregard_safety', action: 'warn' },
   
   // Role manipulation
-  { pattern: /you\s+are\s+(?:now\s+)?(?:no\s+longer|not)\s+(?:a|an)\s+(?:ai|assistant|dashboard)/i, flag: 'role_hijack' },
-  { pattern: /pretend\s+(?:to\s+be|you\s+are)\s+(?:a\s+)?(?:different|new|hacker)/i, flag: 'role_hijack' },
-  { pattern: /act\s+as\s+(?:if\s+)?(?:you\s+)?(?:have\s+no|without)\s+(?:restriction|limit|rule)/i, flag: 'role_hijack' },
+  { id: 'not-an-assistant', pattern: /you\s+are\s+(?:now\s+)?(?:no\s+longer|not)\s+(?:a|an)\s+(?:ai|assistant|dashboard)/i, flag: 'injection:role_hijack', action: 'warn' },
+  { id: 'pretend-role', pattern: /pretend\s+(?:to\s+be|you\s+are)\s+(?:a\s+)?(?:different|new|hacker)/i, flag: 'injection:role_hijack', action: 'warn' },
+  { id: 'no-restrictions', pattern: /act\s+as\s+(?:if\s+)?(?:you\s+)?(?:have\s+no|without)\s+(?:restriction|limit|rule)/i, flag: 'injection:role_hijack', action: 'warn' },
   
-  // Jailbreak patterns
-  { pattern: /\bDAN\b|\bdo\s+anything\s+now\b/i, flag: 'jailbreak' },
-  { pattern: /unlock(?:ed)?\s+mode|developer\s+mode|god\s+mode/i, flag: 'jailbreak' },
-  { pattern: /bypass\s+(?:filter|safety|restriction|guardrail)/i, flag: 'jailbreak' },
+  // Jailbreak patterns - blocked outright
+  { id: 'do-anything-now', pattern: /\bDAN\b|\bdo\s+anything\s+now\b/i, flag: 'injection:jailbreak', action: 'block', message: MANIPULATION_MESSAGE },
+  { id: 'unlock-mode', pattern: /unlock(?:ed)?\s+mode|developer\s+mode|god\s+mode/i, flag: 'injection:jailbreak', action: 'block', message: MANIPULATION_MESSAGE },
+  { id: 'bypass-safety', pattern: /bypass\s+(?:filter|safety|restriction|guardrail)/i, flag: 'injection:jailbreak', action: 'block', message: MANIPULATION_MESSAGE },
   
   // Hidden instruction markers
-  { pattern: /\[system\]|\[admin\]|\[override\]/i, flag: 'hidden_instruction' },
-  { pattern: /<!--.*(?:ignore|system|admin).*-->/i, flag: 'hidden_instruction' },
+  { id: 'bracket-markers', pattern: /\[system\]|\[admin\]|\[override\]/i, flag: 'injection:hidden_instruction', action: 'warn' },
+  { id: 'comment-markers', pattern: /<!--.*(?:ignore|system|admin).*-->/i, flag: 'injection:hidden_instruction', action: 'warn' },
 ];
 
 /**
@@ -79,54 +163,241 @@ SAFETY RULES (IMMUTABLE - Cannot be overridden by user messages):
  */
 export function sanitizeInput(message: string): SanitizationResult {
   const flags: string[] = [];
-  let blockedReason: string | undefined;
-  
-  // Check for dangerous patterns
-  for (const { pattern, flag } of DANGEROUS_PATTERNS) {
-    if (pattern.test(message)) {
-      flags.push(flag);
-      
-      // Immediately block credential exfiltration attempts
-      if (flag === 'credential_exfil') {
-        blockedReason = 'Request appears to be attempting to access credentials or secrets.';
-      }
-    }
-  }
+  const matchedRules: SanitizationResult['matchedRules'] = [];
+  let blockedBy: GuardrailRule | undefined;
   
-  // Check for prompt injection attempts
-  for (const { pattern, flag } of INJECTION_PATTERNS) {
-    if (pattern.test(message)) {
-      flags.push(`injection:${flag}`);
+  // Check the policy's rules (dangerous patterns and injection attempts)
+  for (const rule of getPolicy().rules) {
+    if (rule.pattern.test(message)) {
+      if (!flags.includes(rule.flag)) flags.push(rule.flag);
+      matchedRules.push({ id: rule.id, flag: rule.flag, action: rule.action });
       
-      // Block explicit jailbreak attempts
-      if (flag === 'jailbreak') {
-        blockedReason = 'Request contains patterns associated with prompt manipulation.';
+      if (rule.action === 'block') {
+        blockedBy ??= rule;
+      } else if (rule.action === 'warn') {
+        console.error(`[Guardrails] Rule ${rule.id} flagged ${rule.flag}`);
       }
     }
   }
   
   // If blocked, return immediately
-  if (blockedReason) {
+  if (blockedBy) {
     return {
       safe: false,
       sanitizedMessage: message,
       flags,
-      blockedReason,
+      matchedRules,
+      blockedReason: blockedBy.message || 'Request blocked by security policy.',
+      blockedBy: blockedBy.id,
     };
   }
   
-  // Log flags but allow through with warning
-  if (flags.length > 0) {
-    console.error(`[Guardrails] Flagged patterns detected: ${flags.join(', ')}`);
-  }
-  
   return {
     safe: true,
     sanitizedMessage: message,
     flags,
+    matchedRules,
+  };
+}
+
+// ==================== OUTPUT FILTERING ====================
+
+export interface OutputRule {
+  id: string;
+  /** Global pattern; every match is replaced */
+  pattern: RegExp;
+  /** Replacement text ($1 etc. refer to capture groups) */
+  replacement: string;
+  /**
+   * secret: credentials, also redacted from tool results the model reads.
+   * pii: personal data, only redacted from chat replies - tool results keep
+   * it so counts and group-bys stay right (mask it in the extension instead).
+   */
+  kind: 'secret' | 'pii';
+}
+
+export interface OutputFilterResult {
+  text: string;
+  redactions: Array<{ id: string; count: number }>;
+  /** Table/CSV rows left out because they passed maxDataRows */
+  rowsWithheld: number;
+}
+
+const SECRET_REDACTION = '[secret redacted]';
+
+// What must never reach the analyst's chat: credentials and contact details
+const OUTPUT_RULES: OutputRule[] = [
+  { id: 'openai-key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g, replacement: SECRET_REDACTION, kind: 'secret' },
+  { id: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, replacement: SECRET_REDACTION, kind: 'secret' },
+  { id: 'github-token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, replacement: SECRET_REDACTION, kind: 'secret' },
+  { id: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g, replacement: SECRET_REDACTION, kind: 'secret' },
+  { id: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, replacement: SECRET_REDACTION, kind: 'secret' },
+  { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, replacement: SECRET_REDACTION, kind: 'secret' },
+  { id: 'secret-assignment', pattern: /\b((?:api[_-]?key|secret|password|passwd|access[_-]?token|auth[_-]?token)["']?\s*[:=]\s*["']?)[^\s"',;]{8,}/gi, replacement: `$1${SECRET_REDACTION}`, kind: 'secret' },
+  { id: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, replacement: '[email redacted]', kind: 'pii' },
+];
+
+const DEFAULT_MAX_DATA_ROWS = 50;
+
+/**
+ * Apply the policy's output rules to text. With secretsOnly, personal data
+ * rules are skipped (for tool results the model still has to analyze).
+ */
+export function redactOutput(text: string, options: { secretsOnly?: boolean } = {}): { text: string; redactions: OutputFilterResult['redactions'] } {
+  const redactions: OutputFilterResult['redactions'] = [];
+  let result = text;
+  for (const rule of getPolicy().outputRules) {
+    if (options.secretsOnly && rule.kind !== 'secret') continue;
+    let count = 0;
+    result = result.replace(rule.pattern, (...match) => {
+      count++;
+      return rule.replacement.replace(/\$(\d)/g, (_, group) => match[Number(group)] ?? '');
+    });
+    if (count > 0) redactions.push({ id: rule.id, count });
+  }
+  return { text: result, redactions };
+}
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|[\s:|-]+\|\s*$/;
+const FENCE = /^\s*```/;
+
+/**
+ * Keep at most maxRows data rows (plus a header) per markdown table or
+ * delimited code block, noting how many were left out
+ */
+function limitDataRows(text: string, maxRows: number): { text: string; rowsWithheld: number } {
+  if (maxRows <= 0) return { text, rowsWithheld: 0 };
+
+  const output: string[] = [];
+  let inFence = false;
+  let rows = 0;
+  let withheld = 0;
+  let totalWithheld = 0;
+  const endBlock = () => {
+    if (withheld > 0) output.push(inFence ? `… ${withheld} more rows not shown` : `_… ${withheld} more rows not shown_`);
+    totalWithheld += withheld;
+    rows = 0;
+    withheld = 0;
+  };
+
+  for (const line of text.split('\n')) {
+    if (FENCE.test(line)) {
+      endBlock();
+      inFence = !inFence;
+      output.push(line);
+      continue;
+    }
+    if (!inFence && TABLE_SEPARATOR.test(line)) {
+      output.push(line);
+      continue;
+    }
+    const isRow = inFence ? /[,\t|;]/.test(line) : TABLE_ROW.test(line);
+    if (!isRow) {
+      endBlock();
+      output.push(line);
+      continue;
+    }
+    // The first row is the header
+    if (++rows > maxRows + 1) withheld++;
+    else output.push(line);
+  }
+  endBlock();
+  return { text: output.join('\n'), rowsWithheld: totalWithheld };
+}
+
+/**
+ * Filter a chat reply before it reaches the analyst: redact secrets, emails
+ * and policy patterns, and cut data tables down to maxDataRows
+ */
+export function filterModelOutput(text: string): OutputFilterResult {
+  const redacted = redactOutput(text);
+  const limited = limitDataRows(redacted.text, getPolicy().maxDataRows);
+  return { text: limited.text, redactions: redacted.redactions, rowsWithheld: limited.rowsWithheld };
+}
+
+/**
+ * Redact streamed text as it arrives. Text is held back until a word ends,
+ * so a secret split across deltas is still caught; multi-word patterns and
+ * the row limit are applied to the final reply by filterModelOutput.
+ */
+export function createStreamRedactor(emit: (text: string) => void): { push(delta: string): void; flush(): void } {
+  let pending = '';
+  return {
+    push(delta) {
+      pending += delta;
+      const boundary = pending.search(/\s\S*$/);
+      if (boundary < 0) return;
+      emit(redactOutput(pending.slice(0, boundary + 1)).text);
+      pending = pending.slice(boundary + 1);
+    },
+    flush() {
+      if (pending) emit(redactOutput(pending).text);
+      pending = '';
+    },
   };
 }
 
+const BLOCKED_ELEMENTS = 'script|iframe|frame|frameset|object|embed|base|meta|link';
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'xlink:href']);
+const SCRIPT_URL = /^(?:javascript:|vbscript:|data:text\/html)/;
+// An opening tag, with quoted attribute values that may contain '>'
+const OPENING_TAG = /<[a-z](?:"[^"]*"|'[^']*'|[^"'>])*>/gi;
+// Browsers accept '/' as well as whitespace between attributes
+const ATTRIBUTE = /([\s/]+)([^\s/>="']+)(\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/g;
+const NAMED_ENTITIES: Record<string, string> = { colon: ':', tab: '\t', newline: '\n', sol: '/', lpar: '(', rpar: ')', amp: '&' };
+
+/** Attribute value as the browser sees it: unquoted, entity-decoded, without control characters */
+function attributeValue(assignment: string): string {
+  return assignment
+    .replace(/^\s*=\s*/, '')
+    .replace(/^(["'])([\s\S]*)\1$/, '$2')
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16) % 0x110000))
+    .replace(/&#(\d+);?/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10) % 0x110000))
+    .replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/[\u0000-\u0020\u007f]/g, '')
+    .toLowerCase();
+}
+
+function sanitizeTag(tag: string, removed: Set<string>): string {
+  const name = /^<[^\s/>]+/.exec(tag)![0];
+  return name + tag.slice(name.length).replace(ATTRIBUTE, (attribute, separator: string, attr: string, assignment: string | undefined) => {
+    const lower = attr.toLowerCase();
+    if (lower.startsWith('on') || lower === 'srcdoc') {
+      removed.add(lower.startsWith('on') ? 'event handlers' : lower);
+      return '';
+    }
+    if (assignment && URL_ATTRIBUTES.has(lower) && SCRIPT_URL.test(attributeValue(assignment))) {
+      removed.add('script URLs');
+      return `${separator}${attr}="#"`;
+    }
+    return attribute;
+  });
+}
+
+/**
+ * Best-effort pre-filter for HTML headed to the extension's preview
+ * container: drops script and frame elements, event-handler attributes and
+ * script URLs so the model gets told what won't work. It is pattern-based,
+ * not a parser - the extension's allow-list sanitizer is the boundary.
+ */
+export function sanitizeHtml(html: string): { html: string; removed: string[] } {
+  const removed = new Set<string>();
+  const result = html
+    // Elements with their content, then any stray opening/closing tags
+    .replace(new RegExp(`<(${BLOCKED_ELEMENTS})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, 'gi'), (_, tag: string) => {
+      removed.add(`<${tag.toLowerCase()}>`);
+      return '';
+    })
+    .replace(new RegExp(`<\\/?(${BLOCKED_ELEMENTS})\\b[^>]*>`, 'gi'), (_, tag: string) => {
+      removed.add(`<${tag.toLowerCase()}>`);
+      return '';
+    })
+    // Attributes, only inside tags so text like "onboarding=" is left alone
+    .replace(OPENING_TAG, tag => sanitizeTag(tag, removed));
+  return { html: result, removed: Array.from(removed) };
+}
+
 // ==================== TOOL CALL WHITELISTING ====================
 
 interface ToolValidationContext {
@@ -136,29 +407,320 @@ interface ToolValidationContext {
   connectionVerified: boolean;
 }
 
-// Tools that require specific context
-const TOOL_REQUIREMENTS: Record<string, (ctx: ToolValidationContext) => boolean> = {
+// Tools that require specific context: any one of the listed flags must hold
+const TOOL_REQUIREMENTS: Record<string, ContextFlag[]> = {
   // Vision tools require an image
-  'analyze-design': (ctx) => ctx.hasImage,
-  'analyze-iron-viz-style': (ctx) => ctx.hasImage,
-  'analyze-color-harmony': (ctx) => ctx.hasImage,
+  'analyze-design': ['hasImage'],
+  'analyze-iron-viz-style': ['hasImage'],
+  'analyze-color-harmony': ['hasImage'],
   
   // Dashboard building requires connection
-  'build-dashboard': (ctx) => ctx.connectionVerified || ctx.hasDashboardContext,
-  'render-visualization': (ctx) => ctx.connectionVerified,
-  'render-component': (ctx) => ctx.connectionVerified,
+  'build-dashboard': ['connectionVerified', 'hasDashboardContext'],
+  'render-visualization': ['connectionVerified'],
+  'render-component': ['connectionVerified'],
   
   // Data tools require dashboard context
-  'get-worksheet-data': (ctx) => ctx.connectionVerified,
-  'apply-filter': (ctx) => ctx.connectionVerified,
-  'set-parameter': (ctx) => ctx.connectionVerified,
+  'get-worksheet-data': ['connectionVerified'],
+  'apply-filter': ['connectionVerified'],
+  'set-parameter': ['connectionVerified'],
   
   // Workbook tools are always allowed (they fetch their own context)
-  'download-workbook': () => true,
-  'modify-workbook': () => true,
-  'publish-workbook': () => true,
+  'download-workbook': [],
+  'open-local-workbook': [],
+  'save-local-workbook': [],
+  'list-workbooks': [],
+  'modify-workbook': [],
+  'compare-workbooks': [],
+  'close-workbook': [],
+  'publish-workbook': [],
+  'list-workbook-versions': [],
+  'diff-workbook-versions': [],
+  'rollback-workbook': [],
+
+  // Token management checks its own caller (local MCP clients only)
+  'manage-extension-tokens': [],
+  'get-usage-report': [],
+  'get-audit-log': [],
+  'explain-tool-routing': [],
 };
 
+// Tools that change what stakeholders see or what's on the server
+const CONFIRM_TOOLS: Record<string, ConfirmationMode> = {
+  'apply-filter': 'always',
+  'set-parameter': 'always',
+  'clear-canvas': 'always',
+  'publish-workbook': 'destructive',
+  'rollback-workbook': 'destructive',
+};
+
+/**
+ * Whether a call discards state that can't be got back from the dashboard:
+ * filter excludes and clears, parameter changes, clearing the canvas and
+ * replacing a workbook on the server
+ */
+function isDestructiveCall(toolName: string, args: Record<string, any>): boolean {
+  switch (toolName) {
+    case 'apply-filter':
+      return args.action === 'exclude' || args.action === 'clear';
+    case 'publish-workbook':
+      return args.mode === 'overwrite' && args.dryRun !== true;
+    case 'rollback-workbook':
+      return args.dryRun !== true;
+    case 'set-parameter':
+    case 'clear-canvas':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// ==================== POLICY LOADING ====================
+
+const policyFile = () => process.env.DASHAGENT_GUARDRAILS_POLICY || join(homedir(), '.dashagent', 'guardrails-policy.json');
+
+const BUILT_IN_POLICY: GuardrailPolicy = {
+  source: 'built-in',
+  rules: [...DANGEROUS_PATTERNS, ...INJECTION_PATTERNS],
+  outputRules: OUTPUT_RULES,
+  maxDataRows: DEFAULT_MAX_DATA_ROWS,
+  denyTools: [],
+  confirmTools: Object.entries(CONFIRM_TOOLS),
+  confirmationTimeoutMs: 120_000,
+  requirements: TOOL_REQUIREMENTS,
+};
+
+let activePolicy: GuardrailPolicy | null = null;
+
+function stringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * tools.requireConfirmation: a list (those tools, always) or a map of modes
+ * checked before the built-in map - exact names first, then globs.
+ */
+function parseConfirmTools(value: unknown): Array<[string, ConfirmationMode]> {
+  if (Array.isArray(value)) {
+    return stringList(value, 'tools.requireConfirmation').map(tool => [tool, 'always']);
+  }
+  if (!value || typeof value !== 'object') {
+    throw new Error('tools.requireConfirmation must be a list of tools or a map of tool to mode');
+  }
+  const entries = Object.entries(value).map(([tool, mode]): [string, ConfirmationMode] => {
+    if (!CONFIRMATION_MODES.includes(mode as ConfirmationMode)) {
+      throw new Error(`tools.requireConfirmation.${tool} must be one of ${CONFIRMATION_MODES.join(', ')}`);
+    }
+    return [tool, mode as ConfirmationMode];
+  });
+  entries.sort(([a], [b]) => Number(a.includes('*')) - Number(b.includes('*')));
+  return [...entries, ...BUILT_IN_POLICY.confirmTools];
+}
+
+function parseConfirmationTimeout(value: unknown): number {
+  if (value === undefined) return BUILT_IN_POLICY.confirmationTimeoutMs;
+  if (typeof value !== 'number' || !(value > 0)) {
+    throw new Error('tools.confirmationTimeoutSeconds must be a positive number');
+  }
+  return value * 1000;
+}
+
+/**
+ * The "output" block: output rules by id over the built-in ones, and the row limit
+ */
+function parseOutputPolicy(json: any): Pick<GuardrailPolicy, 'outputRules' | 'maxDataRows'> {
+  if (json === undefined) return { outputRules: BUILT_IN_POLICY.outputRules, maxDataRows: BUILT_IN_POLICY.maxDataRows };
+  if (!json || typeof json !== 'object' || Array.isArray(json)) throw new Error('output must be an object');
+
+  const rules = new Map<string, OutputRule>();
+  if (json.includeDefaultRules !== false) {
+    for (const rule of BUILT_IN_POLICY.outputRules) rules.set(rule.id, rule);
+  }
+  for (const [index, entry] of (json.rules ?? []).entries()) {
+    const where = `output.rules[${index}]`;
+    if (!entry || typeof entry.id !== 'string') throw new Error(`${where} needs an id`);
+    if (entry.disabled) {
+      rules.delete(entry.id);
+      continue;
+    }
+    const base = rules.get(entry.id);
+    if (!base && typeof entry.pattern !== 'string') {
+      throw new Error(`${where} (${entry.id}) is a new rule and needs a pattern`);
+    }
+    let pattern = base?.pattern;
+    if (entry.pattern !== undefined) {
+      const flags = entry.patternFlags ?? 'i';
+      try {
+        pattern = new RegExp(entry.pattern, flags.includes('g') ? flags : `${flags}g`);
+      } catch (error) {
+        throw new Error(`${where} (${entry.id}) has an invalid pattern: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    const kind = entry.kind ?? base?.kind ?? 'pii';
+    if (kind !== 'secret' && kind !== 'pii') throw new Error(`${where} (${entry.id}) kind must be "secret" or "pii"`);
+    rules.set(entry.id, { id: entry.id, pattern: pattern!, replacement: entry.replacement ?? base?.replacement ?? '[redacted]', kind });
+  }
+
+  const maxDataRows = json.maxDataRows ?? BUILT_IN_POLICY.maxDataRows;
+  if (typeof maxDataRows !== 'number' || maxDataRows < 0) throw new Error('output.maxDataRows must be a number (0 = no limit)');
+  return { outputRules: Array.from(rules.values()), maxDataRows };
+}
+
+/**
+ * Validate a policy document and merge it over the built-in policy
+ */
+function parsePolicy(json: any, source: string): GuardrailPolicy {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('policy must be a JSON object');
+  }
+
+  const rules = new Map<string, GuardrailRule>();
+  if (json.includeDefaultRules !== false) {
+    for (const rule of BUILT_IN_POLICY.rules) rules.set(rule.id, rule);
+  }
+  for (const [index, entry] of (json.rules ?? []).entries()) {
+    const where = `rules[${index}]`;
+    if (!entry || typeof entry.id !== 'string') throw new Error(`${where} needs an id`);
+    if (entry.disabled) {
+      rules.delete(entry.id);
+      continue;
+    }
+    const base = rules.get(entry.id);
+    if (!base && (typeof entry.pattern !== 'string' || typeof entry.flag !== 'string')) {
+      throw new Error(`${where} (${entry.id}) is a new rule and needs a pattern and a flag`);
+    }
+    const action = entry.action ?? base?.action ?? 'warn';
+    if (!ACTIONS.includes(action)) throw new Error(`${where} (${entry.id}) has unknown action "${action}"`);
+    let pattern = base?.pattern;
+    if (entry.pattern !== undefined) {
+      try {
+        pattern = new RegExp(entry.pattern, entry.patternFlags ?? 'i');
+      } catch (error) {
+        throw new Error(`${where} (${entry.id}) has an invalid pattern: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    rules.set(entry.id, {
+      id: entry.id,
+      pattern: pattern!,
+      flag: entry.flag ?? base!.flag,
+      action,
+      message: entry.message ?? base?.message,
+    });
+  }
+
+  const tools = json.tools ?? {};
+  const requirements = { ...BUILT_IN_POLICY.requirements };
+  for (const [tool, flags] of Object.entries(tools.requirements ?? {})) {
+    const list = stringList(flags, `tools.requirements.${tool}`);
+    const unknown = list.filter(flag => !CONTEXT_FLAGS.includes(flag as ContextFlag));
+    if (unknown.length > 0) {
+      throw new Error(`tools.requirements.${tool} has unknown flags ${unknown.join(', ')} (use ${CONTEXT_FLAGS.join(', ')})`);
+    }
+    requirements[tool] = list as ContextFlag[];
+  }
+
+  return {
+    source,
+    rules: Array.from(rules.values()),
+    ...parseOutputPolicy(json.output),
+    allowTools: tools.allow !== undefined ? stringList(tools.allow, 'tools.allow') : undefined,
+    denyTools: tools.deny !== undefined ? stringList(tools.deny, 'tools.deny') : BUILT_IN_POLICY.denyTools,
+    confirmTools: tools.requireConfirmation !== undefined
+      ? parseConfirmTools(tools.requireConfirmation)
+      : BUILT_IN_POLICY.confirmTools,
+    confirmationTimeoutMs: parseConfirmationTimeout(tools.confirmationTimeoutSeconds),
+    requirements,
+  };
+}
+
+/**
+ * Load the policy file (the built-in policy when there is none). Returns an
+ * error message and keeps the current policy when the file is invalid.
+ */
+export function loadGuardrailPolicy(): { source: string; rules: number; error?: string } {
+  const file = policyFile();
+  let text = '';
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      const message = `Could not read ${file}: ${error instanceof Error ? error.message : error}`;
+      activePolicy ??= BUILT_IN_POLICY;
+      return { source: activePolicy.source, rules: activePolicy.rules.length, error: message };
+    }
+  }
+
+  try {
+    activePolicy = text.trim() ? parsePolicy(JSON.parse(text), file) : BUILT_IN_POLICY;
+    return { source: activePolicy.source, rules: activePolicy.rules.length };
+  } catch (error) {
+    activePolicy ??= BUILT_IN_POLICY;
+    const message = `Invalid guardrails policy ${file}: ${error instanceof Error ? error.message : error}`;
+    return { source: activePolicy.source, rules: activePolicy.rules.length, error: message };
+  }
+}
+
+/**
+ * Load the policy and reload it whenever the file changes
+ */
+export function watchGuardrailPolicy(): void {
+  const report = (verb: string) => {
+    const result = loadGuardrailPolicy();
+    if (result.error) {
+      console.error(`[Guardrails] ${result.error} - keeping the ${result.source} policy`);
+    } else {
+      console.error(`[Guardrails] ${verb} ${result.source} policy (${result.rules} rules)`);
+    }
+  };
+  report('Using');
+  watchFile(policyFile(), { interval: 2000 }, () => report('Reloaded'));
+}
+
+function getPolicy(): GuardrailPolicy {
+  if (!activePolicy) {
+    const result = loadGuardrailPolicy();
+    if (result.error) console.error(`[Guardrails] ${result.error} - using the ${result.source} policy`);
+  }
+  return activePolicy!;
+}
+
+function matchesTool(patterns: string[], toolName: string): boolean {
+  return patterns.some(pattern => pattern === toolName ||
+    (pattern.includes('*') && new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`).test(toolName)));
+}
+
+/**
+ * Whether the policy lets this tool run at all (tools.allow / tools.deny)
+ */
+export function checkToolPolicy(toolName: string): { allowed: boolean; reason?: string } {
+  const policy = getPolicy();
+  if (matchesTool(policy.denyTools, toolName)) {
+    return { allowed: false, reason: `Tool '${toolName}' is disabled by the guardrails policy.` };
+  }
+  if (policy.allowTools && !matchesTool(policy.allowTools, toolName)) {
+    return { allowed: false, reason: `Tool '${toolName}' is not in the guardrails policy's allowed tools.` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Whether the policy wants a person to approve this call before it runs
+ */
+export function toolRequiresConfirmation(toolName: string, args: Record<string, any> = {}): boolean {
+  const entry = getPolicy().confirmTools.find(([pattern]) => matchesTool([pattern], toolName));
+  if (!entry || entry[1] === 'never') return false;
+  return entry[1] === 'always' || isDestructiveCall(toolName, args);
+}
+
+/**
+ * How long a chat waits for someone to approve or reject a call
+ */
+export function getConfirmationTimeoutMs(): number {
+  return getPolicy().confirmationTimeoutMs;
+}
+
 /**
  * Validate if a tool call is appropriate for the current context
  */
@@ -166,15 +728,20 @@ export function validateToolCall(
   toolName: string, 
   context: ToolValidationContext
 ): { valid: boolean; reason?: string } {
-  const requirement = TOOL_REQUIREMENTS[toolName];
+  const toolPolicy = checkToolPolicy(toolName);
+  if (!toolPolicy.allowed) {
+    return { valid: false, reason: toolPolicy.reason };
+  }
+  
+  const requirement = getPolicy().requirements[toolName];
   
   // If no specific requirement, allow the tool
-  if (!requirement) {
+  if (!requirement || requirement.length === 0) {
     return { valid: true };
   }
   
   // Check if context satisfies requirements
-  if (!requirement(context)) {
+  if (!requirement.some(flag => context[flag])) {
     // Build helpful error message
     if (toolName.includes('analyze-') && !context.hasImage) {
       return { 
@@ -222,6 +789,10 @@ export interface GuardrailResult {
   message: string;
   sanitizedInput?: string;
   flags: string[];
+  /** Id of the rule that blocked the message */
+  rule?: string;
+  /** Every rule that matched, with its action */
+  matchedRules: Array<{ id: string; flag: string; action: GuardrailAction }>;
 }
 
 /**
@@ -239,11 +810,15 @@ export function checkGuardrails(
       allowed: false,
       message: sanitization.blockedReason || 'Request blocked by security policy.',
       flags: sanitization.flags,
+      rule: sanitization.blockedBy,
+      matchedRules: sanitization.matchedRules,
     };
   }
   
   // Step 2: Check for injection with warnings (but allow through)
-  const injectionFlags = sanitization.flags.filter(f => f.startsWith('injection:'));
+  const injectionFlags = sanitization.matchedRules
+    .filter(r => r.action === 'warn' && r.flag.startsWith('injection:'))
+    .map(r => r.flag);
   if (injectionFlags.length > 0) {
     console.error(`[Guardrails] Potential injection attempt detected: ${injectionFlags.join(', ')}`);
     // We log but allow through - the SAFETY_SYSTEM_PREFIX will handle it
@@ -254,5 +829,6 @@ export function checkGuardrails(
     message: 'OK',
     sanitizedInput: sanitization.sanitizedMessage,
     flags: sanitization.flags,
+    matchedRules: sanitization.matchedRules,
   };
 }
@@ -0,0 +1,542 @@
+/**
+ * Mock Extension - a headless Tableau dashboard extension for the bridge
+ *
+ * Connects to the MCP server's WebSocket like the real extension (register,
+ * or pair first with a pairing code) and answers bridge requests from a
+ * fixture dashboard instead of the Tableau Extensions API. Responses follow
+ * handleMCPRequest in the extension's app.ts: same message types, same
+ * response fields, same error strings.
+ *
+ * Fixture worksheets hold raw rows; filters applied through apply-filter
+ * narrow what later data requests return, and set-parameter changes the
+ * fixture's parameter values. Rendered output (dashboards, charts, HTML) is
+ * not drawn - it is kept in `renders` for inspection. confirm-action
+ * requests are answered by the confirm option (approve when unset), and
+ * publish-progress gets no answer, like in the extension.
+ *
+ * Run standalone against a running server with `npm run mock-extension`.
+ */
+
+import { WebSocket } from 'ws';
+
+export interface MockColumn {
+  fieldName: string;
+  dataType: 'string' | 'int' | 'float' | 'date' | 'bool';
+}
+
+export interface MockFilter {
+  fieldName: string;
+  /** 'include' keeps only these values, 'exclude' removes them */
+  mode: 'include' | 'exclude';
+  values: string[];
+}
+
+export interface MockWorksheet {
+  name: string;
+  columns: MockColumn[];
+  /** Rows as arrays in column order */
+  rows: any[][];
+  filters?: MockFilter[];
+}
+
+export interface MockParameter {
+  name: string;
+  dataType: string;
+  currentValue: any;
+  /** Allowed values for list parameters (any value is accepted when omitted) */
+  allowableValues?: any[];
+}
+
+export interface MockDashboard {
+  name: string;
+  worksheets: MockWorksheet[];
+  parameters?: MockParameter[];
+  dataSourceName?: string;
+  /** Screenshot returned by get-image (data URL) */
+  image?: string;
+}
+
+export interface MockExtensionOptions {
+  dashboard: MockDashboard;
+  /** Default ws://localhost:3001 */
+  url?: string;
+  /** Client or shared token; pair with pairingCode instead when unset */
+  authToken?: string;
+  pairingCode?: string;
+  extensionType?: 'dashboard' | 'viz';
+  /** Called when paired, with the token to reuse next time */
+  onPaired?: (token: string) => void;
+  /** Called with each bridge request as it arrives */
+  onRequest?: (message: any) => void;
+  /** Decides confirm-action requests (default: approve everything) */
+  confirm?: (request: { tool: string; args: any; title: string; details: string[] }) => boolean | { approved: boolean; reason?: string };
+}
+
+export interface MockRender {
+  type: string;
+  request: any;
+  html?: string;
+}
+
+export interface MockChatOptions {
+  modelConfig: { provider: string; model: string; apiKey?: string };
+  visionModelConfig?: { provider: string; model: string; apiKey?: string };
+  generationModelConfig?: { provider: string; model: string; apiKey?: string };
+  conversationHistory?: Array<{ role: string; content: string }>;
+  /** Reuse across chats so the server keeps conversation memory */
+  conversationId?: string;
+  systemPrompt?: string;
+  hasImage?: boolean;
+}
+
+const CONNECT_TIMEOUT_MS = 10000;
+const CHAT_TIMEOUT_MS = 180000;
+/** respond() result for messages the extension doesn't answer */
+const NO_RESPONSE = Symbol('no response');
+
+// Same measure test as confirm-chart-fields in the extension
+const isMeasure = (column: MockColumn) =>
+  /^(SUM|AVG|COUNT|CNTD|MIN|MAX|AGG|MEDIAN)\s*\(/i.test(column.fieldName) ||
+  ['int', 'float', 'number'].includes(column.dataType);
+
+const DEFAULT_PALETTE = ['#003366', '#0066CC', '#3399FF', '#66B2FF', '#99CCFF', '#336699', '#6699CC', '#99B2CC', '#CCE0FF', '#E6F0FF'];
+
+export class MockExtension {
+  readonly dashboard: MockDashboard;
+  /** Everything the server asked to render, in order */
+  readonly renders: MockRender[] = [];
+  /** Every request received, in order */
+  readonly requests: any[] = [];
+  token?: string;
+
+  private options: MockExtensionOptions;
+  private ws?: WebSocket;
+  private chatCounter = 0;
+  private pendingChats: Map<string, { resolve: (value: any) => void; reject: (error: Error) => void; timeout: ReturnType<typeof setTimeout> }> = new Map();
+
+  constructor(options: MockExtensionOptions) {
+    this.options = options;
+    // Fixtures are mutated by filters/parameters - keep the caller's copy intact
+    this.dashboard = structuredClone(options.dashboard);
+    this.token = options.authToken;
+  }
+
+  /**
+   * Connect, pair if needed and register. Resolves once the server has
+   * accepted the registration.
+   */
+  async connect(): Promise<void> {
+    const ws = new WebSocket(this.options.url || 'ws://localhost:3001');
+    this.ws = ws;
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => fail(new Error('Timed out registering with the MCP server')), CONNECT_TIMEOUT_MS);
+      const finish = () => {
+        clearTimeout(timeout);
+        ws.off('message', onSetupMessage);
+        resolve();
+      };
+      const fail = (error: Error) => {
+        clearTimeout(timeout);
+        ws.off('message', onSetupMessage);
+        reject(error);
+      };
+      const register = () => {
+        ws.send(JSON.stringify({
+          type: 'register',
+          authToken: this.token,
+          extensionType: this.options.extensionType || 'dashboard',
+          dashboardName: this.dashboard.name,
+        }));
+        // The bridge doesn't acknowledge registration; a tools-list reply means it was accepted
+        ws.send(JSON.stringify({ type: 'get-tools' }));
+      };
+
+      const onSetupMessage = (raw: any) => {
+        const message = JSON.parse(String(raw));
+        switch (message.type) {
+          case 'paired':
+            this.token = message.token;
+            this.options.onPaired?.(message.token);
+            register();
+            break;
+          case 'tools-list':
+            finish();
+            break;
+          case 'pair-error':
+          case 'auth-error':
+            fail(new Error(message.error || message.message || message.type));
+            break;
+          case 'auth-required':
+            fail(new Error(message.message || 'Authentication required'));
+            break;
+        }
+      };
+      ws.on('message', onSetupMessage);
+
+      if (!this.token && this.options.pairingCode) {
+        ws.send(JSON.stringify({ type: 'pair', pairingCode: this.options.pairingCode, dashboardName: this.dashboard.name }));
+      } else {
+        register();
+      }
+    });
+
+    ws.on('message', (raw) => this.handleMessage(JSON.parse(String(raw))));
+    ws.on('close', () => {
+      for (const pending of this.pendingChats.values()) {
+        clearTimeout(pending.timeout);
+        pending.reject(new Error('Connection to MCP server closed'));
+      }
+      this.pendingChats.clear();
+    });
+  }
+
+  close(): void {
+    this.ws?.close();
+  }
+
+  /**
+   * Send a chat the way the extension's chat panel does and wait for the reply
+   */
+  chat(message: string, options: MockChatOptions): Promise<any> {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Mock extension is not connected'));
+    }
+
+    const requestId = `mock_chat_${++this.chatCounter}`;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingChats.delete(requestId);
+        reject(new Error('Chat request timed out'));
+      }, CHAT_TIMEOUT_MS);
+      this.pendingChats.set(requestId, { resolve, reject, timeout });
+
+      ws.send(JSON.stringify({
+        type: 'chat',
+        requestId,
+        chatMessage: message,
+        conversationHistory: options.conversationHistory || [],
+        conversationId: options.conversationId,
+        modelConfig: options.modelConfig,
+        visionModelConfig: options.visionModelConfig,
+        generationModelConfig: options.generationModelConfig,
+        systemPrompt: options.systemPrompt || '',
+        hasImage: !!options.hasImage,
+      }));
+    });
+  }
+
+  private handleMessage(message: any): void {
+    if (message.type === 'chat-response') {
+      const pending = this.pendingChats.get(message.requestId);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingChats.delete(message.requestId);
+        if (message.success) pending.resolve(message);
+        else pending.reject(new Error(message.error || 'Chat failed'));
+      }
+      return;
+    }
+    if (['tools-list', 'chat-stream', 'token-rotated'].includes(message.type)) {
+      if (message.type === 'token-rotated') this.token = message.token;
+      return;
+    }
+
+    this.requests.push(message);
+    this.options.onRequest?.(message);
+
+    let response: any;
+    let error: string | undefined;
+    try {
+      response = this.respond(message);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    if (response === NO_RESPONSE) return;
+    this.ws?.send(JSON.stringify(error ? { type: 'response', requestId: message.requestId, error } : { type: 'response', requestId: message.requestId, data: response }));
+  }
+
+  // ==================== FIXTURE DATA ====================
+
+  private findWorksheet(name?: string): MockWorksheet | undefined {
+    return this.dashboard.worksheets.find(ws => ws.name === name);
+  }
+
+  private visibleRows(ws: MockWorksheet): any[][] {
+    let rows = ws.rows;
+    for (const filter of ws.filters || []) {
+      const index = ws.columns.findIndex(c => c.fieldName === filter.fieldName);
+      if (index < 0) continue;
+      rows = rows.filter(row => filter.values.includes(String(row[index])) === (filter.mode === 'include'));
+    }
+    return rows;
+  }
+
+  /** Same shape as extractWorksheetData in the extension */
+  private extractWorksheetData(ws: MockWorksheet): any {
+    const columns = ws.columns.map(c => c.fieldName);
+    const data = this.visibleRows(ws).map(row => {
+      const rowObj: any = {};
+      columns.forEach((col, i) => { rowObj[col] = row[i] === null || row[i] === undefined ? '' : String(row[i]); });
+      return rowObj;
+    });
+    return { worksheet: ws.name, data, columns, rowCount: data.length, dataSource: 'summary' };
+  }
+
+  /** Same lookup as getWorksheetData: the named worksheet, else the first with data */
+  private getWorksheetData(name?: string): any {
+    const target = this.findWorksheet(name);
+    if (target) return this.extractWorksheetData(target);
+
+    for (const ws of this.dashboard.worksheets) {
+      const result = this.extractWorksheetData(ws);
+      if (result.data.length > 0) return result;
+    }
+    return { error: 'No worksheet data available' };
+  }
+
+  private worksheetNotFound(name: string): any {
+    return { error: `Worksheet "${name}" not found`, available: this.dashboard.worksheets.map(w => w.name) };
+  }
+
+  // ==================== REQUESTS ====================
+
+  private respond(data: any): any {
+    switch (data.type) {
+      case 'get-worksheet-data':
+        return this.getWorksheetData(data.worksheet);
+
+      case 'extract-analysis-data': {
+        if (data.worksheet) {
+          return {
+            ...this.getWorksheetData(data.worksheet),
+            analysisGoal: data.analysisGoal,
+            focusMeasures: data.focusMeasures,
+            focusDimensions: data.focusDimensions,
+          };
+        }
+        const all = this.dashboard.worksheets.map(ws => this.extractWorksheetData(ws));
+        const withData = all.filter(ws => ws.data.length > 0);
+        return {
+          worksheets: withData,
+          worksheetNames: withData.map(ws => ws.worksheet),
+          worksheetAttempts: all.map(ws => ({ name: ws.worksheet, rowCount: ws.rowCount, dataSource: ws.dataSource, hasData: ws.data.length > 0 })),
+          analysisGoal: data.analysisGoal,
+          focusMeasures: data.focusMeasures,
+          focusDimensions: data.focusDimensions,
+          tip: withData.length > 1
+            ? `Found ${withData.length} worksheets with data. Use focusDimensions/focusMeasures to target specific fields, or specify a worksheet name.`
+            : undefined,
+        };
+      }
+
+      case 'profile-data':
+        return {
+          ...this.getWorksheetData(data.worksheet),
+          analysisGoal: data.analysisGoal,
+          focusMeasures: data.focusMeasures,
+          focusDimensions: data.focusDimensions,
+        };
+
+      case 'full-data-exploration':
+        return {
+          worksheets: this.dashboard.worksheets.map(ws => this.extractWorksheetData(ws)),
+          analysisDepth: data.analysisDepth,
+          focusAreas: data.focusAreas,
+        };
+
+      case 'confirm-chart-fields': {
+        const ws = this.findWorksheet(data.worksheet);
+        if (!ws) return this.worksheetNotFound(data.worksheet);
+        return {
+          dimensions: ws.columns.filter(c => !isMeasure(c)).map(c => c.fieldName),
+          measures: ws.columns.filter(isMeasure).map(c => c.fieldName),
+          worksheet: data.worksheet,
+        };
+      }
+
+      case 'confirm-action': {
+        // Same answers as the extension's approve/reject card
+        const decision = this.options.confirm ? this.options.confirm(data) : true;
+        if (typeof decision !== 'boolean') return decision;
+        return decision ? { approved: true } : { approved: false, reason: 'rejected by the analyst' };
+      }
+
+      case 'publish-progress':
+        // Fire-and-forget progress from publish-workbook - the extension never answers
+        return NO_RESPONSE;
+
+      // ==================== FILTERS & PARAMETERS ====================
+      case 'apply-filter': {
+        const ws = this.findWorksheet(data.worksheet);
+        if (!ws) return { error: 'Worksheet not found: ' + data.worksheet };
+        if (!ws.columns.some(c => c.fieldName === data.field)) {
+          return { error: `Invalid field name: ${data.field}` };
+        }
+        ws.filters = (ws.filters || []).filter(f => f.fieldName !== data.field);
+        if (data.action !== 'clear') {
+          ws.filters.push({
+            fieldName: data.field,
+            mode: data.action === 'exclude' ? 'exclude' : 'include',
+            values: (data.values || []).map(String),
+          });
+        }
+        return { success: true };
+      }
+
+      case 'set-parameter': {
+        const param = (this.dashboard.parameters || []).find(p => p.name === data.name);
+        if (!param) return { error: 'Parameter not found: ' + data.name };
+        if (param.allowableValues && !param.allowableValues.map(String).includes(String(data.value))) {
+          return { error: `Invalid value for parameter ${data.name}: ${data.value}` };
+        }
+        param.currentValue = data.value;
+        return { success: true };
+      }
+
+      // ==================== VISUALIZATION & RENDERING ====================
+      case 'render-visualization': {
+        const ws = this.findWorksheet(data.worksheet);
+        if (!ws) return this.worksheetNotFound(data.worksheet);
+        const chartId = `chart-${data.title?.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase() || 'untitled'}`;
+        if (data.append && this.renders.some(r => r.type === 'render-visualization' && r.request.chartId === chartId)) {
+          return { success: true, rendered: false, skipped: true, reason: 'duplicate' };
+        }
+        this.renders.push({ type: data.type, request: { ...data, chartId } });
+        return { success: true, rendered: true };
+      }
+
+      case 'build-dashboard': {
+        const named = this.findWorksheet(data.worksheet);
+        const worksheets = named ? [named] : this.dashboard.worksheets;
+        if (worksheets.length === 0) return { error: 'No worksheets available' };
+        this.renders.push({ type: data.type, request: data });
+        return { success: true, rendered: true };
+      }
+
+      case 'render':
+        this.renders.push({ type: data.type, request: data, html: data.html });
+        return { success: true };
+
+      case 'toggle-tooltips':
+        return { success: true, tooltipsEnabled: data.enabled };
+
+      // ==================== DESIGN ANALYSIS ====================
+      case 'get-image':
+        if (this.dashboard.image) {
+          return { image: this.dashboard.image, hasImage: true };
+        }
+        return {
+          image: null,
+          hasImage: false,
+          switchedToDesign: true,
+          message: 'Switched to Design tab. Please click "Capture Screen" or drop a screenshot.',
+        };
+
+      case 'transform-to-story': {
+        if (this.dashboard.worksheets.length === 0) {
+          return { error: 'No worksheets found in dashboard.', availableWorksheets: [] };
+        }
+        const headline = data.headline || data.title || 'Data Story';
+        this.renders.push({ type: data.type, request: data });
+        return { success: true, rendered: true, headline, keyTakeaway: data.keyTakeaway, insights: [] };
+      }
+
+      case 'analyze-iron-viz-style':
+      case 'suggest-annotations':
+        return { ...this.getWorksheetData(data.worksheet), image: this.dashboard.image, dashboardContext: undefined };
+
+      case 'analyze-color-harmony':
+        if (data.useVision && data.screenshotBase64) {
+          return { analysis: 'Mock color harmony analysis: the palette is consistent and accessible.', source: 'vision' };
+        }
+        if (data.colors && data.colors.length > 0) {
+          return { colors: data.colors, message: 'Color analysis with provided colors' };
+        }
+        return { error: 'No colors or screenshot provided for analysis' };
+
+      case 'generate-tableau-palette': {
+        const colorCount = data.colorCount || 10;
+        const colors = DEFAULT_PALETTE.slice(0, colorCount);
+        (data.brandColors || []).slice(0, colorCount).forEach((c: string, i: number) => { colors[i] = c; });
+        const paletteName = data.paletteName || `DashAgent ${data.theme || 'Corporate'} Palette`;
+        const paletteType = data.paletteType || 'categorical';
+        const tpsXml = `<?xml version='1.0'?>\n<workbook>\n  <preferences>\n    <color-palette name="${paletteName}" type="${paletteType}">\n${colors.map(c => `      <color>${c}</color>`).join('\n')}\n    </color-palette>\n  </preferences>\n</workbook>`;
+        this.renders.push({ type: data.type, request: data });
+        return { success: true, rendered: true, paletteName, paletteType, colors, tpsXml };
+      }
+
+      // ==================== DOCUMENTATION ====================
+      case 'generate-documentation':
+        return this.generateDocumentation(data.options || {});
+
+      default:
+        console.error(`[MockExtension] Unknown request type: ${data.type}`);
+        return this.getWorksheetData(data.worksheet);
+    }
+  }
+
+  /** Same shape as generateDashboardDocumentation in the extension */
+  private generateDocumentation(options: any): any {
+    const dataSourceName = this.dashboard.dataSourceName || 'Mock Data Source';
+    const parameters = options.includeParameters === false ? [] : (this.dashboard.parameters || []).map(p => ({
+      name: p.name,
+      dataType: p.dataType,
+      currentValue: p.currentValue,
+      allowableValuesType: p.allowableValues ? 'list' : 'all',
+    }));
+
+    const fields = new Map<string, MockColumn>();
+    const worksheets = this.dashboard.worksheets.map(ws => {
+      ws.columns.forEach(c => fields.set(c.fieldName, c));
+      const columns = ws.columns.map(c => ({
+        fieldName: c.fieldName,
+        dataType: c.dataType,
+        isReferenced: true,
+        role: isMeasure(c) ? 'measure' : 'dimension',
+      }));
+      return {
+        name: ws.name,
+        sheetType: 'worksheet',
+        size: null,
+        filters: options.includeWorksheets === false ? [] : (ws.filters || []).map(f => ({
+          fieldName: f.fieldName,
+          filterType: 'categorical',
+          appliedValues: f.values,
+        })),
+        dataSources: options.includeDataSources === false ? [] : [{ name: dataSourceName }],
+        columns,
+        markType: null,
+        inferredVizType: null,
+        dimensionCount: columns.filter(c => c.role === 'dimension').length,
+        measureCount: columns.filter(c => c.role === 'measure').length,
+      };
+    });
+
+    return {
+      dashboardName: this.dashboard.name,
+      generatedAt: new Date().toISOString(),
+      worksheets,
+      dataSources: options.includeDataSources === false ? [] : [{
+        name: dataSourceName,
+        isExtract: false,
+        fields: options.includeFields === false ? [] : Array.from(fields.values()).map(c => ({
+          name: c.fieldName,
+          dataType: c.dataType,
+          role: isMeasure(c) ? 'measure' : 'dimension',
+          isCalculatedField: false,
+          description: null,
+        })),
+        tables: [],
+        connectionInfo: null,
+      }],
+      parameters,
+      filters: worksheets.flatMap(ws => ws.filters.map(f => ({ worksheet: ws.name, fieldName: f.fieldName, filterType: f.filterType }))),
+    };
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Chat Record/Replay - regression fixtures for handleChat
+ *
+ * RECORDING:
+ * With DASHAGENT_RECORD_DIR set, every chat is captured to a JSON fixture in
+ * that directory: the request (API keys stripped), each model turn (tools
+ * offered, messages added since the previous turn, the provider's reply),
+ * vision calls, every sendToExtension round-trip and the final response.
+ *
+ * REPLAY:
+ * replayChatFixture() runs the same request through handleChat with the
+ * model and extension answered from the fixture, so tool routing, guardrails,
+ * tool handlers and output formatting all run for real with no network.
+ * Anything that changes what the model or extension would have been sent is
+ * reported as a mismatch. Run every fixture with `npm run replay`.
+ *
+ * Timestamps (ISO-8601 strings) are ignored when comparing.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { handleChat, conversationMemoryKey } from '../llm-handler.js';
+import { getMemorySnapshot, restoreMemorySnapshot, MemorySnapshot } from '../conversation-memory.js';
+import type { ChatRequest, ChatResponse } from '../llm-handler.js';
+import type { WebSocketBridge, ExtensionTrafficHook, ConnectedClientInfo } from '../websocket-bridge.js';
+import {
+  withProviderOverride,
+  LLMProvider,
+  ModelConfig,
+  ConversationMessage,
+  ChatTurnResult,
+  VisionResult,
+} from '../providers/index.js';
+
+export const FIXTURE_VERSION = 1;
+
+export type RecordedModelTurn =
+  | {
+      kind: 'chat';
+      provider: string;
+      model: string;
+      tools: string[];
+      /** Messages added since the previous turn of the same tool loop */
+      messages: ConversationMessage[];
+      result: ChatTurnResult;
+    }
+  | {
+      kind: 'vision';
+      provider: string;
+      model: string;
+      prompt: string;
+      result: VisionResult;
+    };
+
+export interface RecordedExtensionCall {
+  message: any;
+  noWait: boolean;
+  response?: any;
+  error?: string;
+}
+
+export interface ChatFixture {
+  version: number;
+  recordedAt: string;
+  request: Omit<ChatRequest, 'onEvent'>;
+  connection: { connected: boolean; clients: ConnectedClientInfo[] };
+  /** Conversation memory before the chat (when the request had a conversationId) */
+  memory?: MemorySnapshot;
+  modelTurns: RecordedModelTurn[];
+  extensionCalls: RecordedExtensionCall[];
+  response?: ChatResponse;
+  error?: string;
+}
+
+export interface ReplayReport {
+  passed: boolean;
+  mismatches: string[];
+  response?: ChatResponse;
+  error?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function withoutApiKey(config: ModelConfig | undefined): ModelConfig | undefined {
+  return config && { ...config, apiKey: '' };
+}
+
+/** JSON with timestamps blanked, so volatile fields don't fail a replay */
+function normalize(value: any): string {
+  return (JSON.stringify(value) ?? 'undefined')
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})/g, '<timestamp>');
+}
+
+/**
+ * Describe where two values first differ, or return null when they match
+ */
+function describeDifference(expected: any, actual: any): string | null {
+  const a = normalize(expected);
+  const b = normalize(actual);
+  if (a === b) return null;
+
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  const from = Math.max(0, i - 40);
+  return `expected …${a.slice(from, i + 40)}… but got …${b.slice(from, i + 40)}…`;
+}
+
+/**
+ * Returns the messages added since the last call with the same array. The
+ * tool loop grows one array across turns; other calls (e.g. conversation
+ * summaries) start their own.
+ */
+function newMessageTracker(): (messages: ConversationMessage[]) => ConversationMessage[] {
+  let last: ConversationMessage[] | null = null;
+  let count = 0;
+  return (messages) => {
+    const added = messages.slice(messages === last ? count : 0);
+    last = messages;
+    count = messages.length;
+    return added;
+  };
+}
+
+// ==================== RECORDING ====================
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'chat';
+}
+
+/**
+ * Run a chat while capturing model turns and extension traffic, then write
+ * the fixture to DASHAGENT_RECORD_DIR (also when the chat fails)
+ */
+export async function recordChat(
+  request: ChatRequest,
+  bridge: WebSocketBridge,
+  run: () => Promise<ChatResponse>
+): Promise<ChatResponse> {
+  const { onEvent, ...stored } = request;
+  const fixture: ChatFixture = {
+    version: FIXTURE_VERSION,
+    recordedAt: new Date().toISOString(),
+    request: {
+      ...stored,
+      modelConfig: withoutApiKey(stored.modelConfig)!,
+      visionModelConfig: withoutApiKey(stored.visionModelConfig),
+      generationModelConfig: withoutApiKey(stored.generationModelConfig),
+    },
+    connection: { connected: bridge.hasConnectedExtension(), clients: bridge.getConnectedClients() },
+    memory: request.conversationId ? getMemorySnapshot(conversationMemoryKey(bridge, request.conversationId)!) : undefined,
+    modelTurns: [],
+    extensionCalls: [],
+  };
+
+  const seen = newMessageTracker();
+  const recordProvider = (provider: LLMProvider): LLMProvider => ({
+    ...provider,
+    async chat(turnRequest) {
+      const result = await provider.chat(turnRequest);
+      fixture.modelTurns.push({
+        kind: 'chat',
+        provider: provider.id,
+        model: turnRequest.model,
+        tools: turnRequest.tools.map(t => t.name),
+        messages: seen(turnRequest.messages),
+        result,
+      });
+      return result;
+    },
+    vision: provider.vision && (async (visionRequest) => {
+      const result = await provider.vision!(visionRequest);
+      fixture.modelTurns.push({
+        kind: 'vision',
+        provider: provider.id,
+        model: visionRequest.model,
+        prompt: visionRequest.prompt,
+        result,
+      });
+      return result;
+    }),
+  });
+
+  const hook: ExtensionTrafficHook = {
+    observe(message, noWait, outcome) {
+      fixture.extensionCalls.push({ message, noWait, ...outcome });
+    },
+  };
+
+  try {
+    fixture.response = await bridge.runWithTrafficHook(hook, () => withProviderOverride(recordProvider, run));
+    return fixture.response;
+  } catch (error) {
+    fixture.error = errorMessage(error);
+    throw error;
+  } finally {
+    const dir = process.env.DASHAGENT_RECORD_DIR!;
+    const file = join(dir, `${fixture.recordedAt.replace(/[:.]/g, '-')}-${slugify(request.message)}.json`);
+    try {
+      await mkdir(dir, { recursive: true });
+      await writeFile(file, JSON.stringify(fixture, null, 2));
+      console.error(`[Record] Saved chat fixture ${file}`);
+    } catch (writeError) {
+      console.error(`[Record] Failed to save chat fixture ${file}:`, writeError);
+    }
+  }
+}
+
+// ==================== REPLAY ====================
+
+export async function loadChatFixture(path: string): Promise<ChatFixture> {
+  const fixture = JSON.parse(await readFile(path, 'utf8')) as ChatFixture;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${fixture.version} in ${path} (expected ${FIXTURE_VERSION})`);
+  }
+  return fixture;
+}
+
+/**
+ * Replay a fixture through handleChat and compare against the recording
+ */
+export async function replayChatFixture(fixture: ChatFixture, bridge: WebSocketBridge): Promise<ReplayReport> {
+  const mismatches: string[] = [];
+  let turnIndex = 0;
+  let callIndex = 0;
+  const seen = newMessageTracker();
+
+  const nextTurn = <K extends RecordedModelTurn['kind']>(kind: K): Extract<RecordedModelTurn, { kind: K }> => {
+    const turn = fixture.modelTurns[turnIndex++];
+    if (!turn || turn.kind !== kind) {
+      mismatches.push(`Model turn ${turnIndex}: expected ${turn ? `a ${turn.kind} call` : 'no more calls'} but got a ${kind} call`);
+      throw new Error(`Replay diverged from the recording at model turn ${turnIndex}`);
+    }
+    return turn as Extract<RecordedModelTurn, { kind: K }>;
+  };
+
+  const replayProvider = (provider: LLMProvider): LLMProvider => ({
+    id: provider.id,
+    label: provider.label,
+    requiresApiKey: false,
+    async chat(turnRequest) {
+      const turn = nextTurn('chat');
+      const tools = turnRequest.tools.map(t => t.name);
+      const toolsDiff = describeDifference(turn.tools, tools);
+      if (toolsDiff) mismatches.push(`Model turn ${turnIndex}: tools offered differ: ${toolsDiff}`);
+      const messagesDiff = describeDifference(turn.messages, seen(turnRequest.messages));
+      if (messagesDiff) mismatches.push(`Model turn ${turnIndex}: messages differ: ${messagesDiff}`);
+
+      if (turn.result.text && turnRequest.onTextDelta) turnRequest.onTextDelta(turn.result.text);
+      return turn.result;
+    },
+    async vision(visionRequest) {
+      const turn = nextTurn('vision');
+      const promptDiff = describeDifference(turn.prompt, visionRequest.prompt);
+      if (promptDiff) mismatches.push(`Model turn ${turnIndex}: vision prompt differs: ${promptDiff}`);
+      return turn.result;
+    },
+  });
+
+  const hook: ExtensionTrafficHook = {
+    connection: fixture.connection,
+    respond(message, noWait) {
+      const call = fixture.extensionCalls[callIndex++];
+      if (!call || call.message?.type !== message.type || call.noWait !== noWait) {
+        mismatches.push(`Extension call ${callIndex}: expected ${call ? call.message?.type : 'no more calls'} but got ${message.type}`);
+        return { error: `Replay has no recorded answer for ${message.type}` };
+      }
+      const diff = describeDifference(call.message, message);
+      if (diff) mismatches.push(`Extension call ${callIndex} (${message.type}): request differs: ${diff}`);
+      return call.error !== undefined ? { error: call.error } : { response: call.response };
+    },
+  };
+
+  const request: ChatRequest = { ...fixture.request };
+  if (request.conversationId) {
+    restoreMemorySnapshot(conversationMemoryKey(bridge, request.conversationId)!, fixture.memory);
+  }
+  let response: ChatResponse | undefined;
+  let error: string | undefined;
+  try {
+    response = await bridge.runWithTrafficHook(hook, () => withProviderOverride(replayProvider, () => handleChat(request, bridge)));
+  } catch (e) {
+    error = errorMessage(e);
+  }
+
+  if (turnIndex < fixture.modelTurns.length) {
+    mismatches.push(`Only ${turnIndex} of ${fixture.modelTurns.length} recorded model turns were used`);
+  }
+  if (callIndex < fixture.extensionCalls.length) {
+    mismatches.push(`Only ${callIndex} of ${fixture.extensionCalls.length} recorded extension calls were made`);
+  }
+  if (error !== fixture.error) {
+    mismatches.push(`Expected ${fixture.error ? `error "${fixture.error}"` : 'success'} but got ${error ? `error "${error}"` : 'success'}`);
+  } else {
+    const responseDiff = describeDifference(fixture.response, response);
+    if (responseDiff) mismatches.push(`Response differs: ${responseDiff}`);
+  }
+
+  return { passed: mismatches.length === 0, mismatches, response, error };
+}
@@ -0,0 +1,88 @@
+/**
+ * Replay recorded chat fixtures (see record-replay.ts) and report mismatches
+ *
+ * Usage: npm run replay -- [fixture files or directories]
+ * Defaults to fixtures/chat; a missing or empty directory replays nothing.
+ * Exits non-zero when any fixture fails or a given path doesn't exist.
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { devNull } from 'os';
+import { join } from 'path';
+import { WebSocketBridge } from '../websocket-bridge.js';
+import { enableMockProvider } from '../providers/index.js';
+import { loadChatFixture, replayChatFixture } from './record-replay.js';
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/chat';
+
+async function findFixtures(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    const info = await stat(path).catch((error: NodeJS.ErrnoException) => {
+      // A missing default directory just means nothing has been recorded yet
+      if (error.code === 'ENOENT' && path === DEFAULT_FIXTURE_DIR) return null;
+      throw new Error(error.code === 'ENOENT' ? `Fixture path not found: ${path}` : error.message);
+    });
+    if (!info) continue;
+    if (info.isDirectory()) {
+      const entries = (await readdir(path)).filter(name => name.endsWith('.json')).sort();
+      files.push(...entries.map(name => join(path, name)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+async function main(): Promise<number> {
+  // Replays must not record themselves, bill the usage ledger, hit today's
+  // budgets, add to the router or audit logs or depend on a local guardrails policy
+  delete process.env.DASHAGENT_RECORD_DIR;
+  delete process.env.DASHAGENT_DAILY_BUDGET_USD;
+  delete process.env.DASHAGENT_CALLER_DAILY_BUDGET_USD;
+  process.env.DASHAGENT_USAGE_FILE = devNull;
+  process.env.DASHAGENT_ROUTER_LOG = devNull;
+  process.env.DASHAGENT_AUDIT_LOG = devNull;
+  process.env.DASHAGENT_GUARDRAILS_POLICY = devNull;
+  // Fixtures recorded against mock: models replay through the same provider id
+  enableMockProvider();
+
+  const args = process.argv.slice(2);
+  const paths = args.length > 0 ? args : [DEFAULT_FIXTURE_DIR];
+  const files = await findFixtures(paths);
+  if (files.length === 0) {
+    console.log(`No chat fixtures found in ${paths.join(', ')}. Record some with DASHAGENT_RECORD_DIR (see README).`);
+    return 0;
+  }
+
+  // Port 0: the replay bridge never talks to a real extension
+  const bridge = new WebSocketBridge(0);
+  let failed = 0;
+
+  for (const file of files) {
+    try {
+      const report = await replayChatFixture(await loadChatFixture(file), bridge);
+      if (report.passed) {
+        console.log(`✅ ${file}`);
+      } else {
+        failed++;
+        console.log(`❌ ${file}`);
+        for (const mismatch of report.mismatches) console.log(`   - ${mismatch}`);
+      }
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} fixtures passed`);
+  return failed > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
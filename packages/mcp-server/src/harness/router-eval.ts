@@ -0,0 +1,127 @@
+/**
+ * Router Evaluation - scores tool-router against a labeled corpus
+ *
+ * CORPUS FORMAT (JSONL, one case per line):
+ *   {"message": "which reps underperformed last quarter?", "expected": ["analysis"]}
+ *   {"message": "what do you think of this design?", "hasImage": true, "expected": ["vision"]}
+ *
+ * expected is the set of ToolCategory the message's intent should route to.
+ * utility is added to every request, so list it only for messages that are
+ * about utility tools themselves. An optional note says what a case guards.
+ *
+ * The report has precision and recall per category, micro-averaged totals,
+ * exact-match accuracy and every case whose categories differ.
+ */
+
+import { readFile } from 'fs/promises';
+import { explainRouting, getRouterStats, ToolCategory } from '../tool-router.js';
+
+export interface RouterCase {
+  message: string;
+  hasImage?: boolean;
+  expected: ToolCategory[];
+  note?: string;
+}
+
+export interface CategoryScore {
+  category: ToolCategory;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface RouterEvalReport {
+  cases: number;
+  exactMatches: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  categories: CategoryScore[];
+  misses: Array<RouterCase & { routed: ToolCategory[] }>;
+}
+
+/**
+ * Load a JSONL corpus, rejecting unknown categories
+ */
+export async function loadRouterCorpus(path: string): Promise<RouterCase[]> {
+  const known = new Set(Object.keys(getRouterStats().categories));
+  const cases: RouterCase[] = [];
+  const lines = (await readFile(path, 'utf8')).split('\n');
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: RouterCase;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`${path}:${index + 1}: not valid JSON`);
+    }
+    if (typeof parsed.message !== 'string' || !Array.isArray(parsed.expected)) {
+      throw new Error(`${path}:${index + 1}: a case needs "message" and an "expected" array`);
+    }
+    const unknown = parsed.expected.filter(category => !known.has(category));
+    if (unknown.length > 0) {
+      throw new Error(`${path}:${index + 1}: unknown categories ${unknown.join(', ')}`);
+    }
+    cases.push(parsed);
+  });
+  return cases;
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 1 : Math.round((part / whole) * 1000) / 1000);
+
+/**
+ * Route every case and score the intent categories against the labels
+ */
+export function evaluateRouter(cases: RouterCase[]): RouterEvalReport {
+  const counts = new Map<ToolCategory, { tp: number; fp: number; fn: number }>();
+  const countsFor = (category: ToolCategory) => {
+    if (!counts.has(category)) counts.set(category, { tp: 0, fp: 0, fn: 0 });
+    return counts.get(category)!;
+  };
+  const misses: RouterEvalReport['misses'] = [];
+
+  for (const testCase of cases) {
+    const routed = explainRouting(testCase.message, !!testCase.hasImage).intentCategories;
+    const expected = new Set(testCase.expected);
+    for (const category of routed) {
+      if (expected.has(category)) countsFor(category).tp++;
+      else countsFor(category).fp++;
+    }
+    for (const category of expected) {
+      if (!routed.includes(category)) countsFor(category).fn++;
+    }
+    if (routed.length !== expected.size || routed.some(category => !expected.has(category))) {
+      misses.push({ ...testCase, routed });
+    }
+  }
+
+  let tp = 0, fp = 0, fn = 0;
+  const categories: CategoryScore[] = [];
+  for (const [category, c] of counts) {
+    tp += c.tp;
+    fp += c.fp;
+    fn += c.fn;
+    categories.push({
+      category,
+      truePositives: c.tp,
+      falsePositives: c.fp,
+      falseNegatives: c.fn,
+      precision: ratio(c.tp, c.tp + c.fp),
+      recall: ratio(c.tp, c.tp + c.fn),
+    });
+  }
+  categories.sort((a, b) => a.category.localeCompare(b.category));
+
+  return {
+    cases: cases.length,
+    exactMatches: cases.length - misses.length,
+    accuracy: ratio(cases.length - misses.length, cases.length),
+    precision: ratio(tp, tp + fp),
+    recall: ratio(tp, tp + fn),
+    categories,
+    misses,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Connect a mock extension (see mock-extension.ts) to a running MCP server
+ *
+ * Usage: npm run mock-extension -- [dashboard.json] [--pair CODE] [--url ws://host:port]
+ * Defaults to fixtures/dashboards/superstore.json on ws://localhost:3001.
+ * Authenticates with DASHAGENT_WS_TOKEN unless --pair is given.
+ */
+
+import { readFile } from 'fs/promises';
+import { MockExtension } from './mock-extension.js';
+
+function parseArgs(argv: string[]): { fixture: string; pairingCode?: string; url?: string } {
+  const result: { fixture: string; pairingCode?: string; url?: string } = { fixture: 'fixtures/dashboards/superstore.json' };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--pair') result.pairingCode = argv[++i];
+    else if (argv[i] === '--url') result.url = argv[++i];
+    else result.fixture = argv[i];
+  }
+  return result;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const dashboard = JSON.parse(await readFile(args.fixture, 'utf8'));
+
+  const extension = new MockExtension({
+    dashboard,
+    url: args.url,
+    authToken: args.pairingCode ? undefined : process.env.DASHAGENT_WS_TOKEN,
+    pairingCode: args.pairingCode,
+    onPaired: (token) => console.log(`🔑 Paired - reuse with DASHAGENT_WS_TOKEN=${token}`),
+    onRequest: (request) => console.log(`← ${request.type}${request.worksheet ? ` (${request.worksheet})` : ''}`),
+  });
+  await extension.connect();
+  console.log(`📊 Mock extension "${dashboard.name}" connected with ${dashboard.worksheets.length} worksheets. Ctrl+C to stop.`);
+
+  process.on('SIGINT', () => {
+    extension.close();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+/**
+ * Score tool-router against labeled corpora (see router-eval.ts)
+ *
+ * Usage: npm run router-eval -- [corpus.jsonl ...] [--min-precision 0.9] [--min-recall 0.9]
+ * Defaults to fixtures/router/corpus.jsonl. Exits non-zero when overall
+ * precision or recall is below the given minimum.
+ */
+
+import { devNull } from 'os';
+import { evaluateRouter, loadRouterCorpus, RouterCase } from './router-eval.js';
+
+function parseArgs(argv: string[]): { corpora: string[]; minPrecision?: number; minRecall?: number } {
+  const result: { corpora: string[]; minPrecision?: number; minRecall?: number } = { corpora: [] };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--min-precision') result.minPrecision = parseFloat(argv[++i]);
+    else if (argv[i] === '--min-recall') result.minRecall = parseFloat(argv[++i]);
+    else result.corpora.push(argv[i]);
+  }
+  if (result.corpora.length === 0) result.corpora.push('fixtures/router/corpus.jsonl');
+  return result;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+async function main(): Promise<number> {
+  // Evaluation routes messages but must not add them to the router log
+  process.env.DASHAGENT_ROUTER_LOG = devNull;
+
+  const args = parseArgs(process.argv.slice(2));
+  const cases: RouterCase[] = [];
+  for (const corpus of args.corpora) {
+    cases.push(...await loadRouterCorpus(corpus));
+  }
+  if (cases.length === 0) {
+    console.log('No router cases found.');
+    return 0;
+  }
+
+  const report = evaluateRouter(cases);
+
+  console.log('Category      Precision  Recall   TP  FP  FN');
+  for (const c of report.categories) {
+    console.log(`${c.category.padEnd(12)} ${percent(c.precision)}  ${percent(c.recall)} ${String(c.truePositives).padStart(4)}${String(c.falsePositives).padStart(4)}${String(c.falseNegatives).padStart(4)}`);
+  }
+  console.log(`${'overall'.padEnd(12)} ${percent(report.precision)}  ${percent(report.recall)}`);
+  console.log(`\n${report.exactMatches}/${report.cases} cases routed exactly (${percent(report.accuracy).trim()})`);
+
+  if (report.misses.length > 0) {
+    console.log('\nMisses:');
+    for (const miss of report.misses) {
+      console.log(`  "${miss.message}"${miss.hasImage ? ' [image]' : ''}`);
+      console.log(`     expected ${miss.expected.join(', ') || '-'}, routed ${miss.routed.join(', ') || '-'}${miss.note ? ` (${miss.note})` : ''}`);
+    }
+  }
+
+  const belowPrecision = args.minPrecision !== undefined && report.precision < args.minPrecision;
+  const belowRecall = args.minRecall !== undefined && report.recall < args.minRecall;
+  if (belowPrecision) console.log(`\n❌ Precision ${percent(report.precision).trim()} is below ${percent(args.minPrecision!).trim()}`);
+  if (belowRecall) console.log(`\n❌ Recall ${percent(report.recall).trim()} is below ${percent(args.minRecall!).trim()}`);
+  return belowPrecision || belowRecall ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,65 @@
+/**
+ * Check sanitizeHtml (guardrails.ts) against a corpus of known inputs
+ *
+ * CORPUS FORMAT (JSONL, one case per line):
+ *   {"html": "<img/onerror=alert(1) src=x>", "expected": "<img src=x>"}
+ *
+ * expected is the exact output; an optional note says what a case guards.
+ *
+ * Usage: npm run sanitize-check -- [corpus.jsonl ...]
+ * Defaults to fixtures/sanitize/cases.jsonl. Exits non-zero when any case
+ * differs.
+ */
+
+import { readFile } from 'fs/promises';
+import { sanitizeHtml } from '../guardrails.js';
+
+interface SanitizeCase {
+  html: string;
+  expected: string;
+  note?: string;
+}
+
+async function loadCases(path: string): Promise<SanitizeCase[]> {
+  const lines = (await readFile(path, 'utf-8')).split('\n');
+  const cases: SanitizeCase[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const parsed = JSON.parse(line) as SanitizeCase;
+    if (typeof parsed.html !== 'string' || typeof parsed.expected !== 'string') {
+      throw new Error(`${path}:${index + 1}: a case needs "html" and "expected" strings`);
+    }
+    cases.push(parsed);
+  });
+  return cases;
+}
+
+async function main(): Promise<number> {
+  const corpora = process.argv.slice(2);
+  if (corpora.length === 0) corpora.push('fixtures/sanitize/cases.jsonl');
+
+  let failures = 0;
+  let total = 0;
+  for (const corpus of corpora) {
+    for (const testCase of await loadCases(corpus)) {
+      total++;
+      const { html } = sanitizeHtml(testCase.html);
+      if (html === testCase.expected) continue;
+      failures++;
+      console.log(`❌ ${JSON.stringify(testCase.html)}${testCase.note ? ` (${testCase.note})` : ''}`);
+      console.log(`     expected ${JSON.stringify(testCase.expected)}`);
+      console.log(`     got      ${JSON.stringify(html)}`);
+    }
+  }
+
+  console.log(`\n${total - failures}/${total} sanitize cases passed`);
+  return failures > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+);
@@ -15,6 +15,7 @@ import {
 
 import { WebSocketBridge } from './websocket-bridge.js';
 import { tools, handleToolCall } from './tools/index.js';
+import { watchGuardrailPolicy } from './guardrails.js';
 
 // Create WebSocket bridge for Extension connections
 const wsBridge = new WebSocketBridge(3001);
@@ -32,17 +33,38 @@ const server = new Server(
   }
 );
 
+// Every tool accepts targetClientId so MCP clients can pick an extension
+// when several analysts are connected (ids come from check-connection)
+const TARGET_CLIENT_PROPERTY = {
+  type: 'string',
+  description: 'Optional: id of the extension to send this call to (from check-connection). Required when several extensions are connected.',
+};
+
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
+  return {
+    tools: tools.map(tool => ({
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, targetClientId: TARGET_CLIENT_PROPERTY },
+      },
+    })),
+  };
 });
 
 // Handle tool calls
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  const { name, arguments: rawArgs } = request.params;
+  const { targetClientId, ...args } = rawArgs || {};
   
   try {
-    const result = await handleToolCall(name, args || {}, wsBridge);
+    if (targetClientId !== undefined && !wsBridge.isConnectedClient(String(targetClientId))) {
+      throw new Error(`Extension ${targetClientId} is not connected. Use check-connection to list connected extensions.`);
+    }
+    const result = targetClientId !== undefined
+      ? await wsBridge.runForClient(String(targetClientId), () => handleToolCall(name, args, wsBridge))
+      : await handleToolCall(name, args, wsBridge);
     
     // Special handling for vision-based tools that return images
     const visionTools = ['analyze-design', 'analyze-worksheet-structure'];
@@ -106,6 +128,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 async function main() {
   console.error('🚀 DashAgentTool MCP Server starting...');
   console.error('📡 WebSocket bridge listening on ws://localhost:3001');
+  watchGuardrailPolicy();
   
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -0,0 +1,89 @@
+/**
+ * Intent Classifier - local TF-IDF text classifier
+ *
+ * Used by the tool router when its regex patterns are unsure. Each label is
+ * trained on a handful of documents (tool names, tool descriptions and
+ * example requests); a message is scored by cosine similarity between its
+ * TF-IDF vector and each document's. Runs in-process, needs no model or
+ * network, and gives the same answer for the same input.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'get', 'give', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'of', 'on', 'or', 'our', 'please', 'should', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'this', 'to', 'us', 'use', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Lowercase word stems, without stop words. The stemming is deliberately
+ * crude (common English suffixes) - it only has to agree with itself.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9]+/g) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => word
+      .replace(/(ing|ed|er|ers|ies|es|s|ly)$/, (suffix) => (suffix === 'ies' ? 'y' : ''))
+      .replace(/^(under|over|out)(?=[a-z]{4})/, ''))
+    .filter(word => word.length > 1);
+}
+
+export interface TfidfClassifier<L extends string> {
+  /** Labels by similarity, best first (labels with no overlap are left out) */
+  classify(text: string): Array<{ label: L; score: number }>;
+}
+
+/**
+ * Build a classifier from training documents per label. A label scores as its
+ * closest document, so one short example isn't drowned out by long tool
+ * descriptions under the same label.
+ */
+export function createTfidfClassifier<L extends string>(documents: Record<L, string[]>): TfidfClassifier<L> {
+  const countTerms = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) counts.set(term, (counts.get(term) || 0) + 1);
+    return counts;
+  };
+
+  const training = (Object.keys(documents) as L[]).flatMap(label =>
+    documents[label].map(text => ({ label, counts: countTerms(text) })));
+  const documentFrequency = new Map<string, number>();
+  for (const { counts } of training) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  // Smoothed IDF: terms every document uses still count a little
+  const idf = (term: string) => Math.log((training.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+  const vectorize = (counts: Map<string, number>): Map<string, number> => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+    for (const [term, count] of counts) {
+      if (!documentFrequency.has(term)) continue;
+      const weight = (1 + Math.log(count)) * idf(term);
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm) || 1;
+    for (const [term, weight] of vector) vector.set(term, weight / norm);
+    return vector;
+  };
+
+  const vectors = training.map(({ label, counts }) => ({ label, vector: vectorize(counts) }));
+
+  return {
+    classify(text) {
+      const query = vectorize(countTerms(text));
+      const best = new Map<L, number>();
+      for (const { label, vector } of vectors) {
+        let score = 0;
+        for (const [term, weight] of query) score += weight * (vector.get(term) || 0);
+        if (score > (best.get(label) || 0)) best.set(label, score);
+      }
+      return Array.from(best, ([label, score]) => ({ label, score })).sort((a, b) => b.score - a.score);
+    },
+  };
+}
@@ -1,27 +1,85 @@
 /**
  * LLM Handler - Centralized LLM calling logic for DashAgent MCP Server
- * 
+ *
  * This module handles all LLM interactions, ensuring a single source of truth
  * for tool definitions and execution. The extension's chat routes through here.
- * 
+ *
+ * PROVIDERS:
+ * The tool loop is provider-neutral. Each model turn goes through the
+ * LLMProvider registered for modelConfig.provider (see providers/), so
+ * OpenAI, Anthropic, a local OpenAI-compatible server or the scripted mock
+ * all share the same guardrails, tool validation and streaming.
+ *
  * TOKEN OPTIMIZATION:
  * Instead of sending all 37+ tools (50-100K tokens), we use the tool router
  * to send only relevant tools based on intent classification (5-15K tokens).
+ * If the router guessed wrong, the model can call request-tool-categories
+ * and the extra tools are offered from its next turn.
+ * History is fitted to a per-model token budget by conversation memory:
+ * recent turns verbatim, older ones summarized, key facts pinned
+ * (see conversation-memory.ts).
+ *
+ * STREAMING:
+ * When the request has an onEvent callback, provider calls use server-sent
+ * events and the tool loop reports progress as it happens: text deltas,
+ * tool-start/tool-end (with arguments and durations) and a final usage event.
+ *
+ * USAGE:
+ * Each reply's tokens, cost, tools and caller go to the usage ledger, and
+ * daily budgets can refuse a chat or move it to a cheaper model
+ * (see usage-ledger.ts).
+ *
+ * CONFIRMATION:
+ * Calls the guardrails policy marks for approval (filters, parameters,
+ * clearing the canvas, overwriting a workbook) wait for the analyst to
+ * approve them in the extension; a rejection ends the reply without running
+ * anything else (see confirmation.ts).
+ *
+ * AUDIT:
+ * Guardrail flags, blocked or rejected tool calls and (via handleToolCall)
+ * every tool run are written to the audit log with the message's hash
+ * (see audit-log.ts).
+ *
+ * RECORDING:
+ * With DASHAGENT_RECORD_DIR set, each chat is saved as a replayable fixture
+ * (see harness/record-replay.ts).
  */
 
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { handleToolCall, setCachedApiKeys } from './tools/index.js';
 import { WebSocketBridge } from './websocket-bridge.js';
-import { 
-  getOpenAIToolsForRequest, 
-  getAnthropicToolsForRequest,
-  getRouterStats 
+import {
+  getToolsForRequest,
+  getRouterStats,
+  expandToolsForRequest,
+  TOOL_DISCOVERY_TOOL
 } from './tool-router.js';
 import {
   checkGuardrails,
   validateToolCall,
+  toolRequiresConfirmation,
   buildValidationContext,
+  filterModelOutput,
+  redactOutput,
+  createStreamRedactor,
   SAFETY_SYSTEM_PREFIX
 } from './guardrails.js';
+import { requestConfirmation, describeToolAction } from './confirmation.js';
+import {
+  requireProvider,
+  withChatScope,
+  ModelConfig,
+  ConversationMessage,
+  LLMProvider,
+} from './providers/index.js';
+import {
+  getConversationMemory,
+  createModelSummarizer,
+  memoryBudgetFor,
+} from './conversation-memory.js';
+import { checkBudget, recordUsage, callerKey } from './usage-ledger.js';
+import { withAuditContext, recordAudit, noteGuardrailFlags, hashMessage } from './audit-log.js';
+import { recordChat } from './harness/record-replay.js';
 
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
@@ -29,21 +87,17 @@ interface ChatMessage {
   tool_call_id?: string;
 }
 
-interface ModelConfig {
-  provider: 'openai' | 'anthropic';
-  model: string;
-  apiKey: string;
-}
-
-interface ChatRequest {
+export interface ChatRequest {
   message: string;
   conversationHistory: ChatMessage[];
+  conversationId?: string;  // Keeps memory across chats (see conversation-memory.ts)
   modelConfig: ModelConfig;
   visionModelConfig?: ModelConfig;  // User-selected vision model for analyze-design etc.
   generationModelConfig?: ModelConfig;  // User-selected model for fallback HTML generation
   systemPrompt: string;
   dashboardContext?: any;
   hasImage?: boolean;  // New: indicates if request includes an image
+  onEvent?: (event: ChatStreamEvent) => void;  // Set to stream progress (see STREAMING)
 }
 
 /**
@@ -61,24 +115,96 @@ export interface ChatResponse {
 }
 
 /**
- * Call OpenAI with tools - uses tool router for efficiency
+ * Progress event streamed while a chat is being answered
+ */
+export type ChatStreamEvent =
+  | { type: 'text-delta'; delta: string }
+  | { type: 'tool-start'; toolCallId: string; tool: string; args: any }
+  | { type: 'tool-end'; toolCallId: string; tool: string; durationMs: number; success: boolean; error?: string }
+  | { type: 'usage'; modelUsed: string; tokensUsed: ChatResponse['tokensUsed']; toolsCalled?: string[] };
+
+const MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Key for a conversation's memory: the calling extension plus its
+ * conversationId, so one extension can't read another's memory by sending
+ * its id. Undefined when the chat keeps no memory.
+ */
+export function conversationMemoryKey(bridge: WebSocketBridge, conversationId: string | undefined): string | undefined {
+  if (!conversationId) return undefined;
+  return `${callerKey(bridge.getRequestClient() ?? {})}\u0000${conversationId}`;
+}
+// Credential arguments the model is never offered (the handler ignores them from chat too)
+const SECRET_TOOL_ARGS = ['patSecret'];
+
+function withoutSecretArgs(tool: Tool): Tool {
+  const properties = tool.inputSchema.properties;
+  if (!properties || !SECRET_TOOL_ARGS.some(name => name in properties)) return tool;
+  const visible = Object.fromEntries(Object.entries(properties).filter(([name]) => !SECRET_TOOL_ARGS.includes(name)));
+  return { ...tool, inputSchema: { ...tool.inputSchema, properties: visible } };
+}
+
+/**
+ * Execute a tool for the LLM, reporting tool-start/tool-end when streaming.
+ * Tool errors are returned as an error string for the model to handle.
  */
-async function callOpenAI(
+async function runTool(
+  toolName: string,
+  toolCallId: string,
+  toolArgs: any,
+  bridge: WebSocketBridge,
+  onEvent?: (event: ChatStreamEvent) => void
+): Promise<any> {
+  onEvent?.({ type: 'tool-start', toolCallId, tool: toolName, args: toolArgs });
+  const startedAt = Date.now();
+
+  let toolResult: any;
+  let error: string | undefined;
+  try {
+    toolResult = await handleToolCall(toolName, toolArgs, bridge);
+    if (toolResult && typeof toolResult === 'object' && toolResult.success === false) {
+      error = toolResult.error;
+    }
+  } catch (e) {
+    console.error(`[LLM Handler] Tool error:`, e);
+    error = e instanceof Error ? e.message : 'Unknown error';
+    toolResult = `Error: ${error}`;
+  }
+
+  onEvent?.({ type: 'tool-end', toolCallId, tool: toolName, durationMs: Date.now() - startedAt, success: !error, ...(error ? { error } : {}) });
+  return toolResult;
+}
+
+/**
+ * Run the chat tool loop with a provider - uses tool router for efficiency
+ */
+async function runChatLoop(
+  provider: LLMProvider,
   request: ChatRequest,
   bridge: WebSocketBridge
 ): Promise<ChatResponse> {
-  const { message, conversationHistory, modelConfig, systemPrompt, hasImage, dashboardContext } = request;
-  
+  const { message, conversationHistory, conversationId, modelConfig, systemPrompt, hasImage, dashboardContext, onEvent } = request;
+
   // Track token usage and tools called
   let totalPromptTokens = 0;
   let totalCompletionTokens = 0;
   const toolsCalled: string[] = [];
   let visionModelUsed: string | null = null;  // Track if vision model was used by a tool
-  
+
   // Guardrail check on user input
   const guardrailResult = checkGuardrails(message);
+  const client = bridge.getRequestClient();
+  noteGuardrailFlags(guardrailResult.flags);
+  if (!guardrailResult.allowed || guardrailResult.flags.length > 0) {
+    await recordAudit({
+      event: 'guardrail',
+      status: guardrailResult.allowed ? 'flagged' : 'blocked',
+      args: { rule: guardrailResult.rule, matchedRules: guardrailResult.matchedRules },
+      ...client,
+    });
+  }
   if (!guardrailResult.allowed) {
-    console.error(`[Guardrails] Blocked request: ${guardrailResult.message}`);
+    console.error(`[Guardrails] Blocked request (rule ${guardrailResult.rule}): ${guardrailResult.message}`);
     return {
       content: `I can't help with that request. ${guardrailResult.message}`,
       modelUsed: `${modelConfig.provider}:${modelConfig.model}`,
@@ -88,70 +214,88 @@ async function callOpenAI(
   if (guardrailResult.flags.length > 0) {
     console.error(`[Guardrails] Flags: ${guardrailResult.flags.join(', ')}`);
   }
-  
+
   // Use sanitized message for all downstream processing
   const safeMessage = guardrailResult.sanitizedInput ?? message;
-  
-  // Build validation context for tool whitelisting
-  const validationContext = buildValidationContext({
-    hasImage,
-    dashboardContext,
-    connectionStatus: bridge.hasConnectedExtension(),
-  });
-  
-  const messages: any[] = [
-    { role: 'system', content: SAFETY_SYSTEM_PREFIX + systemPrompt },
-    ...conversationHistory.slice(-10), // Reduced from 20 to 10 for token savings
-  ];
-
-  // Add current message if not already in history
-  if (conversationHistory[conversationHistory.length - 1]?.content !== message) {
-    messages.push({ role: 'user', content: safeMessage });
+
+  // Only user/assistant turns are remembered; tool traffic from earlier chats isn't kept.
+  // The client's history seeds the memory the first time a conversation is seen.
+  const history = conversationHistory
+    .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+    .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content }));
+  if (history[history.length - 1]?.content === message) {
+    history.pop();  // The current message is added (sanitized) below
   }
+  const memory = getConversationMemory(conversationMemoryKey(bridge, conversationId), history);
+  memory.addUserMessage(safeMessage);
+
+  // Older turns are summarized by the chat model only for kept conversations
+  const summarize = conversationId
+    ? createModelSummarizer(provider, modelConfig, usage => {
+        totalPromptTokens += usage.prompt;
+        totalCompletionTokens += usage.completion;
+      })
+    : undefined;
+  const messages: ConversationMessage[] = await memory.compose(memoryBudgetFor(modelConfig), summarize);
+  const system = SAFETY_SYSTEM_PREFIX + systemPrompt + memory.formatForPrompt();
 
   // Use tool router - only get relevant tools based on intent
-  const openaiTools = getOpenAIToolsForRequest(safeMessage, !!hasImage);
-  const toolNames = openaiTools.map((t: any) => t.function?.name).filter(Boolean);
+  let tools = getToolsForRequest(safeMessage, !!hasImage);
   console.error(`[LLM Handler] hasImage=${!!hasImage}, message="${safeMessage.substring(0, 50)}..."`);
-  console.error(`[LLM Handler] Sending ${openaiTools.length} tools: ${toolNames.join(', ')}`);
-  
-  let response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${modelConfig.apiKey}`,
-    },
-    body: JSON.stringify({
+  console.error(`[LLM Handler] Sending ${tools.length} tools to ${provider.label}: ${tools.map(t => t.name).join(', ')}`);
+
+  // Streamed text is redacted as it arrives; the final reply is filtered again below
+  const streamRedactor = onEvent ? createStreamRedactor(delta => onEvent({ type: 'text-delta', delta })) : undefined;
+  const nextTurn = async () => {
+    const result = await provider.chat({
       model: modelConfig.model,
+      apiKey: modelConfig.apiKey,
+      system,
       messages,
-      tools: openaiTools,
-      tool_choice: 'auto',
-      max_completion_tokens: 4096,
-    }),
-  });
+      tools: tools.map(withoutSecretArgs),
+      maxTokens: MAX_OUTPUT_TOKENS,
+      onTextDelta: streamRedactor ? delta => streamRedactor.push(delta) : undefined,
+    });
+    streamRedactor?.flush();
+    return result;
+  };
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API request failed');
-  }
+  let turn = await nextTurn();
+  totalPromptTokens += turn.usage.prompt;
+  totalCompletionTokens += turn.usage.completion;
 
-  let data = await response.json();
-  let assistantMessage = data.choices[0].message;
-  
-  // Track token usage from first response
-  if (data.usage) {
-    totalPromptTokens += data.usage.prompt_tokens || 0;
-    totalCompletionTokens += data.usage.completion_tokens || 0;
-  }
+  // Set when the analyst rejects a call - the rest of the plan is abandoned
+  let stoppedMessage: string | undefined;
 
   // Handle tool calls in a loop
-  while (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-    messages.push(assistantMessage);
+  while (turn.toolCalls.length > 0) {
+    messages.push({ role: 'assistant', content: turn.text, toolCalls: turn.toolCalls });
+
+    for (const toolCall of turn.toolCalls) {
+      const toolName = toolCall.name;
+
+      // The model asked for tools the router didn't offer - add them for the next turn
+      if (toolName === TOOL_DISCOVERY_TOOL.name) {
+        const requested = Array.isArray(toolCall.args?.categories) ? toolCall.args.categories : [];
+        const expansion = expandToolsForRequest(tools, requested, { message: safeMessage, hasImage: !!hasImage, reason: toolCall.args?.reason });
+        tools = expansion.tools;
+        messages.push({
+          role: 'tool',
+          toolCallId: toolCall.id,
+          name: toolName,
+          content: JSON.stringify({
+            success: expansion.addedTools.length > 0,
+            addedCategories: expansion.addedCategories,
+            addedTools: expansion.addedTools,
+            ...(expansion.unknownCategories.length > 0 ? { unknownCategories: expansion.unknownCategories } : {}),
+            message: expansion.addedTools.length > 0
+              ? 'These tools are available now.'
+              : 'No new tools - you already have every tool in those categories.',
+          }),
+        });
+        continue;
+      }
 
-    for (const toolCall of assistantMessage.tool_calls) {
-      const toolName = toolCall.function.name;
-      const toolArgs = JSON.parse(toolCall.function.arguments);
-      
       // Track tools called
       toolsCalled.push(toolName);
 
@@ -168,20 +312,32 @@ async function callOpenAI(
       const toolValidation = validateToolCall(toolName, currentValidationContext);
       if (!toolValidation.valid) {
         console.error(`[Guardrails] Tool blocked: ${toolValidation.reason}`);
+        await recordAudit({ event: 'tool-call', tool: toolName, args: toolCall.args, status: 'blocked', error: toolValidation.reason, ...client });
         messages.push({
           role: 'tool',
-          tool_call_id: toolCall.id,
+          toolCallId: toolCall.id,
+          name: toolName,
           content: `Tool unavailable: ${toolValidation.reason}`,
         });
         continue;
       }
 
-      let toolResult: any;
-      try {
-        toolResult = await handleToolCall(toolName, toolArgs, bridge);
-      } catch (e) {
-        console.error(`[LLM Handler] Tool error:`, e);
-        toolResult = `Error: ${e instanceof Error ? e.message : 'Unknown error'}`;
+      // Pause for the analyst on calls the policy marks as risky
+      if (toolRequiresConfirmation(toolName, toolCall.args || {})) {
+        const confirmation = await requestConfirmation(bridge, toolName, toolCall.args || {});
+        console.error(`[Guardrails] ${toolName} ${confirmation.approved ? 'approved' : `rejected${confirmation.reason ? ` (${confirmation.reason})` : ''}`}`);
+        if (!confirmation.approved) {
+          await recordAudit({ event: 'tool-call', tool: toolName, args: toolCall.args, status: 'rejected', error: confirmation.reason, ...client });
+          const { title } = describeToolAction(toolName, toolCall.args || {});
+          stoppedMessage = `Stopped before: ${title}${confirmation.reason ? ` - ${confirmation.reason}` : ''}. Nothing else was run.`;
+          break;
+        }
+      }
+
+      const toolResult = await runTool(toolName, toolCall.id, toolCall.args, bridge, onEvent);
+      const toolFailed = (typeof toolResult === 'string' && toolResult.startsWith('Error:')) || toolResult?.success === false;
+      if (!toolFailed) {
+        memory.noteToolCall(toolName, toolCall.args);
       }
 
       // Check if this tool used a vision model (e.g., analyze-design)
@@ -190,50 +346,46 @@ async function callOpenAI(
         console.error(`[LLM Handler] Vision model used by ${toolName}: ${visionModelUsed}`);
       }
 
-      // Always let the LLM format the response for better output
-      const toolResultString = typeof toolResult === 'string'
+      // Always let the LLM format the response for better output.
+      // Secrets in tool results are redacted so the model can't repeat them. PII
+      // stays so analysis on those columns is right; the reply filter catches it.
+      const toolResultString = redactOutput(typeof toolResult === 'string'
         ? toolResult
-        : JSON.stringify(toolResult);
+        : JSON.stringify(toolResult), { secretsOnly: true }).text;
 
       messages.push({
         role: 'tool',
-        tool_call_id: toolCall.id,
+        toolCallId: toolCall.id,
+        name: toolName,
         content: toolResultString,
       });
     }
+    if (stoppedMessage) break;
 
     // Get next response from LLM
-    response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${modelConfig.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: modelConfig.model,
-        messages,
-        tools: openaiTools,
-        max_completion_tokens: 4096,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'OpenAI API request failed');
-    }
+    turn = await nextTurn();
+    totalPromptTokens += turn.usage.prompt;
+    totalCompletionTokens += turn.usage.completion;
+  }
 
-    data = await response.json();
-    assistantMessage = data.choices[0].message;
-    
-    // Track token usage from subsequent responses
-    if (data.usage) {
-      totalPromptTokens += data.usage.prompt_tokens || 0;
-      totalCompletionTokens += data.usage.completion_tokens || 0;
-    }
+  if (stoppedMessage) onEvent?.({ type: 'text-delta', delta: stoppedMessage });
+
+  // Output guardrails: redact leaks and cut echoed data before the analyst sees it
+  const output = filterModelOutput(stoppedMessage ?? (turn.text || 'Action completed.'));
+  if (output.redactions.length > 0 || output.rowsWithheld > 0) {
+    console.error(`[Guardrails] Reply filtered: ${output.redactions.map(r => `${r.id} x${r.count}`).join(', ') || 'no redactions'}, ${output.rowsWithheld} rows withheld`);
+    await recordAudit({
+      event: 'guardrail',
+      status: 'flagged',
+      args: { output: true, redactions: output.redactions, rowsWithheld: output.rowsWithheld },
+      ...client,
+    });
   }
+  const content = output.text;
+  memory.addAssistantMessage(content);
 
   return {
-    content: assistantMessage.content || 'Action completed.',
+    content,
     // If a vision tool was called, report the vision model; otherwise report the chat model
     modelUsed: visionModelUsed || `${modelConfig.provider}:${modelConfig.model}`,
     tokensUsed: {
@@ -246,241 +398,51 @@ async function callOpenAI(
 }
 
 /**
- * Call Anthropic with tools - uses tool router for efficiency
+ * Main chat handler - routes to the registered LLM provider
+ * Returns ChatResponse with content, model used, and token usage
  */
-async function callAnthropic(
+export async function handleChat(
   request: ChatRequest,
   bridge: WebSocketBridge
 ): Promise<ChatResponse> {
-  const { message, conversationHistory, modelConfig, systemPrompt, hasImage, dashboardContext } = request;
-  
-  // Track token usage and tools called
-  let totalPromptTokens = 0;
-  let totalCompletionTokens = 0;
-  const toolsCalled: string[] = [];
-  let visionModelUsed: string | null = null;  // Track if vision model was used by a tool
-  
-  // Guardrail check on user input
-  const guardrailResult = checkGuardrails(message);
-  if (!guardrailResult.allowed) {
-    console.error(`[Guardrails] Blocked request: ${guardrailResult.message}`);
-    return {
-      content: `I can't help with that request. ${guardrailResult.message}`,
-      modelUsed: `${modelConfig.provider}:${modelConfig.model}`,
-      tokensUsed: { prompt: 0, completion: 0, total: 0 },
-    };
-  }
-  if (guardrailResult.flags.length > 0) {
-    console.error(`[Guardrails] Flags: ${guardrailResult.flags.join(', ')}`);
-  }
-  
-  // Use sanitized message for all downstream processing
-  const safeMessage = guardrailResult.sanitizedInput ?? message;
-  
-  // Build validation context for tool whitelisting
-  const validationContext = buildValidationContext({
-    hasImage,
-    dashboardContext,
-    connectionStatus: bridge.hasConnectedExtension(),
-  });
-  
-  const messages: any[] = conversationHistory.slice(-10).map(msg => ({
-    role: msg.role,
-    content: msg.content,
-  }));
-
-  // Add current message if not already in history
-  if (conversationHistory[conversationHistory.length - 1]?.content !== message) {
-    messages.push({ role: 'user', content: safeMessage });
-  }
-
-  // Use tool router - only get relevant tools based on intent
-  const anthropicTools = getAnthropicToolsForRequest(safeMessage, !!hasImage);
-  console.error(`[LLM Handler] Sending ${anthropicTools.length} tools (was 37+ before routing)`);
-
-  let response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': modelConfig.apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: modelConfig.model,
-      max_tokens: 4096,
-      system: SAFETY_SYSTEM_PREFIX + systemPrompt,
-      messages,
-      tools: anthropicTools,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Anthropic API request failed');
-  }
-
-  let data = await response.json();
-  
-  // Track token usage (Anthropic returns input_tokens and output_tokens)
-  if (data.usage) {
-    totalPromptTokens += data.usage.input_tokens || 0;
-    totalCompletionTokens += data.usage.output_tokens || 0;
-  }
-
-  // Handle tool use in a loop
-  while (data.stop_reason === 'tool_use') {
-    const toolUseBlock = data.content.find((block: any) => block.type === 'tool_use');
-    if (!toolUseBlock) break;
-
-    const toolName = toolUseBlock.name;
-    const toolArgs = toolUseBlock.input;
-    
-    // Track tools called
-    toolsCalled.push(toolName);
-
-    console.error(`[LLM Handler] Executing tool: ${toolName}`);
-
-    // Refresh validation context before each tool call (connection state may have changed)
-    const currentValidationContext = buildValidationContext({
-      hasImage,
-      dashboardContext,
-      connectionStatus: bridge.hasConnectedExtension(),
-    });
-
-    // Validate tool call against context
-    const toolValidation = validateToolCall(toolName, currentValidationContext);
-    if (!toolValidation.valid) {
-      console.error(`[Guardrails] Tool blocked: ${toolValidation.reason}`);
-      messages.push({
-        role: 'assistant',
-        content: data.content,
-      });
-      messages.push({
-        role: 'user',
-        content: [{
-          type: 'tool_result',
-          tool_use_id: toolUseBlock.id,
-          content: `Tool unavailable: ${toolValidation.reason}`,
-        }],
-      });
-      
-      // Get next response with the blocked tool result
-      response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': modelConfig.apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: modelConfig.model,
-          max_tokens: 4096,
-          system: SAFETY_SYSTEM_PREFIX + systemPrompt,
-          messages,
-          tools: anthropicTools,
-        }),
-      });
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error?.message || 'Anthropic API request failed');
-      }
-      data = await response.json();
-      continue;
-    }
-
-    let toolResult: any;
-    try {
-      toolResult = await handleToolCall(toolName, toolArgs, bridge);
-    } catch (e) {
-      console.error(`[LLM Handler] Tool error:`, e);
-      toolResult = `Error: ${e instanceof Error ? e.message : 'Unknown error'}`;
-    }
-
-    // Check if this tool used a vision model (e.g., analyze-design)
-    if (toolResult && typeof toolResult === 'object' && toolResult.visionModel) {
-      visionModelUsed = toolResult.visionModel;
-      console.error(`[LLM Handler] Vision model used by ${toolName}: ${visionModelUsed}`);
-    }
-
-    // Always let the LLM format the response for better output
-    const toolResultString = typeof toolResult === 'string'
-      ? toolResult
-      : JSON.stringify(toolResult);
-
-    // Add assistant message and tool result
-    messages.push({
-      role: 'assistant',
-      content: data.content,
-    });
-    messages.push({
-      role: 'user',
-      content: [{
-        type: 'tool_result',
-        tool_use_id: toolUseBlock.id,
-        content: toolResultString,
-      }],
-    });
-
-    // Get next response
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': modelConfig.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: modelConfig.model,
-        max_tokens: 4096,
-        system: SAFETY_SYSTEM_PREFIX + systemPrompt,
-        messages,
-        tools: anthropicTools,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Anthropic API request failed');
-    }
-
-    data = await response.json();
-    
-    // Track token usage from subsequent responses
-    if (data.usage) {
-      totalPromptTokens += data.usage.input_tokens || 0;
-      totalCompletionTokens += data.usage.output_tokens || 0;
-    }
+  // Everything the chat does is audited against a hash of its message
+  // and gets its own provider state (e.g. the mock provider's script position)
+  const audit = { source: 'chat' as const, messageHash: hashMessage(request.message) };
+  const run = () => withChatScope(() => withAuditContext(audit, () => answerChat(request, bridge)));
+  if (process.env.DASHAGENT_RECORD_DIR) {
+    return recordChat(request, bridge, run);
   }
-
-  // Extract text response
-  const textBlock = data.content?.find((block: any) => block.type === 'text');
-  
-  return {
-    content: textBlock?.text || 'Action completed.',
-    // If a vision tool was called, report the vision model; otherwise report the chat model
-    modelUsed: visionModelUsed || `${modelConfig.provider}:${modelConfig.model}`,
-    tokensUsed: {
-      prompt: totalPromptTokens,
-      completion: totalCompletionTokens,
-      total: totalPromptTokens + totalCompletionTokens,
-    },
-    toolsCalled: toolsCalled.length > 0 ? toolsCalled : undefined,
-  };
+  return run();
 }
 
-/**
- * Main chat handler - routes to appropriate LLM provider
- * Returns ChatResponse with content, model used, and token usage
- */
-export async function handleChat(
+async function answerChat(
   request: ChatRequest,
   bridge: WebSocketBridge
 ): Promise<ChatResponse> {
-  const { modelConfig, message, hasImage } = request;
+  const requested = request.modelConfig;
+  const client = bridge.getRequestClient();
+  const caller = { clientId: client?.clientId, tokenId: client?.tokenId, dashboardName: client?.dashboardName };
+
+  // Daily budgets may refuse the chat or switch it to the fallback model
+  const budget = await checkBudget(requested, caller);
+  if (budget.action === 'refuse') {
+    console.error(`[Usage] Chat refused: ${budget.reason}`);
+    return {
+      content: budget.reason,
+      modelUsed: `${requested.provider}:${requested.model}`,
+      tokensUsed: { prompt: 0, completion: 0, total: 0 },
+    };
+  }
+  if (budget.action === 'downgrade') {
+    console.error(`[Usage] ${budget.reason}`);
+    request = { ...request, modelConfig: budget.modelConfig };
+  }
 
-  if (!modelConfig.apiKey) {
-    const providerName = modelConfig.provider === 'openai' ? 'OpenAI' : 'Anthropic';
-    throw new Error(`Please configure your ${providerName} API key in Settings`);
+  const { modelConfig } = request;
+  const provider = requireProvider(modelConfig.provider);
+
+  if (provider.requiresApiKey && !modelConfig.apiKey) {
+    throw new Error(`Please configure your ${provider.label} API key in Settings`);
   }
 
   // Cache API keys, vision model, and generation model for tools that need to make direct API calls
@@ -496,11 +458,35 @@ export async function handleChat(
   console.error(`[LLM Handler] Using ${modelConfig.provider} - ${modelConfig.model}`);
   console.error(`[LLM Handler] Tool router: ${stats.totalTools} total, ${stats.cacheSize} cached sets`);
 
-  if (modelConfig.provider === 'openai') {
-    return callOpenAI(request, bridge);
-  } else {
-    return callAnthropic(request, bridge);
+  if (budget.action === 'downgrade') {
+    request.onEvent?.({ type: 'text-delta', delta: `_${budget.reason}_\n\n` });
+  }
+  const response = await runChatLoop(provider, request, bridge);
+  if (budget.action === 'downgrade') {
+    response.content = `_${budget.reason}_\n\n${response.content}`;
+  }
+
+  if (response.tokensUsed.total > 0) {
+    await recordUsage({
+      kind: 'chat',
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      promptTokens: response.tokensUsed.prompt,
+      completionTokens: response.tokensUsed.completion,
+      tools: response.toolsCalled ?? [],
+      ...caller,
+      conversationId: request.conversationId,
+      ...(budget.action === 'downgrade' ? { downgradedFrom: `${requested.provider}:${requested.model}` } : {}),
+    });
   }
+
+  request.onEvent?.({
+    type: 'usage',
+    modelUsed: response.modelUsed,
+    tokensUsed: response.tokensUsed,
+    toolsCalled: response.toolsCalled,
+  });
+  return response;
 }
 
 /**
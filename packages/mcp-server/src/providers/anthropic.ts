@@ -0,0 +1,178 @@
+/**
+ * Anthropic Provider - Claude messages API
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { readServerSentEvents } from './sse.js';
+import {
+  LLMProvider,
+  ChatTurnRequest,
+  ChatTurnResult,
+  ConversationMessage,
+  ToolCall,
+  VisionRequest,
+  VisionResult,
+} from './types.js';
+
+function toAnthropicTools(tools: Tool[]): any[] {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  }));
+}
+
+/**
+ * Convert to Anthropic messages: tool calls become tool_use blocks and
+ * consecutive tool results are sent together in one user message
+ */
+function toAnthropicMessages(messages: ConversationMessage[]): any[] {
+  const result: any[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content) && last.content[0]?.type === 'tool_result') {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+          ...msg.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.args })),
+        ],
+      });
+    } else {
+      result.push({ role: msg.role, content: msg.content });
+    }
+  }
+  return result;
+}
+
+function fromContentBlocks(content: any[]): { text: string; toolCalls: ToolCall[] } {
+  const blocks = content.filter(Boolean);
+  return {
+    text: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+    toolCalls: blocks
+      .filter(b => b.type === 'tool_use')
+      .map(b => ({ id: b.id, name: b.name, args: b.input || {} })),
+  };
+}
+
+async function post(apiKey: string, body: Record<string, any>): Promise<Response> {
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || 'Anthropic API request failed');
+  }
+  return response;
+}
+
+async function chat(request: ChatTurnRequest): Promise<ChatTurnResult> {
+  const body: Record<string, any> = {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    system: request.system,
+    messages: toAnthropicMessages(request.messages),
+  };
+  if (request.tools.length > 0) body.tools = toAnthropicTools(request.tools);
+
+  if (!request.onTextDelta) {
+    const data = await (await post(request.apiKey, body)).json();
+    return {
+      ...fromContentBlocks(data.content || []),
+      usage: { prompt: data.usage?.input_tokens || 0, completion: data.usage?.output_tokens || 0 },
+    };
+  }
+
+  // Streamed: rebuild the content blocks from events
+  const response = await post(request.apiKey, { ...body, stream: true });
+  const content: any[] = [];
+  const toolInputJson: Record<number, string> = {};
+  const usage = { prompt: 0, completion: 0 };
+
+  for await (const { data } of readServerSentEvents(response)) {
+    const event = JSON.parse(data);
+    switch (event.type) {
+      case 'message_start':
+        usage.prompt = event.message?.usage?.input_tokens || 0;
+        usage.completion = event.message?.usage?.output_tokens || 0;
+        break;
+      case 'content_block_start':
+        content[event.index] = { ...event.content_block };
+        if (event.content_block.type === 'tool_use') toolInputJson[event.index] = '';
+        break;
+      case 'content_block_delta':
+        if (event.delta.type === 'text_delta') {
+          content[event.index].text += event.delta.text;
+          request.onTextDelta(event.delta.text);
+        } else if (event.delta.type === 'input_json_delta') {
+          toolInputJson[event.index] += event.delta.partial_json;
+        }
+        break;
+      case 'content_block_stop':
+        if (event.index in toolInputJson) {
+          content[event.index].input = toolInputJson[event.index] ? JSON.parse(toolInputJson[event.index]) : {};
+        }
+        break;
+      case 'message_delta':
+        // output_tokens in message_delta is cumulative
+        if (event.usage?.output_tokens !== undefined) usage.completion = event.usage.output_tokens;
+        break;
+      case 'error':
+        throw new Error(event.error?.message || 'Anthropic stream failed');
+    }
+  }
+
+  return { ...fromContentBlocks(content), usage };
+}
+
+async function vision(request: VisionRequest): Promise<VisionResult> {
+  const mediaType = request.image.match(/^data:(image\/\w+);/)?.[1] || 'image/png';
+  const response = await post(request.apiKey, {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    system: request.system,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: request.prompt },
+          {
+            type: 'image',
+            source: {
+              type: 'base64',
+              media_type: mediaType,
+              data: request.image.replace(/^data:image\/\w+;base64,/, ''),
+            },
+          },
+        ],
+      },
+    ],
+  });
+  const data = await response.json();
+  return {
+    text: data.content?.[0]?.text || '',
+    usage: { prompt: data.usage?.input_tokens || 0, completion: data.usage?.output_tokens || 0 },
+  };
+}
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  chat,
+  vision,
+};
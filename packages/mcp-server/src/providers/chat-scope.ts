@@ -0,0 +1,27 @@
+/**
+ * Chat Scope - provider state that lives for one chat
+ *
+ * handleChat runs each chat inside withChatScope(). Providers that keep
+ * state between turns (the mock provider's script position) store it with
+ * getChatState(), so two chats - from one extension or several - never see
+ * each other's state.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const chatScope = new AsyncLocalStorage<Map<string, unknown>>();
+
+export function withChatScope<T>(fn: () => Promise<T>): Promise<T> {
+  return chatScope.run(new Map(), fn);
+}
+
+/**
+ * State for key in the current chat, created on first use. Outside a chat
+ * every call gets fresh state.
+ */
+export function getChatState<T>(key: string, create: () => T): T {
+  const state = chatScope.getStore();
+  if (!state) return create();
+  if (!state.has(key)) state.set(key, create());
+  return state.get(key) as T;
+}
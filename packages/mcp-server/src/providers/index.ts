@@ -0,0 +1,88 @@
+/**
+ * LLM Providers - registry of chat/tool-calling/vision backends
+ *
+ * Built in:
+ * - openai:    OpenAI API
+ * - anthropic: Anthropic API
+ * - local:     OpenAI-compatible server (Ollama, vLLM) at DASHAGENT_LOCAL_LLM_URL
+ * - mock:      Scripted offline provider (DASHAGENT_MOCK_LLM_SCRIPT) - only
+ *              registered when that is set or enableMockProvider() is called
+ *
+ * The extension selects one with "provider:model" (e.g. "local:llama3.1").
+ * Register more with registerProvider(). withProviderOverride() swaps the
+ * providers seen by one async call chain (used to record and replay chats).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LLMProvider } from './types.js';
+import { openaiProvider, localProvider } from './openai-compatible.js';
+import { anthropicProvider } from './anthropic.js';
+import { createMockProvider } from './mock.js';
+
+export * from './types.js';
+export { createOpenAICompatibleProvider } from './openai-compatible.js';
+export type { OpenAICompatibleOptions } from './openai-compatible.js';
+export { createScriptedProvider } from './mock.js';
+export type { ScriptedTurn, ScriptStep, ScriptedProviderOptions } from './mock.js';
+export { withChatScope } from './chat-scope.js';
+
+const providers = new Map<string, LLMProvider>();
+const providerOverride = new AsyncLocalStorage<(provider: LLMProvider) => LLMProvider>();
+
+/**
+ * Register a provider (replaces any provider with the same id)
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  const provider = providers.get(id);
+  const override = providerOverride.getStore();
+  return provider && override ? override(provider) : provider;
+}
+
+/**
+ * Get a provider or throw with the list of registered ids
+ */
+export function requireProvider(id: string): LLMProvider {
+  const provider = getProvider(id);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${id}". Available: ${Array.from(providers.keys()).join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * Run fn with every provider lookup passed through override
+ * (e.g. wrapped in a recorder, or replaced by recorded turns)
+ */
+export function withProviderOverride<T>(override: (provider: LLMProvider) => LLMProvider, fn: () => Promise<T>): Promise<T> {
+  return providerOverride.run(override, fn);
+}
+
+export function listProviders(): Array<{ id: string; label: string; requiresApiKey: boolean; vision: boolean }> {
+  return Array.from(providers.values()).map(p => ({
+    id: p.id,
+    label: p.label,
+    requiresApiKey: p.requiresApiKey,
+    vision: !!p.vision,
+  }));
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(localProvider);
+
+/**
+ * Register the scripted "mock" provider. It needs no API key, so servers only
+ * offer it when asked: test harnesses call this, and so does startup when
+ * DASHAGENT_MOCK_LLM_SCRIPT is set.
+ */
+export function enableMockProvider(): void {
+  if (!providers.has('mock')) registerProvider(createMockProvider());
+}
+
+if (process.env.DASHAGENT_MOCK_LLM_SCRIPT) {
+  enableMockProvider();
+}
@@ -0,0 +1,122 @@
+/**
+ * Mock Provider - scripted, offline and deterministic
+ *
+ * Plays back a script of turns (text and/or tool calls) in order, then echoes
+ * the latest user message. Lets the tool loop run in tests and demos without
+ * an API key or network.
+ *
+ * Every chat starts at the top of the script (see chat-scope.ts), so one
+ * chat's position never carries over to the next.
+ *
+ * The "mock" provider loads its script from DASHAGENT_MOCK_LLM_SCRIPT, a JSON
+ * file holding an array of turns:
+ *   [{ "toolCalls": [{ "name": "list-workbooks", "args": {} }] },
+ *    { "text": "You have no workbooks open." }]
+ * It answers without an API key, so it is only registered when that variable
+ * is set or a harness calls enableMockProvider(). Code can register its own
+ * with createScriptedProvider().
+ */
+
+import { readFileSync } from 'fs';
+import { getChatState } from './chat-scope.js';
+import {
+  LLMProvider,
+  ChatTurnRequest,
+  ChatTurnResult,
+  TokenUsage,
+  VisionRequest,
+  VisionResult,
+} from './types.js';
+
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: Array<{ name: string; args?: Record<string, any> }>;
+}
+
+/** A fixed turn, or one computed from the request (e.g. to read tool results) */
+export type ScriptStep = ScriptedTurn | ((request: ChatTurnRequest) => ScriptedTurn);
+
+export interface ScriptedProviderOptions {
+  id?: string;
+  label?: string;
+  /** The script, or a function that loads it on first use */
+  turns: ScriptStep[] | (() => ScriptStep[]);
+  /** Fixed vision reply; defaults to a description of the prompt */
+  visionText?: string;
+}
+
+/** Rough token estimate so usage totals are non-zero and stable */
+function estimateUsage(input: string, output: string): TokenUsage {
+  return { prompt: Math.ceil(input.length / 4), completion: Math.ceil(output.length / 4) };
+}
+
+/**
+ * Create a provider that plays back scripted turns
+ */
+export function createScriptedProvider(options: ScriptedProviderOptions): LLMProvider {
+  const id = options.id || 'mock';
+  let turns: ScriptStep[] | null = Array.isArray(options.turns) ? options.turns : null;
+
+  async function chat(request: ChatTurnRequest): Promise<ChatTurnResult> {
+    turns ??= (options.turns as () => ScriptStep[])();
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    // Script position and call ids restart with every chat
+    const cursor = getChatState(`scripted-provider:${id}`, () => ({ position: 0, callCounter: 0 }));
+
+    const step = turns[cursor.position];
+    let turn: ScriptedTurn;
+    if (step !== undefined) {
+      cursor.position++;
+      turn = typeof step === 'function' ? step(request) : step;
+    } else {
+      turn = { text: `Mock reply to: ${lastUser?.content ?? ''}` };
+    }
+
+    const text = turn.text || '';
+    if (text && request.onTextDelta) {
+      // Stream word by word like a real provider
+      for (const piece of text.match(/\S+\s*/g) || []) request.onTextDelta(piece);
+    }
+
+    return {
+      text,
+      toolCalls: (turn.toolCalls || []).map(call => ({
+        id: `mock_call_${++cursor.callCounter}`,
+        name: call.name,
+        args: call.args || {},
+      })),
+      usage: estimateUsage(request.system + JSON.stringify(request.messages), text + JSON.stringify(turn.toolCalls || [])),
+    };
+  }
+
+  async function vision(request: VisionRequest): Promise<VisionResult> {
+    const text = options.visionText ?? `Mock vision analysis for: ${request.prompt.slice(0, 80)}`;
+    return { text, usage: estimateUsage(request.prompt, text) };
+  }
+
+  return {
+    id,
+    label: options.label || 'Mock',
+    requiresApiKey: false,
+    chat,
+    vision,
+  };
+}
+
+function loadScriptFromEnv(): ScriptStep[] {
+  const path = process.env.DASHAGENT_MOCK_LLM_SCRIPT;
+  if (!path) return [];
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error(`[Providers] Failed to load mock script ${path}:`, error);
+    return [];
+  }
+}
+
+/**
+ * The "mock" provider, playing DASHAGENT_MOCK_LLM_SCRIPT
+ */
+export function createMockProvider(): LLMProvider {
+  return createScriptedProvider({ turns: loadScriptFromEnv });
+}
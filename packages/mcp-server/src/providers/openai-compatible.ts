@@ -0,0 +1,199 @@
+/**
+ * OpenAI-compatible Providers
+ *
+ * The OpenAI chat completions API, also spoken by local servers such as
+ * Ollama and vLLM. "openai" targets api.openai.com; "local" targets
+ * DASHAGENT_LOCAL_LLM_URL (default Ollama at http://localhost:11434/v1) so
+ * chat can run without leaving the network.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { readServerSentEvents } from './sse.js';
+import {
+  LLMProvider,
+  ChatTurnRequest,
+  ChatTurnResult,
+  ConversationMessage,
+  ToolCall,
+  VisionRequest,
+  VisionResult,
+} from './types.js';
+
+export interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  /** API root, e.g. "https://api.openai.com/v1" */
+  baseUrl: string;
+  requiresApiKey: boolean;
+  /** Used when the request has no key (e.g. from the environment) */
+  defaultApiKey?: string;
+  /** OpenAI wants max_completion_tokens; most local servers still read max_tokens */
+  maxTokensParam?: 'max_completion_tokens' | 'max_tokens';
+}
+
+function toOpenAITools(tools: Tool[]): any[] {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    },
+  }));
+}
+
+function toOpenAIMessages(system: string, messages: ConversationMessage[]): any[] {
+  return [
+    { role: 'system', content: system },
+    ...messages.map(msg => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+      }
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+          })),
+        };
+      }
+      return { role: msg.role, content: msg.content };
+    }),
+  ];
+}
+
+function parseToolCalls(toolCalls: any[] | undefined): ToolCall[] {
+  return (toolCalls || []).map(call => ({
+    id: call.id,
+    name: call.function.name,
+    args: call.function.arguments ? JSON.parse(call.function.arguments) : {},
+  }));
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const maxTokensParam = options.maxTokensParam || 'max_completion_tokens';
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  async function post(apiKey: string, body: Record<string, any>): Promise<Response> {
+    const key = apiKey || options.defaultApiKey;
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key ? { 'Authorization': `Bearer ${key}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `${options.label} API request failed`);
+    }
+    return response;
+  }
+
+  async function chat(request: ChatTurnRequest): Promise<ChatTurnResult> {
+    const body: Record<string, any> = {
+      model: request.model,
+      messages: toOpenAIMessages(request.system, request.messages),
+      [maxTokensParam]: request.maxTokens,
+    };
+    if (request.tools.length > 0) body.tools = toOpenAITools(request.tools);
+
+    if (!request.onTextDelta) {
+      const data = await (await post(request.apiKey, body)).json();
+      const message = data.choices[0].message;
+      return {
+        text: message.content || '',
+        toolCalls: parseToolCalls(message.tool_calls),
+        usage: { prompt: data.usage?.prompt_tokens || 0, completion: data.usage?.completion_tokens || 0 },
+      };
+    }
+
+    // Streamed: reassemble text and tool call deltas
+    const response = await post(request.apiKey, { ...body, stream: true, stream_options: { include_usage: true } });
+    let text = '';
+    const toolCalls: any[] = [];
+    const usage = { prompt: 0, completion: 0 };
+
+    for await (const { data } of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new Error(chunk.error.message || `${options.label} stream failed`);
+      }
+      if (chunk.usage) {
+        usage.prompt = chunk.usage.prompt_tokens || 0;
+        usage.completion = chunk.usage.completion_tokens || 0;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) {
+        text += delta.content;
+        request.onTextDelta(delta.content);
+      }
+      // Tool call names/arguments arrive in pieces, keyed by index
+      for (const part of delta.tool_calls || []) {
+        const call = toolCalls[part.index] ??= { id: '', function: { name: '', arguments: '' } };
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+    }
+
+    return { text, toolCalls: parseToolCalls(toolCalls.filter(Boolean)), usage };
+  }
+
+  async function vision(request: VisionRequest): Promise<VisionResult> {
+    const response = await post(request.apiKey, {
+      model: request.model,
+      [maxTokensParam]: request.maxTokens,
+      messages: [
+        { role: 'system', content: request.system },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: request.prompt },
+            { type: 'image_url', image_url: { url: request.image, detail: 'high' } },
+          ],
+        },
+      ],
+    });
+    const data = await response.json();
+    return {
+      text: data.choices[0]?.message?.content || '',
+      usage: { prompt: data.usage?.prompt_tokens || 0, completion: data.usage?.completion_tokens || 0 },
+    };
+  }
+
+  return {
+    id: options.id,
+    label: options.label,
+    requiresApiKey: options.requiresApiKey,
+    chat,
+    vision,
+  };
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+});
+
+export const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local',
+  baseUrl: process.env.DASHAGENT_LOCAL_LLM_URL || 'http://localhost:11434/v1',
+  requiresApiKey: false,
+  defaultApiKey: process.env.DASHAGENT_LOCAL_LLM_KEY,
+  maxTokensParam: 'max_tokens',
+});
@@ -0,0 +1,36 @@
+/**
+ * Server-sent events reader for streamed provider responses
+ */
+
+/**
+ * Read a server-sent events response body, yielding each event's name and data
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<{ event?: string; data: string }> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      let event: string | undefined;
+      const data: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) yield { event, data: data.join('\n') };
+    }
+
+    if (done) return;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * LLM Provider Types
+ *
+ * Providers translate one model turn (system prompt, conversation, tools) to
+ * their API and back. The tool loop in llm-handler.ts and the vision tools
+ * only see these neutral types, so a new backend is a module that implements
+ * LLMProvider plus a registerProvider() call.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Model selection sent by the extension ("provider:model" in its settings)
+ */
+export interface ModelConfig {
+  provider: string;  // Registered provider id, e.g. "openai", "anthropic", "local", "mock"
+  model: string;
+  apiKey: string;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Provider-neutral conversation message
+ */
+export type ConversationMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+}
+
+export interface ChatTurnRequest {
+  model: string;
+  apiKey: string;
+  system: string;
+  messages: ConversationMessage[];
+  tools: Tool[];
+  maxTokens: number;
+  /** Set to stream - called with each piece of text as it arrives */
+  onTextDelta?: (delta: string) => void;
+}
+
+export interface ChatTurnResult {
+  text: string;
+  /** Empty when the model is done */
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+}
+
+export interface VisionRequest {
+  model: string;
+  apiKey: string;
+  system: string;
+  prompt: string;
+  /** Data URL ("data:image/png;base64,...") */
+  image: string;
+  maxTokens: number;
+}
+
+export interface VisionResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  id: string;
+  /** Display name, e.g. "OpenAI" */
+  label: string;
+  requiresApiKey: boolean;
+  /** One model turn with tool calling */
+  chat(request: ChatTurnRequest): Promise<ChatTurnResult>;
+  /** Image + prompt analysis - omitted by providers without vision */
+  vision?(request: VisionRequest): Promise<VisionResult>;
+}
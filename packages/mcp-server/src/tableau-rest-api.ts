@@ -4,54 +4,171 @@
  * Handles authentication and workbook download/publish operations.
  * Uses Personal Access Token (PAT) authentication.
  * 
+ * SESSIONS: One auth session per server + site, so several sites can be
+ * signed in at once. Downloaded workbooks are kept in a keyed store
+ * (by workbook id) and remember the session they came from.
+ * 
+ * TOKEN REFRESH: Sessions keep their PAT credentials. Expired tokens are
+ * refreshed before a request, and a 401 triggers one re-auth and retry.
+ * If re-auth fails, a TableauAuthError is raised.
+ * 
+ * PUBLISHING: Packaged workbooks are published as .twbx. Files too large for
+ * a single request use the file-upload session flow (initiate, append
+ * chunks, commit) and report progress through a callback.
+ * 
+ * VERSIONS: Overwrite publishes snapshot the replaced and the published XML
+ * into the local version store (see workbook-versions.ts).
+ * 
+ * LOCAL FILES: .twb/.twbx files can also be opened from and saved to disk,
+ * so workbooks can be analyzed and modified without a server.
+ * 
  * API Reference: https://help.tableau.com/current/api/rest_api/en-us/REST/rest_api.htm
  */
 
-import { unzipSync, strFromU8 } from 'fflate';
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import { readFile, writeFile, stat } from 'fs/promises';
+import { basename, extname, resolve, dirname, join } from 'path';
+import { applyEditsToXml, diffWorkbookXml, TwbEdit, WorkbookDiff } from './twb/index.js';
+import { saveVersion, WorkbookVersion } from './workbook-versions.js';
 
 // In-memory storage for workbook data
-interface WorkbookCache {
+export interface WorkbookCache {
   workbookId: string;
   workbookName: string;
   projectId: string;
   projectName: string;
   siteId: string;
+  sessionKey: string; // Auth session the workbook was downloaded with ('' for local files)
+  source: 'server' | 'local';
+  filePath?: string; // Local file the workbook was opened from
+  // .twbx package contents other than the .twb (extracts, images), kept to repackage unchanged
+  packageFiles?: Record<string, Uint8Array>;
+  twbEntryName?: string; // Path of the .twb inside the .twbx package
   xml: string;
-  originalXml: string; // Keep original for diff
+  originalXml: string; // Keep original for diff (see getWorkbookChanges)
+  downloadedAt: Date;
   lastModified: Date;
 }
 
-let cachedWorkbook: WorkbookCache | null = null;
-let authToken: string | null = null;
-let siteId: string | null = null;
-let tokenExpiry: Date | null = null;
+// Auth session for one server + site
+interface AuthSession {
+  key: string;
+  server: string;
+  siteName: string;
+  siteId: string;
+  token: string;
+  tokenExpiry: Date;
+  // PAT credentials kept to re-authenticate when the token expires
+  patName: string;
+  patSecret: string;
+}
+
+/**
+ * Raised when a session cannot be re-authenticated (PAT revoked, expired or invalid)
+ */
+export class TableauAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly sessionKey: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'TableauAuthError';
+  }
+}
+
+const workbooks = new Map<string, WorkbookCache>();
+const sessions = new Map<string, AuthSession>();
+// Workbook targeted when a caller does not pass an id (last downloaded or used)
+let activeWorkbookId: string | null = null;
+
+/**
+ * Key for an auth session - one per server + site
+ */
+export function getSessionKey(server: string, siteName: string): string {
+  return `${server.replace(/\/+$/, '')}#${siteName}`;
+}
+
+function getSession(sessionKey: string): AuthSession | null {
+  return sessions.get(sessionKey) ?? null;
+}
+
+/**
+ * Format a caught error, flagging auth failures so callers can tell them apart
+ */
+function describeError(prefix: string, error: unknown): { error: string; authError?: boolean } {
+  if (error instanceof TableauAuthError) {
+    return { error: error.message, authError: true };
+  }
+  return { error: `${prefix}: ${error instanceof Error ? error.message : String(error)}` };
+}
+
+/**
+ * Resolve a cached workbook by id, or the active workbook when no id is given
+ */
+function resolveWorkbook(workbookId?: string): { workbook?: WorkbookCache; error?: string } {
+  const id = workbookId || activeWorkbookId;
+  if (!id) {
+    return { error: 'No workbook loaded. Use download-workbook first.' };
+  }
+  const workbook = workbooks.get(id);
+  if (!workbook) {
+    return { error: `Workbook ${id} is not loaded. Use list-workbooks to see loaded workbooks.` };
+  }
+  activeWorkbookId = id;
+  return { workbook };
+}
 
 // ==================== TWBX EXTRACTION ====================
 
+interface TwbxPackage {
+  xml: string;
+  twbEntryName: string;
+  packageFiles: Record<string, Uint8Array>;
+}
+
 /**
  * Extract .twb XML from a .twbx package (ZIP file)
+ * The remaining entries (extracts, images) are returned so they can be repackaged.
  */
-async function extractTwbFromTwbx(arrayBuffer: ArrayBuffer): Promise<string> {
-  const uint8Array = new Uint8Array(arrayBuffer);
+async function extractTwbFromTwbx(arrayBuffer: ArrayBuffer | Uint8Array): Promise<TwbxPackage> {
+  const uint8Array = arrayBuffer instanceof Uint8Array ? arrayBuffer : new Uint8Array(arrayBuffer);
   
   // Unzip the .twbx file
   const unzipped = unzipSync(uint8Array);
   
   // Find the .twb file inside (usually at the root level)
+  const twbEntryName = Object.keys(unzipped).find(filename => filename.endsWith('.twb'));
+  if (!twbEntryName) {
+    throw new Error('No .twb file found inside .twbx package');
+  }
+
+  const packageFiles: Record<string, Uint8Array> = {};
   for (const [filename, content] of Object.entries(unzipped)) {
-    if (filename.endsWith('.twb')) {
-      // Convert Uint8Array to string
-      return strFromU8(content as Uint8Array);
+    if (filename !== twbEntryName) {
+      packageFiles[filename] = content;
     }
   }
-  
-  throw new Error('No .twb file found inside .twbx package');
+
+  // Convert Uint8Array to string
+  return { xml: strFromU8(unzipped[twbEntryName]), twbEntryName, packageFiles };
+}
+
+/**
+ * Build a .twbx package from workbook XML and the original package entries
+ */
+function packTwbx(xml: string, twbEntryName: string, packageFiles: Record<string, Uint8Array>): Uint8Array {
+  return zipSync({
+    [twbEntryName]: strToU8(xml),
+    ...packageFiles,
+  });
 }
 
 // ==================== AUTH ====================
 
 interface AuthResponse {
   success: boolean;
+  sessionKey?: string;
   token?: string;
   siteId?: string;
   error?: string;
@@ -66,11 +183,51 @@ export async function authenticate(
   patName: string,
   patSecret: string
 ): Promise<AuthResponse> {
-  // Check if we have a valid cached token
-  if (authToken && tokenExpiry && new Date() < tokenExpiry) {
-    return { success: true, token: authToken, siteId: siteId || undefined };
+  const sessionKey = getSessionKey(server, siteName);
+
+  // Check if we have a valid cached token for this site
+  const existing = getSession(sessionKey);
+  if (existing && new Date() < existing.tokenExpiry && existing.patName === patName) {
+    return { success: true, sessionKey, token: existing.token, siteId: existing.siteId };
+  }
+
+  const result = await signIn(server, siteName, patName, patSecret);
+  if (!result.success) {
+    return { success: false, error: result.error };
   }
 
+  sessions.set(sessionKey, {
+    key: sessionKey,
+    server: server.replace(/\/+$/, ''),
+    siteName,
+    siteId: result.siteId,
+    token: result.token,
+    tokenExpiry: result.tokenExpiry,
+    patName,
+    patSecret,
+  });
+
+  return {
+    success: true,
+    sessionKey,
+    token: result.token,
+    siteId: result.siteId,
+  };
+}
+
+type SignInResult =
+  | { success: true; token: string; siteId: string; tokenExpiry: Date }
+  | { success: false; error: string; status?: number };
+
+/**
+ * Exchange PAT credentials for an auth token
+ */
+async function signIn(
+  server: string,
+  siteName: string,
+  patName: string,
+  patSecret: string
+): Promise<SignInResult> {
   const url = `${server}/api/3.21/auth/signin`;
   
   const body = {
@@ -98,17 +255,16 @@ export async function authenticate(
       return {
         success: false,
         error: `Auth failed (${response.status}): ${errorText}`,
+        status: response.status,
       };
     }
 
     const data = await response.json();
     
-    authToken = data.credentials?.token;
-    siteId = data.credentials?.site?.id;
-    // Token expires in ~240 minutes, refresh at 200 minutes
-    tokenExpiry = new Date(Date.now() + 200 * 60 * 1000);
+    const token: string | undefined = data.credentials?.token;
+    const siteId: string | undefined = data.credentials?.site?.id;
 
-    if (!authToken || !siteId) {
+    if (!token || !siteId) {
       return {
         success: false,
         error: 'Auth response missing token or site ID',
@@ -117,8 +273,10 @@ export async function authenticate(
 
     return {
       success: true,
-      token: authToken,
-      siteId: siteId,
+      token,
+      siteId,
+      // Token expires in ~240 minutes, refresh at 200 minutes
+      tokenExpiry: new Date(Date.now() + 200 * 60 * 1000),
     };
   } catch (error) {
     return {
@@ -129,25 +287,94 @@ export async function authenticate(
 }
 
 /**
- * Sign out and clear cached token
+ * Re-authenticate a session from its stored PAT credentials
  */
-export async function signOut(server: string): Promise<void> {
-  if (!authToken) return;
+async function refreshSession(session: AuthSession): Promise<void> {
+  console.error(`[Tableau] Refreshing auth token for ${session.key}`);
+  const result = await signIn(session.server, session.siteName, session.patName, session.patSecret);
+  if (!result.success) {
+    sessions.delete(session.key);
+    throw new TableauAuthError(
+      `Tableau session for ${session.key} expired and re-authentication failed: ${result.error}`,
+      session.key,
+      result.status
+    );
+  }
+  session.token = result.token;
+  session.siteId = result.siteId;
+  session.tokenExpiry = result.tokenExpiry;
+}
+
+/**
+ * Authenticated request for a session
+ * Refreshes an expired token first; on a 401 re-authenticates and retries once.
+ * Throws TableauAuthError if re-authentication fails or the retry is still rejected.
+ */
+async function tableauFetch(
+  session: AuthSession,
+  url: string,
+  init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> } = {}
+): Promise<Response> {
+  if (new Date() >= session.tokenExpiry) {
+    await refreshSession(session);
+  }
+
+  const send = () => fetch(url, {
+    ...init,
+    headers: { ...init.headers, 'X-Tableau-Auth': session.token },
+  });
+
+  const response = await send();
+  if (response.status !== 401) {
+    return response;
+  }
+
+  await refreshSession(session);
+  const retry = await send();
+  if (retry.status === 401) {
+    throw new TableauAuthError(`Tableau rejected the refreshed token for ${session.key}`, session.key, 401);
+  }
+  return retry;
+}
+
+/**
+ * Sign out of a site and clear its cached token
+ */
+export async function signOut(sessionKey: string): Promise<void> {
+  const session = sessions.get(sessionKey);
+  if (!session) return;
 
   try {
-    await fetch(`${server}/api/3.21/auth/signout`, {
+    await fetch(`${session.server}/api/3.21/auth/signout`, {
       method: 'POST',
       headers: {
-        'X-Tableau-Auth': authToken,
+        'X-Tableau-Auth': session.token,
       },
     });
   } catch {
     // Ignore signout errors
   }
 
-  authToken = null;
-  siteId = null;
-  tokenExpiry = null;
+  sessions.delete(sessionKey);
+}
+
+/**
+ * List signed-in sites (tokens are never returned)
+ */
+export function listSessions(): Array<{
+  sessionKey: string;
+  server: string;
+  siteName: string;
+  siteId: string;
+  tokenExpiry: Date;
+}> {
+  return Array.from(sessions.values()).map(s => ({
+    sessionKey: s.key,
+    server: s.server,
+    siteName: s.siteName,
+    siteId: s.siteId,
+    tokenExpiry: s.tokenExpiry,
+  }));
 }
 
 // ==================== WORKBOOK OPERATIONS ====================
@@ -156,25 +383,84 @@ interface DownloadResult {
   success: boolean;
   workbook?: WorkbookCache;
   error?: string;
+  authError?: boolean;
+}
+
+/**
+ * Download a workbook's current content from the server
+ * Note: For .twbx files, we get a ZIP. For .twb, we get XML.
+ */
+async function fetchWorkbookContent(
+  session: AuthSession,
+  workbookId: string
+): Promise<{ success: true; xml: string; twbx?: TwbxPackage } | { success: false; error: string }> {
+  // includeExtract=true keeps the .hyper files in the package - the other
+  // entries are repackaged on publish, and a package without its extract
+  // would replace the server's extract-backed workbook with a broken one.
+  const contentUrl = `${session.server}/api/3.21/sites/${session.siteId}/workbooks/${workbookId}/content?includeExtract=true`;
+  const contentResponse = await tableauFetch(session, contentUrl);
+
+  if (!contentResponse.ok) {
+    return {
+      success: false,
+      error: `Failed to download workbook: ${contentResponse.status}`,
+    };
+  }
+
+  // Check content type - could be XML or ZIP
+  const contentType = contentResponse.headers.get('content-type') || '';
+  let xml: string;
+  let twbx: TwbxPackage | undefined;
+
+  if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
+    // Direct XML (.twb)
+    xml = await contentResponse.text();
+  } else if (contentType.includes('application/zip') || contentType.includes('application/octet-stream')) {
+    // It's a .twbx package - extract the .twb from the ZIP
+    try {
+      const arrayBuffer = await contentResponse.arrayBuffer();
+      twbx = await extractTwbFromTwbx(arrayBuffer);
+      xml = twbx.xml;
+    } catch (extractError) {
+      return {
+        success: false,
+        error: `Failed to extract .twb from .twbx package: ${extractError instanceof Error ? extractError.message : String(extractError)}`,
+      };
+    }
+  } else {
+    // Try to read as text anyway
+    xml = await contentResponse.text();
+  }
+
+  // Validate it looks like Tableau XML
+  if (!xml.includes('<workbook') && !xml.includes('<?xml')) {
+    return {
+      success: false,
+      error: 'Downloaded content does not appear to be valid Tableau workbook XML',
+    };
+  }
+
+  return { success: true, xml, twbx };
 }
 
 /**
  * Download a workbook from Tableau Server/Cloud
  */
 export async function downloadWorkbook(
-  server: string,
+  sessionKey: string,
   workbookId: string
 ): Promise<DownloadResult> {
-  if (!authToken || !siteId) {
+  const session = getSession(sessionKey);
+  if (!session) {
     return { success: false, error: 'Not authenticated. Call authenticate() first.' };
   }
+  const { server } = session;
 
   try {
     // First get workbook metadata
-    const metaUrl = `${server}/api/3.21/sites/${siteId}/workbooks/${workbookId}`;
-    const metaResponse = await fetch(metaUrl, {
+    const metaUrl = `${server}/api/3.21/sites/${session.siteId}/workbooks/${workbookId}`;
+    const metaResponse = await tableauFetch(session, metaUrl, {
       headers: {
-        'X-Tableau-Auth': authToken,
         'Accept': 'application/json',
       },
     });
@@ -191,74 +477,39 @@ export async function downloadWorkbook(
     const projectId = metadata.workbook?.project?.id || '';
     const projectName = metadata.workbook?.project?.name || '';
 
-    // Download workbook content (XML)
-    // Note: For .twbx files, we get a ZIP. For .twb, we get XML.
-    // Using includeExtract=false to get just the .twb
-    const contentUrl = `${server}/api/3.21/sites/${siteId}/workbooks/${workbookId}/content?includeExtract=false`;
-    const contentResponse = await fetch(contentUrl, {
-      headers: {
-        'X-Tableau-Auth': authToken,
-      },
-    });
-
-    if (!contentResponse.ok) {
-      return {
-        success: false,
-        error: `Failed to download workbook: ${contentResponse.status}`,
-      };
-    }
-
-    // Check content type - could be XML or ZIP
-    const contentType = contentResponse.headers.get('content-type') || '';
-    let xml: string;
-
-    if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
-      // Direct XML (.twb)
-      xml = await contentResponse.text();
-    } else if (contentType.includes('application/zip') || contentType.includes('application/octet-stream')) {
-      // It's a .twbx package - extract the .twb from the ZIP
-      try {
-        const arrayBuffer = await contentResponse.arrayBuffer();
-        xml = await extractTwbFromTwbx(arrayBuffer);
-      } catch (extractError) {
-        return {
-          success: false,
-          error: `Failed to extract .twb from .twbx package: ${extractError instanceof Error ? extractError.message : String(extractError)}`,
-        };
-      }
-    } else {
-      // Try to read as text anyway
-      xml = await contentResponse.text();
-    }
-
-    // Validate it looks like Tableau XML
-    if (!xml.includes('<workbook') && !xml.includes('<?xml')) {
-      return {
-        success: false,
-        error: 'Downloaded content does not appear to be valid Tableau workbook XML',
-      };
+    const content = await fetchWorkbookContent(session, workbookId);
+    if (!content.success) {
+      return { success: false, error: content.error };
     }
+    const { xml, twbx } = content;
 
-    // Cache the workbook
-    cachedWorkbook = {
+    // Cache the workbook (re-downloading the same id replaces it)
+    const workbook: WorkbookCache = {
       workbookId,
       workbookName,
       projectId,
       projectName,
-      siteId,
+      siteId: session.siteId,
+      sessionKey,
+      source: 'server',
+      packageFiles: twbx?.packageFiles,
+      twbEntryName: twbx?.twbEntryName,
       xml,
       originalXml: xml,
+      downloadedAt: new Date(),
       lastModified: new Date(),
     };
+    workbooks.set(workbookId, workbook);
+    activeWorkbookId = workbookId;
 
     return {
       success: true,
-      workbook: cachedWorkbook,
+      workbook,
     };
   } catch (error) {
     return {
       success: false,
-      error: `Download error: ${error instanceof Error ? error.message : String(error)}`,
+      ...describeError('Download error', error),
     };
   }
 }
@@ -267,13 +518,15 @@ export async function downloadWorkbook(
  * Search for a workbook by name
  */
 export async function findWorkbook(
-  server: string,
+  sessionKey: string,
   workbookName: string,
   projectName?: string
-): Promise<{ success: boolean; workbookId?: string; workbooks?: unknown[]; error?: string }> {
-  if (!authToken || !siteId) {
+): Promise<{ success: boolean; workbookId?: string; workbooks?: unknown[]; error?: string; authError?: boolean }> {
+  const session = getSession(sessionKey);
+  if (!session) {
     return { success: false, error: 'Not authenticated' };
   }
+  const { server } = session;
 
   try {
     let filter = `name:eq:${workbookName}`;
@@ -281,10 +534,9 @@ export async function findWorkbook(
       filter += `,projectName:eq:${projectName}`;
     }
 
-    const url = `${server}/api/3.21/sites/${siteId}/workbooks?filter=${encodeURIComponent(filter)}`;
-    const response = await fetch(url, {
+    const url = `${server}/api/3.21/sites/${session.siteId}/workbooks?filter=${encodeURIComponent(filter)}`;
+    const response = await tableauFetch(session, url, {
       headers: {
-        'X-Tableau-Auth': authToken,
         'Accept': 'application/json',
       },
     });
@@ -327,192 +579,547 @@ export async function findWorkbook(
   } catch (error) {
     return {
       success: false,
-      error: `Search error: ${error instanceof Error ? error.message : String(error)}`,
+      ...describeError('Search error', error),
     };
   }
 }
 
-// ==================== XML MODIFICATION ====================
+// ==================== WORKBOOK STORE ====================
 
 /**
- * Get the currently cached workbook
+ * Get a cached workbook by id (defaults to the active workbook)
  */
-export function getCachedWorkbook(): WorkbookCache | null {
-  return cachedWorkbook;
+export function getCachedWorkbook(workbookId?: string): WorkbookCache | null {
+  return resolveWorkbook(workbookId).workbook ?? null;
 }
 
 /**
- * Update the cached workbook XML
+ * List all cached workbooks
  */
-export function updateCachedWorkbook(newXml: string): boolean {
-  if (!cachedWorkbook) {
-    return false;
+export function listCachedWorkbooks(): Array<{
+  workbookId: string;
+  workbookName: string;
+  projectName: string;
+  sessionKey: string;
+  source: 'server' | 'local';
+  filePath?: string;
+  active: boolean;
+  hasModifications: boolean;
+  downloadedAt: Date;
+  lastModified: Date;
+}> {
+  return Array.from(workbooks.values()).map(w => ({
+    workbookId: w.workbookId,
+    workbookName: w.workbookName,
+    projectName: w.projectName,
+    sessionKey: w.sessionKey,
+    source: w.source,
+    filePath: w.filePath,
+    active: w.workbookId === activeWorkbookId,
+    hasModifications: w.xml !== w.originalXml,
+    downloadedAt: w.downloadedAt,
+    lastModified: w.lastModified,
+  }));
+}
+
+/**
+ * Remove a workbook from the cache
+ */
+export function evictWorkbook(workbookId: string): boolean {
+  const removed = workbooks.delete(workbookId);
+  if (activeWorkbookId === workbookId) {
+    // Fall back to the most recently downloaded workbook still cached
+    const remaining = Array.from(workbooks.values()).sort((a, b) => b.downloadedAt.getTime() - a.downloadedAt.getTime());
+    activeWorkbookId = remaining[0]?.workbookId ?? null;
   }
-  cachedWorkbook.xml = newXml;
-  cachedWorkbook.lastModified = new Date();
-  return true;
+  return removed;
 }
 
+// ==================== LOCAL FILES ====================
+
+const WORKBOOK_EXTENSIONS = ['.twb', '.twbx'];
+
 /**
- * Apply an XML modification to the cached workbook
- * Uses simple string replacement - for complex ops, use DOMParser in browser
+ * Open a local .twb or .twbx file into the workbook cache
+ * Local workbooks are keyed "local:<absolute path>".
  */
-export function applyXmlModification(
-  searchPattern: string | RegExp,
-  replacement: string
-): { success: boolean; error?: string } {
-  if (!cachedWorkbook) {
-    return { success: false, error: 'No workbook loaded' };
+export async function openLocalWorkbook(filePath: string): Promise<DownloadResult> {
+  const absolutePath = resolve(filePath);
+  const extension = extname(absolutePath).toLowerCase();
+  if (!WORKBOOK_EXTENSIONS.includes(extension)) {
+    return { success: false, error: `Unsupported file type "${extension}". Expected .twb or .twbx` };
   }
 
+  let bytes: Uint8Array;
   try {
-    if (typeof searchPattern === 'string') {
-      if (!cachedWorkbook.xml.includes(searchPattern)) {
-        return { success: false, error: `Pattern not found: ${searchPattern.substring(0, 50)}...` };
-      }
-      cachedWorkbook.xml = cachedWorkbook.xml.replace(searchPattern, replacement);
-    } else {
-      cachedWorkbook.xml = cachedWorkbook.xml.replace(searchPattern, replacement);
-    }
-    cachedWorkbook.lastModified = new Date();
-    return { success: true };
+    bytes = await readFile(absolutePath);
   } catch (error) {
-    return {
-      success: false,
-      error: `Modification error: ${error instanceof Error ? error.message : String(error)}`,
-    };
+    return { success: false, error: `Failed to read ${absolutePath}: ${error instanceof Error ? error.message : String(error)}` };
   }
+
+  let xml: string;
+  let twbx: TwbxPackage | undefined;
+  if (extension === '.twbx') {
+    try {
+      twbx = await extractTwbFromTwbx(bytes);
+      xml = twbx.xml;
+    } catch (extractError) {
+      return {
+        success: false,
+        error: `Failed to extract .twb from .twbx package: ${extractError instanceof Error ? extractError.message : String(extractError)}`,
+      };
+    }
+  } else {
+    xml = strFromU8(bytes);
+  }
+
+  if (!xml.includes('<workbook')) {
+    return { success: false, error: `${absolutePath} does not appear to be a Tableau workbook` };
+  }
+
+  const workbookId = `local:${absolutePath}`;
+  const workbook: WorkbookCache = {
+    workbookId,
+    workbookName: basename(absolutePath, extname(absolutePath)),
+    projectId: '',
+    projectName: '',
+    siteId: '',
+    sessionKey: '',
+    source: 'local',
+    filePath: absolutePath,
+    packageFiles: twbx?.packageFiles,
+    twbEntryName: twbx?.twbEntryName,
+    xml,
+    originalXml: xml,
+    downloadedAt: new Date(),
+    lastModified: new Date(),
+  };
+  workbooks.set(workbookId, workbook);
+  activeWorkbookId = workbookId;
+
+  return { success: true, workbook };
 }
 
 /**
- * Insert XML content at a specific location
+ * Save a cached workbook to a local .twb or .twbx file
+ * A .twbx is repackaged with the original extracts and images unchanged.
+ * Without filePath, writes "<name>_modified.<ext>" next to the opened file
+ * (or in the working directory for server workbooks).
  */
-export function insertXml(
-  afterPattern: string,
-  xmlToInsert: string
-): { success: boolean; error?: string } {
-  if (!cachedWorkbook) {
-    return { success: false, error: 'No workbook loaded' };
+export async function saveLocalWorkbook(options: {
+  workbookId?: string;
+  filePath?: string;
+  overwrite?: boolean;
+}): Promise<{ success: boolean; filePath?: string; format?: 'twb' | 'twbx'; bytes?: number; error?: string }> {
+  const { workbook, error } = resolveWorkbook(options.workbookId);
+  if (!workbook) {
+    return { success: false, error };
   }
 
-  const index = cachedWorkbook.xml.indexOf(afterPattern);
-  if (index === -1) {
-    return { success: false, error: `Insertion point not found: ${afterPattern.substring(0, 50)}...` };
+  const defaultExtension = workbook.packageFiles ? '.twbx' : '.twb';
+  const targetPath = resolve(options.filePath
+    || join(workbook.filePath ? dirname(workbook.filePath) : process.cwd(), `${workbook.workbookName}_modified${defaultExtension}`));
+  const extension = extname(targetPath).toLowerCase();
+  if (!WORKBOOK_EXTENSIONS.includes(extension)) {
+    return { success: false, error: `Unsupported file type "${extension}". Expected .twb or .twbx` };
   }
 
-  const insertPosition = index + afterPattern.length;
-  cachedWorkbook.xml = 
-    cachedWorkbook.xml.substring(0, insertPosition) + 
-    '\n' + xmlToInsert + 
-    cachedWorkbook.xml.substring(insertPosition);
-  
-  cachedWorkbook.lastModified = new Date();
-  return { success: true };
+  if (!options.overwrite) {
+    const exists = await stat(targetPath).then(() => true, () => false);
+    if (exists) {
+      return { success: false, error: `${targetPath} already exists. Pass overwrite to replace it.` };
+    }
+  }
+
+  let bytes: Uint8Array;
+  if (extension === '.twbx') {
+    const twbEntryName = workbook.twbEntryName || `${basename(targetPath, extension)}.twb`;
+    bytes = packTwbx(workbook.xml, twbEntryName, workbook.packageFiles || {});
+  } else {
+    bytes = strToU8(workbook.xml);
+  }
+
+  try {
+    await writeFile(targetPath, bytes);
+  } catch (writeError) {
+    return { success: false, error: `Failed to write ${targetPath}: ${writeError instanceof Error ? writeError.message : String(writeError)}` };
+  }
+
+  return { success: true, filePath: targetPath, format: extension === '.twbx' ? 'twbx' : 'twb', bytes: bytes.length };
+}
+
+// ==================== XML MODIFICATION ====================
+
+/**
+ * Update the cached workbook XML
+ * Pass pkg to swap the packaged files too (restoring a .twbx version).
+ */
+export function updateCachedWorkbook(
+  newXml: string,
+  workbookId?: string,
+  pkg?: { twbEntryName?: string; packageFiles?: Record<string, Uint8Array> }
+): boolean {
+  const { workbook } = resolveWorkbook(workbookId);
+  if (!workbook) {
+    return false;
+  }
+  workbook.xml = newXml;
+  if (pkg) {
+    workbook.packageFiles = pkg.packageFiles;
+    workbook.twbEntryName = pkg.twbEntryName;
+  }
+  workbook.lastModified = new Date();
+  return true;
+}
+
+/**
+ * Apply structured edits to a cached workbook
+ * Edits address elements by identity (see twb/edit.ts). The batch is atomic:
+ * the cached XML only changes if every edit succeeds.
+ */
+export function applyWorkbookEdits(
+  edits: TwbEdit[],
+  workbookId?: string
+): { success: boolean; applied: string[]; error?: string } {
+  const { workbook, error } = resolveWorkbook(workbookId);
+  if (!workbook) {
+    return { success: false, applied: [], error };
+  }
+
+  const result = applyEditsToXml(workbook.xml, edits);
+  if (!result.success || result.xml === undefined) {
+    return { success: false, applied: result.applied, error: result.error };
+  }
+
+  workbook.xml = result.xml;
+  workbook.lastModified = new Date();
+  return { success: true, applied: result.applied };
 }
 
 // ==================== PUBLISH ====================
 
+// Tableau rejects single requests over 64 MB; stay under it with room for the multipart envelope
+const CHUNKED_UPLOAD_THRESHOLD = 60 * 1024 * 1024;
+const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export interface PublishProgress {
+  /** done and error are terminal - no further progress follows. error keeps the last reported bytes, total and chunked */
+  stage: 'initiate' | 'upload' | 'commit' | 'done' | 'error';
+  bytesUploaded: number;
+  totalBytes: number;
+  chunk?: number;
+  totalChunks?: number;
+  chunked: boolean;
+  /** Why the publish failed (error stage only) */
+  message?: string;
+}
+
+interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType: string;
+  content: string | Uint8Array;
+}
+
+/**
+ * Build a multipart/mixed body (Tableau's publish and upload format)
+ */
+function buildMultipart(boundary: string, parts: MultipartPart[]): Uint8Array<ArrayBuffer> {
+  const chunks: Uint8Array[] = [];
+  for (const part of parts) {
+    const disposition = `name="${part.name}"${part.filename ? `; filename="${part.filename}"` : ''}`;
+    chunks.push(strToU8(`--${boundary}\r\nContent-Disposition: ${disposition}\r\nContent-Type: ${part.contentType}\r\n\r\n`));
+    chunks.push(typeof part.content === 'string' ? strToU8(part.content) : part.content);
+    chunks.push(strToU8('\r\n'));
+  }
+  chunks.push(strToU8(`--${boundary}--\r\n`));
+
+  const body = new Uint8Array(chunks.reduce((total, c) => total + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * Upload a file in chunks through a file-upload session
+ * Returns the upload session id to pass when committing the publish.
+ */
+async function uploadInChunks(
+  session: AuthSession,
+  file: Uint8Array,
+  onProgress?: (progress: PublishProgress) => void
+): Promise<string> {
+  const baseUrl = `${session.server}/api/3.21/sites/${session.siteId}/fileUploads`;
+  const totalChunks = Math.ceil(file.length / UPLOAD_CHUNK_SIZE);
+
+  onProgress?.({ stage: 'initiate', bytesUploaded: 0, totalBytes: file.length, totalChunks, chunked: true });
+  const initResponse = await tableauFetch(session, baseUrl, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json' },
+  });
+  if (!initResponse.ok) {
+    throw new Error(`Failed to initiate upload (${initResponse.status}): ${await initResponse.text()}`);
+  }
+  const uploadSessionId: string | undefined = (await initResponse.json()).fileUpload?.uploadSessionId;
+  if (!uploadSessionId) {
+    throw new Error('Upload session response missing uploadSessionId');
+  }
+
+  for (let chunk = 0; chunk < totalChunks; chunk++) {
+    const start = chunk * UPLOAD_CHUNK_SIZE;
+    const end = Math.min(start + UPLOAD_CHUNK_SIZE, file.length);
+    const boundary = `----TableauBoundary${Date.now()}`;
+    const response = await tableauFetch(session, `${baseUrl}/${uploadSessionId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      body: buildMultipart(boundary, [
+        { name: 'request_payload', contentType: 'text/xml', content: '' },
+        { name: 'tableau_file', filename: 'file', contentType: 'application/octet-stream', content: file.subarray(start, end) },
+      ]),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to upload chunk ${chunk + 1}/${totalChunks} (${response.status}): ${await response.text()}`);
+    }
+    onProgress?.({ stage: 'upload', bytesUploaded: end, totalBytes: file.length, chunk: chunk + 1, totalChunks, chunked: true });
+  }
+
+  return uploadSessionId;
+}
+
 interface PublishResult {
   success: boolean;
   workbookId?: string;
   workbookUrl?: string;
+  /** True when nothing was published (dry run) */
+  dryRun?: boolean;
+  /** Semantic changes relative to the downloaded workbook */
+  changes?: WorkbookDiff;
+  /** Whether the workbook went up through a chunked upload session */
+  chunked?: boolean;
+  /** Versions recorded for an overwrite publish */
+  versions?: { replaced: WorkbookVersion; published: WorkbookVersion };
   error?: string;
+  /** True when the session could not be re-authenticated */
+  authError?: boolean;
 }
 
 /**
- * Publish the modified workbook back to Tableau Server/Cloud
+ * Compute the semantic changes made to a cached workbook since download
+ */
+export function getWorkbookChanges(workbookId?: string): { success: boolean; changes?: WorkbookDiff; error?: string } {
+  const { workbook, error } = resolveWorkbook(workbookId);
+  if (!workbook) {
+    return { success: false, error };
+  }
+
+  try {
+    return { success: true, changes: diffWorkbookXml(workbook.originalXml, workbook.xml) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Diff error: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Publish a modified workbook back to Tableau Server/Cloud
+ * Publishes through the session the workbook was downloaded with, unless
+ * targetSessionKey names another signed-in site (e.g. promoting dev to prod).
+ * With dryRun, returns the change report without publishing.
+ * Large workbooks are uploaded in chunks; onProgress receives each stage.
+ * Overwrites snapshot the replaced version first and abort if that fails.
  */
 export async function publishWorkbook(
-  server: string,
   options: {
+    workbookId?: string;
+    targetSessionKey?: string;
     mode: 'overwrite' | 'new';
     newName?: string;
     projectId?: string;
     description?: string;
+    dryRun?: boolean;
+    onProgress?: (progress: PublishProgress) => void;
+    /** Who is publishing (defaults to the session's PAT name) */
+    author?: string;
+    /** Why - recorded with the version snapshot */
+    reason?: string;
   }
 ): Promise<PublishResult> {
-  if (!authToken || !siteId) {
-    return { success: false, error: 'Not authenticated' };
+  const { workbook: cachedWorkbook, error } = resolveWorkbook(options.workbookId);
+  if (!cachedWorkbook) {
+    return { success: false, error };
   }
 
-  if (!cachedWorkbook) {
-    return { success: false, error: 'No workbook loaded. Use download-workbook first.' };
+  const diff = getWorkbookChanges(cachedWorkbook.workbookId);
+  if (!diff.success) {
+    return { success: false, error: diff.error };
   }
 
+  if (options.dryRun) {
+    return { success: true, dryRun: true, changes: diff.changes };
+  }
+
+  const sessionKey = options.targetSessionKey || cachedWorkbook.sessionKey;
+  if (!sessionKey) {
+    return { success: false, error: 'Local workbook has no source site. Pass server connection settings to publish it.' };
+  }
+  const session = getSession(sessionKey);
+  if (!session) {
+    return { success: false, error: `Not authenticated for ${sessionKey}`, authError: true };
+  }
+  const { server } = session;
+
+  // Overwrite replaces the same-named workbook in the target project. Only
+  // allow it to be this workbook, so the snapshot and version history are
+  // taken from - and filed under - the workbook that actually gets replaced.
+  if (options.mode === 'overwrite') {
+    if (options.newName && options.newName !== cachedWorkbook.workbookName) {
+      return { success: false, error: 'Overwrite replaces the workbook itself and cannot rename it. Use mode "new" to publish under another name.' };
+    }
+    if (options.projectId && options.projectId !== cachedWorkbook.projectId) {
+      return { success: false, error: 'Overwrite must target the project the workbook was downloaded from. Use mode "new" to publish to another project.' };
+    }
+  }
+
+  if (session.siteId !== cachedWorkbook.siteId) {
+    if (options.mode === 'overwrite') {
+      return { success: false, error: 'Overwrite must target the site the workbook was downloaded from. Use mode "new" to publish to another site.' };
+    }
+    if (!options.projectId) {
+      return { success: false, error: 'projectId is required when publishing to another site' };
+    }
+  }
+
+  // The error event repeats the last reported position, so a client's
+  // progress bar stops where the upload failed instead of resetting
+  let lastProgress: Pick<PublishProgress, 'bytesUploaded' | 'totalBytes' | 'chunked'> = { bytesUploaded: 0, totalBytes: 0, chunked: false };
+  const reportProgress = (progress: PublishProgress) => {
+    lastProgress = { bytesUploaded: progress.bytesUploaded, totalBytes: progress.totalBytes, chunked: progress.chunked };
+    options.onProgress?.(progress);
+  };
+
   try {
     const workbookName = options.newName || cachedWorkbook.workbookName;
     const projectId = options.projectId || cachedWorkbook.projectId;
+    const overwrite = options.mode === 'overwrite';
+    const versionEntry = {
+      workbookId: cachedWorkbook.workbookId,
+      workbookName: cachedWorkbook.workbookName,
+      author: options.author || session.patName,
+      reason: options.reason,
+      sessionKey,
+    };
+
+    // Snapshot what the server has right now before replacing it - not the
+    // cached originalXml, which misses anything published since the download
+    let replaced: WorkbookVersion | undefined;
+    if (overwrite) {
+      const current = await fetchWorkbookContent(session, cachedWorkbook.workbookId);
+      if (!current.success) {
+        return { success: false, error: `Failed to snapshot the current version, nothing was published: ${current.error}` };
+      }
+      try {
+        replaced = await saveVersion({ ...versionEntry, kind: 'pre-publish' }, current.twbx ?? { xml: current.xml });
+      } catch (versionError) {
+        return {
+          success: false,
+          error: `Failed to snapshot the current version, nothing was published: ${versionError instanceof Error ? versionError.message : String(versionError)}`,
+        };
+      }
+    }
     
-    // Build multipart form data
-    // Tableau REST API requires multipart upload for workbooks
-    const boundary = `----TableauBoundary${Date.now()}`;
-    
+    // Packaged workbooks keep their extracts and images
+    const workbookType = cachedWorkbook.packageFiles ? 'twbx' : 'twb';
+    const file = cachedWorkbook.packageFiles
+      ? packTwbx(cachedWorkbook.xml, cachedWorkbook.twbEntryName || `${workbookName}.twb`, cachedWorkbook.packageFiles)
+      : strToU8(cachedWorkbook.xml);
+    const chunked = file.length > CHUNKED_UPLOAD_THRESHOLD;
+
     // Workbook metadata (request_payload)
-    const requestPayload = {
+    const requestPayload = JSON.stringify({
       workbook: {
         name: workbookName,
         project: { id: projectId },
         ...(options.description ? { description: options.description } : {}),
       },
-    };
+    });
 
-    // Build multipart body
-    let body = '';
-    
-    // Request payload part
-    body += `--${boundary}\r\n`;
-    body += 'Content-Disposition: name="request_payload"\r\n';
-    body += 'Content-Type: application/json\r\n\r\n';
-    body += JSON.stringify(requestPayload);
-    body += '\r\n';
-    
-    // Workbook content part
-    body += `--${boundary}\r\n`;
-    body += `Content-Disposition: name="tableau_workbook"; filename="${workbookName}.twb"\r\n`;
-    body += 'Content-Type: application/octet-stream\r\n\r\n';
-    body += cachedWorkbook.xml;
-    body += '\r\n';
-    body += `--${boundary}--\r\n`;
-
-    // Determine URL based on mode
-    let url: string;
-    if (options.mode === 'overwrite') {
-      // PUT to update existing workbook
-      url = `${server}/api/3.21/sites/${siteId}/workbooks/${cachedWorkbook.workbookId}?overwrite=true`;
+    // Overwrite replaces the workbook with the same name in the target project
+    let url = `${server}/api/3.21/sites/${session.siteId}/workbooks?workbookType=${workbookType}&overwrite=${overwrite}`;
+    const parts: MultipartPart[] = [
+      { name: 'request_payload', contentType: 'application/json', content: requestPayload },
+    ];
+
+    if (chunked) {
+      const uploadSessionId = await uploadInChunks(session, file, reportProgress);
+      url += `&uploadSessionId=${uploadSessionId}`;
     } else {
-      // POST to create new workbook
-      url = `${server}/api/3.21/sites/${siteId}/workbooks?overwrite=false`;
+      // Tableau REST API requires multipart upload for workbooks
+      parts.push({
+        name: 'tableau_workbook',
+        filename: `${workbookName}.${workbookType}`,
+        contentType: 'application/octet-stream',
+        content: file,
+      });
     }
 
-    const response = await fetch(url, {
-      method: options.mode === 'overwrite' ? 'PUT' : 'POST',
+    reportProgress({ stage: 'commit', bytesUploaded: chunked ? file.length : 0, totalBytes: file.length, chunked });
+    const boundary = `----TableauBoundary${Date.now()}`;
+    const response = await tableauFetch(session, url, {
+      method: 'POST',
       headers: {
-        'X-Tableau-Auth': authToken,
+        'Accept': 'application/json',
         'Content-Type': `multipart/mixed; boundary=${boundary}`,
       },
-      body,
+      body: buildMultipart(boundary, parts),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      return {
-        success: false,
-        error: `Publish failed (${response.status}): ${errorText}`,
-      };
+      const message = `Publish failed (${response.status}): ${errorText}`;
+      reportProgress({ stage: 'error', ...lastProgress, message });
+      return { success: false, error: message };
     }
 
     const data = await response.json();
     const publishedWorkbook = data.workbook;
+    reportProgress({ stage: 'done', bytesUploaded: file.length, totalBytes: file.length, chunked });
+
+    // The server now has the published XML - record it and make it the new baseline
+    let versions: PublishResult['versions'];
+    if (overwrite && replaced) {
+      const publishedXml = cachedWorkbook.xml;
+      cachedWorkbook.originalXml = publishedXml;
+      try {
+        const published = await saveVersion({ ...versionEntry, kind: 'published' }, {
+          xml: publishedXml,
+          twbEntryName: cachedWorkbook.twbEntryName,
+          packageFiles: cachedWorkbook.packageFiles,
+        });
+        versions = { replaced, published };
+      } catch (versionError) {
+        console.error('[Versions] Failed to record published version:', versionError);
+      }
+    }
 
     return {
       success: true,
       workbookId: publishedWorkbook?.id,
       workbookUrl: publishedWorkbook?.webpageUrl,
+      changes: diff.changes,
+      chunked,
+      versions,
     };
   } catch (error) {
+    const failure = describeError('Publish error', error);
+    reportProgress({ stage: 'error', ...lastProgress, message: failure.error });
     return {
       success: false,
-      error: `Publish error: ${error instanceof Error ? error.message : String(error)}`,
+      ...failure,
     };
   }
 }
@@ -520,9 +1127,10 @@ export async function publishWorkbook(
 /**
  * Get the modified workbook XML for local download
  */
-export function getWorkbookXml(): { success: boolean; xml?: string; filename?: string; error?: string } {
+export function getWorkbookXml(workbookId?: string): { success: boolean; xml?: string; filename?: string; error?: string } {
+  const { workbook: cachedWorkbook, error } = resolveWorkbook(workbookId);
   if (!cachedWorkbook) {
-    return { success: false, error: 'No workbook loaded' };
+    return { success: false, error };
   }
 
   return {
@@ -535,39 +1143,46 @@ export function getWorkbookXml(): { success: boolean; xml?: string; filename?: s
 /**
  * Check if there are unsaved modifications
  */
-export function hasModifications(): boolean {
-  if (!cachedWorkbook) return false;
-  return cachedWorkbook.xml !== cachedWorkbook.originalXml;
+export function hasModifications(workbookId?: string): boolean {
+  const { workbook } = resolveWorkbook(workbookId);
+  if (!workbook) return false;
+  return workbook.xml !== workbook.originalXml;
 }
 
 /**
- * Get a summary of the cached workbook
+ * Get a summary of a cached workbook (defaults to the active workbook)
  */
-export function getWorkbookSummary(): {
+export function getWorkbookSummary(workbookId?: string): {
   loaded: boolean;
   workbookId?: string;
   workbookName?: string;
   projectName?: string;
+  sessionKey?: string;
   hasModifications?: boolean;
   lastModified?: Date;
+  cachedWorkbooks: number;
 } {
-  if (!cachedWorkbook) {
-    return { loaded: false };
+  const { workbook } = resolveWorkbook(workbookId);
+  if (!workbook) {
+    return { loaded: false, cachedWorkbooks: workbooks.size };
   }
 
   return {
     loaded: true,
-    workbookId: cachedWorkbook.workbookId,
-    workbookName: cachedWorkbook.workbookName,
-    projectName: cachedWorkbook.projectName,
-    hasModifications: cachedWorkbook.xml !== cachedWorkbook.originalXml,
-    lastModified: cachedWorkbook.lastModified,
+    workbookId: workbook.workbookId,
+    workbookName: workbook.workbookName,
+    projectName: workbook.projectName,
+    sessionKey: workbook.sessionKey,
+    hasModifications: workbook.xml !== workbook.originalXml,
+    lastModified: workbook.lastModified,
+    cachedWorkbooks: workbooks.size,
   };
 }
 
 /**
- * Clear the cached workbook
+ * Clear all cached workbooks
  */
 export function clearCache(): void {
-  cachedWorkbook = null;
+  workbooks.clear();
+  activeWorkbookId = null;
 }
@@ -6,12 +6,32 @@
  * 
  * ARCHITECTURE:
  * 1. Classify intent from user message (lightweight, no LLM needed)
- * 2. Return only tools relevant to that intent category
- * 3. Cache converted tool formats (OpenAI/Anthropic) for reuse
+ * 2. If no regex pattern is confident, fall back to a local TF-IDF
+ *    classifier trained on tool descriptions and example requests
+ * 3. Return only tools relevant to that intent category
+ * 4. Cache converted tool formats (OpenAI/Anthropic) for reuse
+ *
+ * FALLBACK:
+ * Below DASHAGENT_ROUTER_MIN_CONFIDENCE (default 0.75) the TF-IDF classifier
+ * picks up to two categories. Each fallback decision is appended to
+ * DASHAGENT_ROUTER_LOG (default ~/.dashagent/router-decisions.jsonl) so
+ * misses can be turned into patterns or CATEGORY_EXAMPLES later. Messages
+ * are stored as SHA-256 hashes unless DASHAGENT_ROUTER_LOG_MESSAGES=1, and
+ * the log rotates like the audit log (DASHAGENT_ROUTER_LOG_MAX_MB, default
+ * 10, and DASHAGENT_ROUTER_LOG_MAX_FILES, default 5).
+ *
+ * DISCOVERY:
+ * Every routed tool list also carries request-tool-categories, so a model
+ * that got the wrong tools can ask for more categories mid-chat. The chat
+ * loop adds them for its next turn; each request is logged as a routing miss.
  */
 
+import { homedir } from 'os';
+import { join } from 'path';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { tools } from './tools/index.js';
+import { createTfidfClassifier, TfidfClassifier } from './intent-classifier.js';
+import { appendRotated, hashMessage } from './audit-log.js';
 
 // ==================== TOOL CATEGORIES ====================
 // Each category maps intent patterns to the tools needed
@@ -68,8 +88,16 @@ const TOOL_CATEGORIES: Record<ToolCategory, string[]> = {
   // Workbook management - download/modify/publish
   workbook: [
     'download-workbook',
+    'open-local-workbook',
+    'save-local-workbook',
+    'list-workbooks',
     'modify-workbook',
+    'compare-workbooks',
+    'close-workbook',
     'publish-workbook',
+    'list-workbook-versions',
+    'diff-workbook-versions',
+    'rollback-workbook',
     'apply-design-recommendations',
     'parse-workbook-xml',
     'generate-documentation',
@@ -79,6 +107,9 @@ const TOOL_CATEGORIES: Record<ToolCategory, string[]> = {
   utility: [
     'check-connection',
     'clear-canvas',
+    'get-usage-report',
+    'get-audit-log',
+    'explain-tool-routing',
   ],
   
   // Core - default subset for general/unclear queries
@@ -153,11 +184,17 @@ const INTENT_PATTERNS: Array<{ pattern: RegExp; category: ToolCategory; weight:
   { pattern: /download|fetch.*workbook|get.*workbook/i, category: 'workbook', weight: 0.9 },
   { pattern: /publish|upload|save.*to.*server/i, category: 'workbook', weight: 0.9 },
   { pattern: /modify|change.*workbook|update.*xml/i, category: 'workbook', weight: 0.85 },
+  { pattern: /\.twbx?\b|local.*(file|workbook)|open.*file|save.*(file|twb|disk)/i, category: 'workbook', weight: 0.9 },
+  { pattern: /version|history|rollback|roll back|revert|restore/i, category: 'workbook', weight: 0.85 },
+  { pattern: /compare.*workbooks?|diff.*workbooks?|dev.*prod|prod.*dev/i, category: 'workbook', weight: 0.85 },
   { pattern: /document|documentation|describe.*dashboard/i, category: 'workbook', weight: 0.8 },
   
   // Utility patterns
   { pattern: /connect|check.*connection|status/i, category: 'utility', weight: 0.9 },
   { pattern: /clear|reset|clean/i, category: 'utility', weight: 0.7 },
+  { pattern: /\b(token usage|usage report|cost|spen(d|ding|t)|budget)\b/i, category: 'utility', weight: 0.8 },
+  { pattern: /tool.*rout|rout(ed|ing).*tool|which tools/i, category: 'utility', weight: 0.8 },
+  { pattern: /audit (log|trail)|activity log|what (did|have) you (do|done|change|changed)/i, category: 'utility', weight: 0.8 },
 ];
 
 /**
@@ -169,78 +206,255 @@ const NEGATIVE_PATTERNS: Array<{ pattern: RegExp; blockedCategories: ToolCategor
   { pattern: /tableau.*story|story.*point|storypoint/i, blockedCategories: ['dashboard'] },
   // "Published dashboard" queries should not trigger build-dashboard
   { pattern: /publish|published.*dashboard|server.*dashboard/i, blockedCategories: ['dashboard'] },
+  // The audit log is a record of agent actions, not a design audit
+  { pattern: /audit (log|trail)/i, blockedCategories: ['vision'] },
 ];
 
+// ==================== FALLBACK CLASSIFICATION ====================
+// TF-IDF over tool descriptions, for messages no pattern is confident about
+
+/**
+ * Example requests per category, added to the tool descriptions the fallback
+ * classifier is trained on. Add phrasings from the router log that routed badly.
+ */
+const CATEGORY_EXAMPLES: Partial<Record<ToolCategory, string[]>> = {
+  vision: [
+    'does this dashboard look good',
+    'is the layout cluttered',
+    'are the fonts and spacing consistent',
+    'rate the visual design of my dashboard',
+  ],
+  dashboard: [
+    'make a chart of sales over time',
+    'plot revenue by month',
+    'give me a scorecard for the executives',
+    'put this on a one page summary',
+  ],
+  analysis: [
+    'which reps underperformed last quarter',
+    'who are our best customers',
+    'why did profit drop in march',
+    'what drove growth this year',
+    'how are sales doing compared to last year',
+    'which products are losing money',
+    'find outliers and anomalies in the numbers',
+    'rank regions by margin',
+  ],
+  interaction: [
+    'only show the west region',
+    'exclude returns from the view',
+    'switch the view to 2023',
+    'change the date range to last month',
+  ],
+  workbook: [
+    'save my changes to the server',
+    'rename the calculated field',
+    'add a calculation to the workbook',
+    'undo the last change to the workbook',
+  ],
+  utility: [
+    'is the extension connected',
+    'how much have we spent on the model today',
+    'show the audit log of what the agent changed',
+  ],
+};
+
+// The default set and utility (always included) aren't predicted
+const FALLBACK_CATEGORIES: ToolCategory[] = ['vision', 'dashboard', 'analysis', 'interaction', 'workbook'];
+const FALLBACK_MIN_SCORE = 0.15;
+const FALLBACK_MAX_CATEGORIES = 2;
+
+let fallbackClassifier: TfidfClassifier<ToolCategory> | null = null;
+
+function getFallbackClassifier(): TfidfClassifier<ToolCategory> {
+  if (!fallbackClassifier) {
+    const documents = {} as Record<ToolCategory, string[]>;
+    for (const category of FALLBACK_CATEGORIES) {
+      const categoryTools = tools.filter(tool => TOOL_CATEGORIES[category].includes(tool.name));
+      documents[category] = [
+        ...categoryTools.map(tool => `${tool.name.replace(/-/g, ' ')} ${tool.description || ''}`),
+        ...(CATEGORY_EXAMPLES[category] || []),
+      ];
+    }
+    fallbackClassifier = createTfidfClassifier(documents);
+  }
+  return fallbackClassifier;
+}
+
+function minRegexConfidence(): number {
+  const value = parseFloat(process.env.DASHAGENT_ROUTER_MIN_CONFIDENCE || '');
+  return value >= 0 && value <= 1 ? value : 0.75;
+}
+
+/**
+ * Append a fallback decision to the router log
+ */
+function logRouterDecision(decision: {
+  message: string;
+  hasImage: boolean;
+  regexMatches: IntentMatch[];
+  fallbackScores: Array<{ category: ToolCategory; score: number }>;
+  categories: ToolCategory[];
+}): void {
+  const { message, ...rest } = decision;
+  logRouterEntry({ type: 'fallback', ...loggedMessage(message), ...rest });
+}
+
+/**
+ * The message as the router log stores it: a hash, or the first 200
+ * characters when DASHAGENT_ROUTER_LOG_MESSAGES=1
+ */
+function loggedMessage(message: string): { message: string } | { messageHash: string } {
+  return process.env.DASHAGENT_ROUTER_LOG_MESSAGES === '1'
+    ? { message: message.substring(0, 200) }
+    : { messageHash: hashMessage(message) };
+}
+
+// Writes are queued so rotation never races an append
+let routerLogQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Append to the router log (best effort, never blocks routing)
+ */
+function logRouterEntry(entry: Record<string, unknown>): void {
+  const file = process.env.DASHAGENT_ROUTER_LOG || join(homedir(), '.dashagent', 'router-decisions.jsonl');
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry }) + '\n';
+  const limits = {
+    maxBytes: (parseFloat(process.env.DASHAGENT_ROUTER_LOG_MAX_MB || '') || 10) * 1024 * 1024,
+    maxFiles: parseInt(process.env.DASHAGENT_ROUTER_LOG_MAX_FILES || '', 10) || 5,
+  };
+  routerLogQueue = routerLogQueue
+    .then(() => appendRotated(file, line, limits))
+    .catch(error => console.error(`[Tool Router] Failed to write ${file}:`, error));
+}
+
+/**
+ * How a message was routed (see explainRouting)
+ */
+export interface RoutingExplanation {
+  /** NEGATIVE_PATTERNS that matched, with the categories they block */
+  negativeMatches: Array<{ pattern: string; blockedCategories: ToolCategory[] }>;
+  blockedCategories: ToolCategory[];
+  /** INTENT_PATTERNS that matched, best first - blocked ones are kept and marked */
+  patternMatches: Array<{ pattern: string; category: ToolCategory; weight: number; confidence: number; blocked: boolean }>;
+  /** Set when no pattern reached DASHAGENT_ROUTER_MIN_CONFIDENCE */
+  fallback?: { minConfidence: number; scores: Array<{ category: ToolCategory; score: number }>; picked: ToolCategory[] };
+  /** Vision was added for an attached image plus a design keyword */
+  imageVision: boolean;
+  /** Categories chosen for the message's intent (without the always-included utility) */
+  intentCategories: ToolCategory[];
+  categories: ToolCategory[];
+}
+
 /**
  * Classify user message intent to determine which tool category to use
  */
-function classifyIntent(message: string, hasImage: boolean): IntentMatch[] {
+function classifyIntent(message: string, hasImage: boolean): {
+  matches: IntentMatch[];
+  negativeMatches: RoutingExplanation['negativeMatches'];
+  patternMatches: RoutingExplanation['patternMatches'];
+  blockedCategories: Set<ToolCategory>;
+} {
   const matches: IntentMatch[] = [];
+  const patternMatches: RoutingExplanation['patternMatches'] = [];
   
   // Debug: Log the message being classified
   console.error(`[Tool Router] Classifying: "${message.substring(0, 80)}..." hasImage=${hasImage}`);
   
   // Check for negative patterns first
   const blockedCategories = new Set<ToolCategory>();
+  const negativeMatches: RoutingExplanation['negativeMatches'] = [];
   for (const { pattern, blockedCategories: blocked } of NEGATIVE_PATTERNS) {
     if (pattern.test(message)) {
       blocked.forEach(cat => blockedCategories.add(cat));
+      negativeMatches.push({ pattern: pattern.source, blockedCategories: blocked });
     }
   }
   
   for (const { pattern, category, weight } of INTENT_PATTERNS) {
     if (pattern.test(message)) {
       console.error(`[Tool Router] Pattern matched: ${pattern.source} -> ${category}`);
-      // Skip if this category is blocked by negative patterns
-      if (blockedCategories.has(category)) {
-        console.log(`[ToolRouter] Category '${category}' blocked by negative pattern`);
-        continue;
-      }
       
       // Boost vision category if we have an image
       const confidence = (category === 'vision' && hasImage) 
         ? Math.min(weight + 0.15, 1.0)
         : weight;
       
+      // Skip if this category is blocked by negative patterns
+      const blocked = blockedCategories.has(category);
+      patternMatches.push({ pattern: pattern.source, category, weight, confidence, blocked });
+      if (blocked) {
+        console.error(`[Tool Router] Category '${category}' blocked by negative pattern`);
+        continue;
+      }
+      
       matches.push({ category, confidence });
     }
   }
   
   // Sort by confidence descending
   matches.sort((a, b) => b.confidence - a.confidence);
+  patternMatches.sort((a, b) => b.confidence - a.confidence);
   
-  return matches;
+  return { matches, negativeMatches, patternMatches, blockedCategories };
 }
 
 /**
- * Get tool categories for a request
- * Returns primary category + any secondary categories that might be needed
+ * Route a message to tool categories, recording each decision.
+ * Fallback decisions go to the router log only for real requests.
  */
-export function getCategoriesForRequest(message: string, hasImage: boolean): ToolCategory[] {
-  const matches = classifyIntent(message, hasImage);
+function routeMessage(message: string, hasImage: boolean, logDecision: boolean): RoutingExplanation {
+  const { matches, negativeMatches, patternMatches, blockedCategories } = classifyIntent(message, hasImage);
   
   console.error(`[Tool Router] Intent matches: ${matches.length} - ${JSON.stringify(matches)}`);
   
   const categories: ToolCategory[] = [];
   
-  if (matches.length === 0) {
-    // No clear match - use core subset as base
-    console.error(`[Tool Router] No pattern matches, starting with core`);
-    categories.push('core');
-  } else {
+  if (matches.length > 0) {
     const primaryCategory = matches[0].category;
     categories.push(primaryCategory);
     
     // Add secondary categories if confidence is high enough
     for (let i = 1; i < matches.length && i < 2; i++) {
-      if (matches[i].confidence >= 0.7) {
+      if (matches[i].confidence >= 0.7 && !categories.includes(matches[i].category)) {
         categories.push(matches[i].category);
       }
     }
   }
   
+  // Low regex confidence - ask the TF-IDF classifier as well
+  let fallback: RoutingExplanation['fallback'];
+  const minConfidence = minRegexConfidence();
+  if (matches.length === 0 || matches[0].confidence < minConfidence) {
+    const fallbackScores = getFallbackClassifier().classify(message).filter(({ label }) => !blockedCategories.has(label));
+    const topScore = fallbackScores[0]?.score ?? 0;
+    const picked: ToolCategory[] = [];
+    for (const { label, score } of fallbackScores.slice(0, FALLBACK_MAX_CATEGORIES)) {
+      if (score >= FALLBACK_MIN_SCORE && score >= topScore * 0.6 && !categories.includes(label)) {
+        categories.push(label);
+        picked.push(label);
+      }
+    }
+    console.error(`[Tool Router] Low regex confidence, fallback scores: ${JSON.stringify(fallbackScores.slice(0, 3))}`);
+    fallback = {
+      minConfidence,
+      scores: fallbackScores.map(({ label, score }) => ({ category: label, score: Math.round(score * 1000) / 1000 })),
+      picked,
+    };
+    
+    if (categories.length === 0) {
+      // No clear match - use core subset as base
+      console.error(`[Tool Router] No confident match, starting with core`);
+      categories.push('core');
+    }
+    if (logDecision) {
+      logRouterDecision({ message, hasImage, regexMatches: matches, fallbackScores: fallback.scores, categories: [...categories] });
+    }
+  }
+  
   // If user has an image AND is talking about design/dashboard, include vision tools
   // This allows analyze-design to be available when they have a screenshot
+  let imageVision = false;
   if (hasImage && !categories.includes('vision')) {
     const lowerMessage = message.toLowerCase();
     if (lowerMessage.includes('design') || lowerMessage.includes('dashboard') || 
@@ -250,15 +464,47 @@ export function getCategoriesForRequest(message: string, hasImage: boolean): Too
         lowerMessage.includes('accessibility') || lowerMessage.includes('contrast')) {
       console.error(`[Tool Router] hasImage=true + design keyword detected, adding vision category`);
       categories.push('vision');
+      imageVision = true;
     }
   }
   
+  const intentCategories = [...categories];
+  
   // Always include utility for basic operations
   if (!categories.includes('utility')) {
     categories.push('utility');
   }
   
-  return categories;
+  return {
+    negativeMatches,
+    blockedCategories: Array.from(blockedCategories),
+    patternMatches,
+    fallback,
+    imageVision,
+    intentCategories,
+    categories,
+  };
+}
+
+/**
+ * Get tool categories for a request
+ * Returns primary category + any secondary categories that might be needed
+ */
+export function getCategoriesForRequest(message: string, hasImage: boolean): ToolCategory[] {
+  return routeMessage(message, hasImage, true).categories;
+}
+
+/**
+ * Explain why a message routes where it does: matched and blocked patterns,
+ * the fallback classifier's scores and the tools getToolsForRequest returns.
+ * Doesn't write to the router log.
+ */
+export function explainRouting(message: string, hasImage: boolean): RoutingExplanation & { tools: string[] } {
+  const explanation = routeMessage(message, hasImage, false);
+  return {
+    ...explanation,
+    tools: [...getToolsForCategories(explanation.categories), TOOL_DISCOVERY_TOOL].map(tool => tool.name),
+  };
 }
 
 // ==================== TOOL FILTERING ====================
@@ -285,7 +531,80 @@ export function getToolsForCategories(categories: ToolCategory[]): Tool[] {
 export function getToolsForRequest(message: string, hasImage: boolean): Tool[] {
   const categories = getCategoriesForRequest(message, hasImage);
   console.error(`[Tool Router] Categories: ${categories.join(', ')} for: "${message.substring(0, 50)}..."`);
-  return getToolsForCategories(categories);
+  return [...getToolsForCategories(categories), TOOL_DISCOVERY_TOOL];
+}
+
+// ==================== TOOL DISCOVERY ====================
+// Lets the model recover when routing guessed wrong
+
+const DISCOVERABLE_CATEGORIES: ToolCategory[] = ['vision', 'dashboard', 'analysis', 'interaction', 'workbook', 'utility'];
+
+/**
+ * Meta-tool offered with every routed tool list. Handled by the chat loop,
+ * not by handleToolCall, and not listed to MCP clients (they see every tool).
+ */
+export const TOOL_DISCOVERY_TOOL: Tool = {
+  name: 'request-tool-categories',
+  description: `Ask for more tools when none of the tools you have can do what the user asked. The tools are available from your next step. Categories:
+- vision: design review of dashboard screenshots (layout, color, accessibility, Iron Viz)
+- dashboard: build and render dashboards and charts, color palettes, data stories
+- analysis: analyze the dashboard's worksheet data, segments, concentration, agentic workflows
+- interaction: apply filters, set parameters, capture screenshots
+- workbook: download, open, modify, compare, version and publish workbooks (.twb/.twbx)
+- utility: connection status, clearing the canvas, usage, audit and routing reports`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      categories: {
+        type: 'array',
+        items: { type: 'string', enum: DISCOVERABLE_CATEGORIES },
+        description: 'Categories of tools to add',
+      },
+      reason: {
+        type: 'string',
+        description: 'What the user asked for that the current tools can\'t do',
+      },
+    },
+    required: ['categories'],
+  },
+};
+
+let routingMisses = 0;
+
+/**
+ * Add the tools of requested categories to a chat's tool list, logging the
+ * request as a routing miss. Returns the expanded list and what was added.
+ */
+export function expandToolsForRequest(
+  current: Tool[],
+  requested: string[],
+  context: { message: string; hasImage: boolean; reason?: string }
+): { tools: Tool[]; addedCategories: ToolCategory[]; addedTools: string[]; unknownCategories: string[] } {
+  const unknownCategories = requested.filter(category => !DISCOVERABLE_CATEGORIES.includes(category as ToolCategory));
+  const categories = requested.filter(category => DISCOVERABLE_CATEGORIES.includes(category as ToolCategory)) as ToolCategory[];
+
+  const have = new Set(current.map(tool => tool.name));
+  const added = getToolsForCategories(categories).filter(tool => !have.has(tool.name));
+  const addedCategories = categories.filter(category => TOOL_CATEGORIES[category].some(name => !have.has(name)));
+
+  routingMisses++;
+  console.error(`[Tool Router] Model requested ${requested.join(', ')} - adding ${added.length} tools${context.reason ? ` (${context.reason})` : ''}`);
+  logRouterEntry({
+    type: 'miss',
+    ...loggedMessage(context.message),
+    hasImage: context.hasImage,
+    routedTools: current.map(tool => tool.name),
+    requestedCategories: requested,
+    addedTools: added.map(tool => tool.name),
+    reason: context.reason,
+  });
+
+  return {
+    tools: [...current, ...added],
+    addedCategories,
+    addedTools: added.map(tool => tool.name),
+    unknownCategories,
+  };
 }
 
 // ==================== CACHED TOOL FORMATS ====================
@@ -408,6 +727,7 @@ export function getRouterStats(): {
   totalTools: number; 
   categories: Record<string, number>;
   cacheSize: number;
+  routingMisses: number;
 } {
   const categoryStats: Record<string, number> = {};
   for (const [category, toolNames] of Object.entries(TOOL_CATEGORIES)) {
@@ -418,5 +738,6 @@ export function getRouterStats(): {
     totalTools: tools.length,
     categories: categoryStats,
     cacheSize: toolCache.size,
+    routingMisses,
   };
 }
@@ -7,7 +7,7 @@
  * - HTML rendering
  * - Screenshot capture
  * 
- * TOOL CATEGORIES (26 tools total):
+ * TOOL CATEGORIES (41 tools total):
  * 
  * 📊 DATA ANALYSIS (6 tools):
  * - analyze-dashboard-smart: Primary analysis tool with 5 modes
@@ -43,8 +43,26 @@
  * 📄 DOCUMENTATION (1 tool):
  * - generate-documentation: Create dashboard docs
  * 
- * 🛠️ UTILITY (4 tools):
+ * 📦 WORKBOOK (12 tools):
+ * - download-workbook: Download a workbook from Tableau Server/Cloud
+ * - open-local-workbook: Open a local .twb/.twbx file
+ * - save-local-workbook: Save a cached workbook to a local .twb/.twbx file
+ * - list-workbooks: List cached workbooks and signed-in sites
+ * - parse-workbook-xml: Parse workbook XML into a structured model
+ * - modify-workbook: Apply identity-based edits to a cached workbook
+ * - compare-workbooks: Semantic diff between two cached workbooks
+ * - close-workbook: Remove a workbook from the cache
+ * - publish-workbook: Publish a workbook back to the server
+ * - list-workbook-versions: List snapshots recorded by overwrite publishes
+ * - diff-workbook-versions: Semantic diff between two versions
+ * - rollback-workbook: Republish an older version
+ * 
+ * 🛠️ UTILITY (8 tools):
  * - check-connection: Check extension connection
+ * - manage-extension-tokens: Pairing codes and per-extension token revocation
+ * - get-usage-report: LLM token usage, cost and daily budgets
+ * - get-audit-log: Search the audit log of tool calls, guardrail flags and extension actions
+ * - explain-tool-routing: Why a message routes to the tools it does
  * - clear-canvas: Clear extension canvas
  * - render-component: Render custom HTML
  * - agentic-analyst: AI workflow orchestrator
@@ -62,9 +80,40 @@ import {
   analyzeDataQuality,
   DataQualityReport,
 } from '../analysis/data-quality.js';
-
-// Optional TWB helper module (refactor placeholder)
-// import { parseWorkbookXml, getWorkbookSummary } from '../twb/index.js';
+import {
+  authenticate,
+  findWorkbook,
+  downloadWorkbook,
+  applyWorkbookEdits,
+  publishWorkbook,
+  getCachedWorkbook,
+  getWorkbookSummary,
+  listCachedWorkbooks,
+  listSessions,
+  evictWorkbook,
+  openLocalWorkbook,
+  saveLocalWorkbook,
+  updateCachedWorkbook,
+  PublishProgress,
+} from '../tableau-rest-api.js';
+import {
+  listVersions,
+  getVersion,
+} from '../workbook-versions.js';
+import {
+  parseWorkbookXml,
+  diffWorkbookXml,
+  TwbWorkbook,
+  TwbEdit,
+  TWB_EDIT_OPS,
+  validateTwbEdits,
+} from '../twb/index.js';
+import { listClientTokens, revokeClientToken } from '../client-auth.js';
+import { getProvider, ModelConfig } from '../providers/index.js';
+import { explainRouting } from '../tool-router.js';
+import { checkToolPolicy, sanitizeHtml } from '../guardrails.js';
+import { recordUsage, queryUsage, getBudgetStatus, callerKey, USAGE_GROUP_BY, UsageGroupBy } from '../usage-ledger.js';
+import { recordAudit, queryAudit, withAuditContext, getAuditSource, AUDIT_EVENTS, AUDIT_STATUSES, AuditEvent, AuditStatus } from '../audit-log.js';
 
 // ==================== CACHED SCREENSHOT ====================
 // Store screenshot temporarily to avoid passing huge base64 through LLM context
@@ -86,23 +135,11 @@ function getCachedScreenshotImage(): string | null {
 
 // ==================== CACHED API KEYS ====================
 // Store API keys and vision model from extension for use in tool handlers (e.g., vision calls)
-interface VisionModelConfig {
-  provider: 'openai' | 'anthropic';
-  model: string;
-  apiKey: string;
-}
-
-interface GenerationModelConfig {
-  provider: 'openai' | 'anthropic';
-  model: string;
-  apiKey: string;
-}
-
 interface CachedApiKeys {
   openaiApiKey?: string;
   anthropicApiKey?: string;
-  visionModelConfig?: VisionModelConfig;  // User-selected vision model
-  generationModelConfig?: GenerationModelConfig;  // User-selected generation model
+  visionModelConfig?: ModelConfig;  // User-selected vision model
+  generationModelConfig?: ModelConfig;  // User-selected generation model
   timestamp: number;
 }
 let cachedApiKeys: CachedApiKeys | null = null;
@@ -111,8 +148,8 @@ const API_KEY_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
 export function setCachedApiKeys(
   openaiKey?: string, 
   anthropicKey?: string, 
-  visionConfig?: VisionModelConfig,
-  generationConfig?: GenerationModelConfig
+  visionConfig?: ModelConfig,
+  generationConfig?: ModelConfig
 ): void {
   cachedApiKeys = {
     openaiApiKey: openaiKey,
@@ -123,16 +160,18 @@ export function setCachedApiKeys(
   };
 }
 
-function getCachedApiKey(provider: 'openai' | 'anthropic'): string | null {
+function getCachedApiKey(provider: string): string | null {
   if (!cachedApiKeys) return null;
   if (Date.now() - cachedApiKeys.timestamp > API_KEY_CACHE_TTL) {
     cachedApiKeys = null;
     return null;
   }
-  return provider === 'openai' ? cachedApiKeys.openaiApiKey || null : cachedApiKeys.anthropicApiKey || null;
+  if (provider === 'openai') return cachedApiKeys.openaiApiKey || null;
+  if (provider === 'anthropic') return cachedApiKeys.anthropicApiKey || null;
+  return null;
 }
 
-function getCachedVisionModel(): VisionModelConfig | null {
+function getCachedVisionModel(): ModelConfig | null {
   if (!cachedApiKeys?.visionModelConfig) return null;
   if (Date.now() - cachedApiKeys.timestamp > API_KEY_CACHE_TTL) {
     return null;
@@ -140,7 +179,7 @@ function getCachedVisionModel(): VisionModelConfig | null {
   return cachedApiKeys.visionModelConfig;
 }
 
-function getCachedGenerationModel(): GenerationModelConfig | null {
+function getCachedGenerationModel(): ModelConfig | null {
   if (!cachedApiKeys?.generationModelConfig) return null;
   if (Date.now() - cachedApiKeys.timestamp > API_KEY_CACHE_TTL) {
     return null;
@@ -148,6 +187,71 @@ function getCachedGenerationModel(): GenerationModelConfig | null {
   return cachedApiKeys.generationModelConfig;
 }
 
+// ==================== TABLEAU CONNECTION ====================
+
+type TableauConnection =
+  | { success: true; server: string; siteName: string; patName: string; patSecret: string }
+  | { success: false; error: string };
+
+const normalizeServer = (server: string) => server.trim().replace(/\/+$/, '').toLowerCase();
+
+/**
+ * Resolve Tableau connection settings from tool args, falling back to env vars
+ * The deployment's PAT (PAT_NAME/PAT_VALUE) is only used for its own SERVER -
+ * any other server needs both PAT fields in the args, so a call can't send
+ * our token to a host of its choosing. Calls from extension chat never supply
+ * patSecret: the model must not handle secrets.
+ */
+function resolveTableauConnection(args: Record<string, unknown>, fromExtension: boolean): TableauConnection {
+  const envServer = process.env.SERVER;
+  const server = (args.server as string) || envServer;
+  const siteName = (args.siteName as string) ?? process.env.SITE_NAME ?? '';
+  const argPatName = args.patName as string | undefined;
+  const argPatSecret = fromExtension ? undefined : args.patSecret as string | undefined;
+
+  const usesEnvPat = !argPatName && !argPatSecret && !!server && !!envServer &&
+    normalizeServer(server) === normalizeServer(envServer);
+  const patName = usesEnvPat ? process.env.PAT_NAME : argPatName;
+  const patSecret = usesEnvPat ? process.env.PAT_VALUE : argPatSecret;
+
+  const missing: string[] = [];
+  if (!server) missing.push('server (SERVER)');
+  if (!patName) missing.push(usesEnvPat ? 'patName (PAT_NAME)' : 'patName');
+  if (!patSecret) {
+    missing.push(usesEnvPat
+      ? 'patSecret (PAT_VALUE)'
+      : fromExtension
+        ? 'patSecret (only accepted from local MCP clients - use the configured SERVER from chat)'
+        : 'patSecret');
+  }
+  if (missing.length > 0) {
+    return { success: false, error: `Missing Tableau connection settings: ${missing.join(', ')}` };
+  }
+
+  return {
+    success: true,
+    server: server!.replace(/\/+$/, ''),
+    siteName,
+    patName: patName!,
+    patSecret: patSecret!,
+  };
+}
+
+/**
+ * Forward publish progress to the extension's progress bar
+ */
+function reportPublishProgress(bridge: WebSocketBridge, workbook: { workbookId?: string; workbookName?: string }) {
+  return (progress: PublishProgress) => {
+    if (!bridge.hasConnectedExtension()) return;
+    bridge.sendToExtensionNoWait({
+      type: 'publish-progress',
+      workbookId: workbook.workbookId,
+      workbookName: workbook.workbookName,
+      ...progress,
+    });
+  };
+}
+
 // ==================== TOOL DEFINITIONS ====================
 export const tools: Tool[] = [
   // ==================== TABLEAU MCP INTEGRATION TOOLS ====================
@@ -391,12 +495,131 @@ SOURCES:
   // ==================== UTILITY TOOLS ====================
   {
     name: 'check-connection',
-    description: 'Check if a Tableau Extension is connected to the MCP server',
+    description: 'Check if a Tableau Extension is connected to the MCP server. Lists connected extensions with the ids to use as targetClientId.',
     inputSchema: {
       type: 'object',
       properties: {},
     },
   },
+  {
+    name: 'manage-extension-tokens',
+    description: 'Manage extension access tokens: create a one-time pairing code for a new extension, list paired extensions, or revoke a token (disconnects it). Only available to local MCP clients, not from extension chat.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['pairing-code', 'list', 'revoke'],
+          description: 'pairing-code: new one-time code (valid 10 minutes); list: issued tokens; revoke: revoke tokenId',
+        },
+        tokenId: {
+          type: 'string',
+          description: 'Token to revoke (from list)',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the token is revoked (kept in the token list)',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  {
+    name: 'get-usage-report',
+    description: 'Report LLM token usage and estimated cost from the usage ledger, grouped by model, provider, tool, caller, dashboard, day or kind (chat/vision), with today\'s spend against the daily budgets. From extension chat, only that extension\'s own usage is reported.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'number',
+          description: 'Number of days to report, ending now (default 7)',
+        },
+        since: {
+          type: 'string',
+          description: 'Report from this ISO date/time instead of using days',
+        },
+        groupBy: {
+          type: 'string',
+          enum: [...USAGE_GROUP_BY],
+          description: 'How to break down usage (default model)',
+        },
+        dashboard: {
+          type: 'string',
+          description: 'Only include calls from this dashboard',
+        },
+        caller: {
+          type: 'string',
+          description: 'Only include calls from this caller (token id, dashboard or client id; "mcp" for local MCP clients)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get-audit-log',
+    description: 'Search the audit log: every tool call, guardrail flag and request sent to an extension, with caller, dashboard, sanitized arguments, result and duration. Newest entries first. From extension chat, only that extension\'s own entries are returned.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tool: {
+          type: 'string',
+          description: 'Only entries for this tool',
+        },
+        dashboard: {
+          type: 'string',
+          description: 'Only entries from this dashboard',
+        },
+        since: {
+          type: 'string',
+          description: 'Start of the time range (ISO date/time; default 24 hours ago)',
+        },
+        until: {
+          type: 'string',
+          description: 'End of the time range (ISO date/time; default now)',
+        },
+        event: {
+          type: 'string',
+          enum: [...AUDIT_EVENTS],
+          description: 'Only this kind of entry',
+        },
+        status: {
+          type: 'string',
+          enum: [...AUDIT_STATUSES],
+          description: 'Only entries with this result',
+        },
+        caller: {
+          type: 'string',
+          description: 'Only entries from this caller (token id, dashboard or client id; "mcp" for local MCP clients)',
+        },
+        messageHash: {
+          type: 'string',
+          description: 'Only entries caused by the chat message with this SHA-256',
+        },
+        limit: {
+          type: 'number',
+          description: 'Most recent entries to return (default 100, max 1000)',
+        },
+      },
+    },
+  },
+  {
+    name: 'explain-tool-routing',
+    description: 'Explain how a chat message is routed to tools: the intent patterns that matched, categories blocked by negative patterns, the fallback classifier\'s scores and the final tool list the model would be offered. For tuning the router.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          description: 'The chat message to route',
+        },
+        hasImage: {
+          type: 'boolean',
+          description: 'Route as if an image were attached',
+          default: false,
+        },
+      },
+      required: ['message'],
+    },
+  },
   {
     name: 'clear-canvas',
     description: 'Clear all rendered content from the extension canvas',
@@ -407,7 +630,7 @@ SOURCES:
   },
   {
     name: 'render-component',
-    description: 'Render an HTML component in the Tableau Extension. For custom HTML content not covered by other tools.',
+    description: 'Render an HTML component in the Tableau Extension. For custom HTML content not covered by other tools. Rendered in a sandboxed frame with static HTML, CSS and inline SVG only: scripts, frames, event handlers, external images and javascript: URLs are removed. For interactions add data-tooltip="text" (hover tooltip) or data-filter-field="Region" data-filter-value="West" (click filters the dashboard; optional data-filter-worksheet).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -1192,31 +1415,457 @@ Includes: data sources, fields, calculated fields, worksheets, filters, paramete
           description: 'Include data sources',
           default: true,
         },
-        includeFields: {
-          type: 'boolean',
-          description: 'Include field inventory',
-          default: true,
+        includeFields: {
+          type: 'boolean',
+          description: 'Include field inventory',
+          default: true,
+        },
+        includeWorksheets: {
+          type: 'boolean',
+          description: 'Include worksheets',
+          default: true,
+        },
+        includeParameters: {
+          type: 'boolean',
+          description: 'Include parameters',
+          default: true,
+        },
+      },
+    },
+  },
+
+  // ==================== WORKBOOK TOOLS ====================
+  {
+    name: 'download-workbook',
+    description: `Download a workbook from Tableau Server/Cloud so it can be modified and published back.
+
+Authenticates with a Personal Access Token (PAT), locates the workbook by ID or name,
+and caches its .twb XML in the MCP server. Use modify-workbook next, then publish-workbook.
+
+Several workbooks (from different sites too) can be cached at once. The most recently
+downloaded or used workbook is the default for the other workbook tools; pass workbookId
+to target another one.
+
+Connection settings fall back to the SERVER, SITE_NAME, PAT_NAME and PAT_VALUE
+environment variables (the same .env used by Tableau MCP).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Workbook LUID. Takes precedence over workbookName.',
+        },
+        workbookName: {
+          type: 'string',
+          description: 'Workbook name to search for (used when workbookId is not provided)',
+        },
+        projectName: {
+          type: 'string',
+          description: 'Project name to disambiguate workbooks with the same name',
+        },
+        server: {
+          type: 'string',
+          description: 'Tableau Server/Cloud URL (e.g., "https://10ax.online.tableau.com")',
+        },
+        siteName: {
+          type: 'string',
+          description: 'Site content URL ("" for the default site)',
+        },
+        patName: {
+          type: 'string',
+          description: 'Personal Access Token name',
+        },
+        patSecret: {
+          type: 'string',
+          description: 'Personal Access Token secret (required with patName for any server other than SERVER)',
+        },
+      },
+    },
+  },
+  {
+    name: 'open-local-workbook',
+    description: `Open a local .twb or .twbx file so it can be analyzed, documented and modified without Tableau Server.
+
+The workbook is cached like a downloaded one (id "local:<absolute path>") and becomes the
+active workbook. For .twbx packages, data extracts and images are kept so save-local-workbook
+can repackage them unchanged.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filePath: {
+          type: 'string',
+          description: 'Path to the .twb or .twbx file (relative to the MCP server working directory)',
+        },
+      },
+      required: ['filePath'],
+    },
+  },
+  {
+    name: 'save-local-workbook',
+    description: `Save a cached (modified) workbook to a local .twb or .twbx file.
+
+Saving as .twbx repackages the original extracts and images unchanged with the modified .twb.
+Defaults to "<name>_modified.twbx" (or .twb for unpackaged workbooks) next to the opened file.
+Existing files are never replaced unless overwrite is true.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Cached workbook id (defaults to the most recently used workbook)',
+        },
+        filePath: {
+          type: 'string',
+          description: 'Output path ending in .twb or .twbx',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the file if it already exists',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'parse-workbook-xml',
+    description: `Parse Tableau workbook XML into a structured model.
+
+Returns datasources (columns and calculated fields), parameters, worksheets (filters,
+encodings, styles), dashboards (size and zones), workbook styles and color palettes.
+Parses a workbook cached by download-workbook unless "xml" is provided.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Cached workbook id (defaults to the most recently used workbook)',
+        },
+        xml: {
+          type: 'string',
+          description: 'Optional: raw .twb XML to parse instead of the cached workbook',
+        },
+        sections: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['datasources', 'parameters', 'worksheets', 'dashboards', 'styles', 'colorPalettes'],
+          },
+          description: 'Optional: only return these sections of the model',
+        },
+      },
+    },
+  },
+  {
+    name: 'modify-workbook',
+    description: `Apply structured edits to a workbook cached by download-workbook.
+
+Edits address elements by identity (datasource + field, worksheet name, dashboard + zone id),
+never by matching XML text. The batch is atomic: if any edit fails, nothing changes.
+Use parse-workbook-xml first to look up field names, worksheet names and zone ids.
+
+Operations (op) and their fields:
+- set-calculation: field, formula, [datasource]
+- add-calculated-field: caption, formula, [datatype], [role], [datasource]
+- remove-field: field, [datasource]
+- set-field-caption: field, caption, [datasource]
+- rename-worksheet: worksheet, newName
+- set-parameter: parameter, value
+- set-style: element, attr, value, [worksheet | dashboard], [field]
+- set-zone: dashboard, zoneId, [x], [y], [w], [h]
+- remove-zone: dashboard, zoneId
+
+Changes stay local until publish-workbook is called.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Cached workbook id (defaults to the most recently used workbook)',
+        },
+        edits: {
+          type: 'array',
+          description: 'Edits to apply in order',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: TWB_EDIT_OPS },
+              datasource: { type: 'string', description: 'Datasource name or caption (optional when the workbook has one)' },
+              field: { type: 'string', description: 'Field name ("[Sales]" or "Sales") or caption' },
+              formula: { type: 'string', description: 'Tableau calculation formula' },
+              caption: { type: 'string', description: 'Field caption' },
+              datatype: { type: 'string', enum: ['string', 'integer', 'real', 'boolean', 'date', 'datetime'] },
+              role: { type: 'string', enum: ['dimension', 'measure'] },
+              worksheet: { type: 'string', description: 'Worksheet name' },
+              newName: { type: 'string', description: 'New worksheet name' },
+              parameter: { type: 'string', description: 'Parameter name or caption' },
+              value: { type: 'string', description: 'New parameter or style value' },
+              dashboard: { type: 'string', description: 'Dashboard name' },
+              element: { type: 'string', description: 'Style rule element (e.g., "worksheet", "mark", "title")' },
+              attr: { type: 'string', description: 'Format attribute (e.g., "color", "font-family")' },
+              zoneId: { type: 'string', description: 'Dashboard zone id' },
+              x: { type: 'number' },
+              y: { type: 'number' },
+              w: { type: 'number' },
+              h: { type: 'number' },
+            },
+            required: ['op'],
+          },
+        },
+      },
+      required: ['edits'],
+    },
+  },
+  {
+    name: 'list-workbooks',
+    description: `List the workbooks cached by download-workbook and the Tableau sites currently signed in.
+
+Shows each workbook's id, name, project, source site, whether it has unpublished
+modifications, and which one is active (the default for the other workbook tools).`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'compare-workbooks',
+    description: `Compare two cached workbooks and report semantic differences.
+
+Useful for comparing dev and prod copies of a workbook, or two versions downloaded
+from different sites. Reports calculated fields, fields, parameters, worksheets,
+dashboard zones, colors, styles and filters that differ.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        baseWorkbookId: {
+          type: 'string',
+          description: 'Cached workbook id to compare from (e.g., prod)',
+        },
+        compareWorkbookId: {
+          type: 'string',
+          description: 'Cached workbook id to compare to (e.g., dev)',
+        },
+      },
+      required: ['baseWorkbookId', 'compareWorkbookId'],
+    },
+  },
+  {
+    name: 'close-workbook',
+    description: `Remove a workbook from the MCP server cache. Unpublished modifications are discarded.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Cached workbook id to remove',
+        },
+      },
+      required: ['workbookId'],
+    },
+  },
+  {
+    name: 'publish-workbook',
+    description: `Publish a cached (modified) workbook back to Tableau Server/Cloud.
+
+Publishes through the site the workbook was downloaded from. To publish to another
+site (e.g., promote dev to prod), pass server/siteName (and PAT if it differs) with
+mode "new" and a target projectId.
+
+Modes:
+- overwrite: Replace the original workbook (destructive)
+- new: Publish as a new workbook (requires newName or a different project)
+
+Every result includes a semantic change report (calculated fields, worksheets, dashboard
+zones, colors, filters...) relative to the downloaded version. Set dryRun to get the
+report without publishing - ALWAYS do a dry run before overwriting.
+
+Packaged workbooks are published as .twbx. Large files upload in chunks, and progress
+is shown in the extension.
+
+Overwrites snapshot the replaced version (with author and reason) so it can be restored
+with rollback-workbook.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Cached workbook id (defaults to the most recently used workbook)',
+        },
+        mode: {
+          type: 'string',
+          enum: ['overwrite', 'new'],
+          description: 'Publish mode',
+          default: 'new',
+        },
+        newName: {
+          type: 'string',
+          description: 'Name for the published workbook (defaults to the original name; mode "new" only)',
+        },
+        projectId: {
+          type: 'string',
+          description: 'Target project LUID (defaults to the original project; mode "new" only)',
+        },
+        description: {
+          type: 'string',
+          description: 'Workbook description',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the change report without publishing',
+          default: false,
+        },
+        reason: {
+          type: 'string',
+          description: 'Why this version is being published (recorded in version history)',
+        },
+        author: {
+          type: 'string',
+          description: 'Who is publishing (defaults to the PAT name)',
+        },
+        server: {
+          type: 'string',
+          description: 'Target Tableau Server/Cloud URL (defaults to the site the workbook was downloaded from)',
+        },
+        siteName: {
+          type: 'string',
+          description: 'Target site content URL (used with server)',
+        },
+        patName: {
+          type: 'string',
+          description: 'Personal Access Token name for the target site',
+        },
+        patSecret: {
+          type: 'string',
+          description: 'Personal Access Token secret for the target site (required with patName for any server other than SERVER)',
+        },
+      },
+    },
+  },
+  {
+    name: 'list-workbook-versions',
+    description: `List the version history of a workbook.
+
+Versions are recorded locally whenever publish-workbook overwrites a workbook: the replaced
+version ("pre-publish") and the uploaded one ("published"), each with author, time and reason.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Workbook id (defaults to the most recently used workbook)',
+        },
+      },
+    },
+  },
+  {
+    name: 'diff-workbook-versions',
+    description: `Compare two versions of a workbook and report semantic differences.
+
+Use version ids from list-workbook-versions, or "current" for the cached workbook
+(including unpublished modifications).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Workbook id (defaults to the most recently used workbook)',
+        },
+        fromVersion: {
+          type: 'string',
+          description: 'Version to compare from (e.g., "v1")',
+        },
+        toVersion: {
+          type: 'string',
+          description: 'Version to compare to (default: "current")',
+          default: 'current',
+        },
+      },
+      required: ['fromVersion'],
+    },
+  },
+  {
+    name: 'rollback-workbook',
+    description: `Republish an older version of a workbook (overwrite).
+
+The workbook must be downloaded first. The version being replaced is snapshotted as usual,
+so a rollback can itself be rolled back. Set dryRun to see what would change first.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workbookId: {
+          type: 'string',
+          description: 'Workbook id (defaults to the most recently used workbook)',
+        },
+        versionId: {
+          type: 'string',
+          description: 'Version to restore (from list-workbook-versions)',
         },
-        includeWorksheets: {
+        reason: {
+          type: 'string',
+          description: 'Why the rollback is needed (recorded in version history)',
+        },
+        author: {
+          type: 'string',
+          description: 'Who is rolling back (defaults to the PAT name)',
+        },
+        dryRun: {
           type: 'boolean',
-          description: 'Include worksheets',
-          default: true,
+          description: 'Report the changes without publishing',
+          default: false,
         },
-        includeParameters: {
+        discardModifications: {
           type: 'boolean',
-          description: 'Include parameters',
-          default: true,
+          description: 'Replace unpublished modifications in the cached workbook',
+          default: false,
         },
       },
+      required: ['versionId'],
     },
   },
 ];
 
 // ==================== TOOL HANDLERS ====================
+
+/**
+ * Run a tool for any caller (chat, extension tools/call, MCP client) and
+ * record the call in the audit log
+ */
 export async function handleToolCall(
   name: string,
   args: Record<string, unknown>,
   bridge: WebSocketBridge
+): Promise<any> {
+  const client = bridge.getRequestClient();
+  const source = getAuditSource() ?? (bridge.isExtensionRequest() ? 'extension' : 'mcp');
+  const audit = { event: 'tool-call' as const, source, tool: name, args, ...client };
+
+  // The guardrails policy can disable tools for every caller, not just chat
+  const toolPolicy = checkToolPolicy(name);
+  if (!toolPolicy.allowed) {
+    await recordAudit({ ...audit, status: 'blocked', error: toolPolicy.reason });
+    return { success: false, step: 'validate', error: toolPolicy.reason };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await withAuditContext({ source, tool: name }, () => runToolHandler(name, args, bridge));
+    const failed = result && typeof result === 'object' && (result.success === false || (result.error && result.success !== true));
+    await recordAudit({
+      ...audit,
+      status: failed ? 'error' : 'success',
+      ...(failed && result.error ? { error: String(result.error) } : {}),
+      durationMs: Date.now() - startedAt,
+    });
+    return result;
+  } catch (error) {
+    await recordAudit({ ...audit, status: 'error', error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - startedAt });
+    throw error;
+  }
+}
+
+async function runToolHandler(
+  name: string,
+  args: Record<string, unknown>,
+  bridge: WebSocketBridge
 ): Promise<any> {
   switch (name) {
     // ==================== TABLEAU MCP INTEGRATION HANDLERS ====================
@@ -1797,11 +2446,20 @@ Then consider layout, color choices, data-ink ratio, clarity, storytelling, and
       // Determine which provider and model to use
       const visionProvider = visionConfig?.provider || 'openai';
       const visionModel = visionConfig?.model || 'gpt-4o';
-      const visionApiKey = visionConfig?.apiKey || getCachedApiKey(visionProvider) || process.env.OPENAI_API_KEY;
+      const visionApiKey = visionConfig?.apiKey || getCachedApiKey(visionProvider) || (visionProvider === 'openai' ? process.env.OPENAI_API_KEY : undefined);
+      const provider = getProvider(visionProvider);
       
       console.error(`[analyze-design] Using vision model: ${visionProvider}:${visionModel}`);
       
-      if (!visionApiKey) {
+      if (!provider?.vision) {
+        return {
+          success: false,
+          error: `The "${visionProvider}" model provider does not support vision analysis.`,
+          tip: 'Choose a vision-capable model for Design Analysis in the DashAgent extension settings.',
+        };
+      }
+      
+      if (provider.requiresApiKey && !visionApiKey) {
         return {
           success: false,
           error: 'No API key available for vision analysis.',
@@ -1810,88 +2468,28 @@ Then consider layout, color choices, data-ink ratio, clarity, storytelling, and
       }
       
       try {
-        let analysisResult: string;
-        
-        if (visionProvider === 'anthropic') {
-          // Anthropic Claude vision API
-          const visionResponse = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-api-key': visionApiKey,
-              'anthropic-version': '2023-06-01',
-            },
-            body: JSON.stringify({
-              model: visionModel,
-              max_tokens: 4096,
-              system: 'You are DashAgent, an expert Tableau dashboard designer and data visualization consultant. Provide specific, actionable feedback based on what you see in the image.',
-              messages: [
-                {
-                  role: 'user',
-                  content: [
-                    { type: 'text', text: fullPrompt },
-                    { 
-                      type: 'image', 
-                      source: { 
-                        type: 'base64',
-                        media_type: 'image/png',
-                        data: imageBase64.replace(/^data:image\/\w+;base64,/, ''),
-                      } 
-                    },
-                  ],
-                },
-              ],
-            }),
-          });
-
-          if (!visionResponse.ok) {
-            const error = await visionResponse.json();
-            throw new Error(error.error?.message || 'Anthropic Vision API request failed');
-          }
-
-          const visionData = await visionResponse.json();
-          analysisResult = visionData.content[0]?.text || 'Analysis complete but no content returned.';
-        } else {
-          // OpenAI GPT-4o vision API
-          const visionResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${visionApiKey}`,
-            },
-            body: JSON.stringify({
-              model: visionModel,
-              max_completion_tokens: 4096,
-              messages: [
-                {
-                  role: 'system',
-                  content: 'You are DashAgent, an expert Tableau dashboard designer and data visualization consultant. Provide specific, actionable feedback based on what you see in the image.',
-                },
-                {
-                  role: 'user',
-                  content: [
-                    { type: 'text', text: fullPrompt },
-                    { 
-                      type: 'image_url', 
-                      image_url: { 
-                        url: imageBase64,
-                        detail: 'high'
-                      } 
-                    },
-                  ],
-                },
-              ],
-            }),
-          });
-
-          if (!visionResponse.ok) {
-            const error = await visionResponse.json();
-            throw new Error(error.error?.message || 'OpenAI Vision API request failed');
-          }
-
-          const visionData = await visionResponse.json();
-          analysisResult = visionData.choices[0]?.message?.content || 'Analysis complete but no content returned.';
-        }
+        const visionResult = await provider.vision({
+          model: visionModel,
+          apiKey: visionApiKey || '',
+          system: 'You are DashAgent, an expert Tableau dashboard designer and data visualization consultant. Provide specific, actionable feedback based on what you see in the image.',
+          prompt: fullPrompt,
+          image: imageBase64,
+          maxTokens: 4096,
+        });
+        const analysisResult = visionResult.text || 'Analysis complete but no content returned.';
+
+        const client = bridge.getRequestClient();
+        await recordUsage({
+          kind: 'vision',
+          provider: visionProvider,
+          model: visionModel,
+          promptTokens: visionResult.usage.prompt,
+          completionTokens: visionResult.usage.completion,
+          tools: ['analyze-design'],
+          clientId: client?.clientId,
+          tokenId: client?.tokenId,
+          dashboardName: client?.dashboardName,
+        });
 
         return {
           success: true,
@@ -1916,14 +2514,137 @@ Then consider layout, color choices, data-ink ratio, clarity, storytelling, and
     
     case 'check-connection': {
       const connected = bridge.hasConnectedExtension();
-      const extensions = bridge.getConnectedExtensions();
+      const extensions = bridge.getConnectedClients();
       return {
         connected,
         extensionCount: extensions.length,
         extensions,
+        ...(extensions.length > 1 ? { hint: 'Several extensions are connected - pass targetClientId with tool calls to choose one.' } : {}),
+      };
+    }
+
+    case 'manage-extension-tokens': {
+      // An extension must not be able to mint or revoke tokens for itself or others
+      if (bridge.isExtensionRequest()) {
+        return { success: false, step: 'validate', error: 'manage-extension-tokens is only available to local MCP clients' };
+      }
+
+      const action = args.action as string;
+      if (action === 'pairing-code') {
+        const pairing = bridge.printPairingCode();
+        return {
+          success: true,
+          pairingCode: pairing.code,
+          expiresAt: pairing.expiresAt.toISOString(),
+          message: 'Enter this code in the extension under Settings → MCP Server → Pair. It can be used once.',
+        };
+      }
+      if (action === 'list') {
+        const now = Date.now();
+        const tokens = listClientTokens().map(t => ({
+          ...t,
+          status: t.revokedAt ? 'revoked' : new Date(t.expiresAt).getTime() <= now ? 'expired' : 'active',
+        }));
+        return { success: true, count: tokens.length, tokens };
+      }
+      if (action === 'revoke') {
+        const tokenId = args.tokenId as string;
+        if (!tokenId) {
+          return { success: false, step: 'validate', error: 'tokenId is required to revoke a token' };
+        }
+        if (!revokeClientToken(tokenId, (args.reason as string) || 'Revoked')) {
+          return { success: false, step: 'validate', error: `No active token ${tokenId}. Use action "list" to see tokens.` };
+        }
+        const disconnected = bridge.disconnectToken(tokenId);
+        return { success: true, tokenId, disconnected, message: `Token ${tokenId} revoked` };
+      }
+      return { success: false, step: 'validate', error: `Unknown action "${action}". Use pairing-code, list or revoke.` };
+    }
+
+    case 'get-usage-report': {
+      const groupBy = (args.groupBy as UsageGroupBy) || 'model';
+      if (!USAGE_GROUP_BY.includes(groupBy)) {
+        return { success: false, step: 'validate', error: `Unknown groupBy "${groupBy}". Use one of: ${USAGE_GROUP_BY.join(', ')}` };
+      }
+      const since = args.since
+        ? new Date(args.since as string)
+        : new Date(Date.now() - ((args.days as number) || 7) * 24 * 60 * 60 * 1000);
+      if (isNaN(since.getTime())) {
+        return { success: false, step: 'validate', error: `Invalid since date "${args.since}"` };
+      }
+
+      // Extensions may only see their own usage
+      let caller = args.caller as string | undefined;
+      if (bridge.isExtensionRequest()) {
+        const client = bridge.getRequestClient();
+        if (!client) {
+          return { success: false, error: 'The requesting extension is no longer connected' };
+        }
+        caller = callerKey(client);
+      }
+
+      const report = await queryUsage({ since, groupBy, dashboard: args.dashboard as string | undefined, caller });
+      return {
+        success: true,
+        groupBy,
+        ...report,
+        budget: await getBudgetStatus(caller),
+        ...(report.unpricedModels.length > 0 ? { note: 'Models without a known price are counted as $0. Add prices with DASHAGENT_MODEL_PRICES.' } : {}),
+      };
+    }
+
+    case 'get-audit-log': {
+      const since = args.since ? new Date(args.since as string) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const until = args.until ? new Date(args.until as string) : undefined;
+      if (isNaN(since.getTime()) || (until && isNaN(until.getTime()))) {
+        return { success: false, step: 'validate', error: `Invalid date "${isNaN(since.getTime()) ? args.since : args.until}"` };
+      }
+      const event = args.event as AuditEvent | undefined;
+      if (event && !AUDIT_EVENTS.includes(event)) {
+        return { success: false, step: 'validate', error: `Unknown event "${event}". Use one of: ${AUDIT_EVENTS.join(', ')}` };
+      }
+      const status = args.status as AuditStatus | undefined;
+      if (status && !AUDIT_STATUSES.includes(status)) {
+        return { success: false, step: 'validate', error: `Unknown status "${status}". Use one of: ${AUDIT_STATUSES.join(', ')}` };
+      }
+
+      // Extensions may only see their own entries
+      let caller = args.caller as string | undefined;
+      if (bridge.isExtensionRequest()) {
+        const client = bridge.getRequestClient();
+        if (!client) {
+          return { success: false, error: 'The requesting extension is no longer connected' };
+        }
+        caller = callerKey(client);
+      }
+
+      const result = await queryAudit({
+        since,
+        until,
+        tool: args.tool as string | undefined,
+        dashboard: args.dashboard as string | undefined,
+        event,
+        status,
+        caller,
+        messageHash: args.messageHash as string | undefined,
+        limit: Math.min(Math.max((args.limit as number) || 100, 1), 1000),
+      });
+      return {
+        success: true,
+        from: since.toISOString(),
+        to: (until ?? new Date()).toISOString(),
+        ...result,
       };
     }
 
+    case 'explain-tool-routing': {
+      const message = args.message as string;
+      if (!message) {
+        return { success: false, step: 'validate', error: 'message is required' };
+      }
+      return { success: true, message, ...explainRouting(message, !!args.hasImage) };
+    }
+
     case 'clear-canvas': {
       bridge.sendToExtensionNoWait({
         type: 'render',
@@ -1934,12 +2655,18 @@ Then consider layout, color choices, data-ink ratio, clarity, storytelling, and
     }
 
     case 'render-component': {
+      // Pre-filter so the model hears what won't run; the extension sanitizes again
+      const { html, removed } = sanitizeHtml(String(args.html ?? ''));
       bridge.sendToExtensionNoWait({
         type: 'render',
-        html: args.html,
+        html,
         append: args.append || false,
       });
-      return { success: true, message: 'Component rendered in extension' };
+      return {
+        success: true,
+        message: 'Component rendered in extension',
+        ...(removed.length > 0 ? { removed, note: `Removed ${removed.join(', ')} - the extension only renders static HTML and CSS.` } : {}),
+      };
     }
 
     // ==================== UNIFIED ANALYSIS HANDLERS ====================
@@ -2563,6 +3290,434 @@ Format your response with clear headers and bullet points.`;
       };
     }
 
+    // ==================== WORKBOOK HANDLERS ====================
+
+    case 'download-workbook': {
+      const connection = resolveTableauConnection(args, bridge.isExtensionRequest());
+      if (!connection.success) {
+        return { success: false, step: 'configure', error: connection.error };
+      }
+      const { server, siteName, patName, patSecret } = connection;
+
+      const auth = await authenticate(server, siteName, patName, patSecret);
+      if (!auth.success) {
+        return { success: false, step: 'authenticate', error: auth.error };
+      }
+
+      let workbookId = args.workbookId as string | undefined;
+      if (!workbookId) {
+        const workbookName = args.workbookName as string | undefined;
+        if (!workbookName) {
+          return { success: false, step: 'locate', error: 'workbookId or workbookName is required' };
+        }
+        const search = await findWorkbook(auth.sessionKey!, workbookName, args.projectName as string | undefined);
+        if (!search.success || !search.workbookId) {
+          return {
+            success: false,
+            step: search.authError ? 'authenticate' : 'locate',
+            error: search.error || `Workbook "${workbookName}" not found`,
+            candidates: search.workbooks,
+          };
+        }
+        workbookId = search.workbookId;
+      }
+
+      const download = await downloadWorkbook(auth.sessionKey!, workbookId);
+      if (!download.success || !download.workbook) {
+        return { success: false, step: download.authError ? 'authenticate' : 'download', error: download.error };
+      }
+
+      const workbook = download.workbook;
+      return {
+        success: true,
+        workbookId: workbook.workbookId,
+        workbookName: workbook.workbookName,
+        projectId: workbook.projectId,
+        projectName: workbook.projectName,
+        sessionKey: workbook.sessionKey,
+        xmlLength: workbook.xml.length,
+        cachedWorkbooks: listCachedWorkbooks().length,
+        message: `Workbook "${workbook.workbookName}" downloaded. Use modify-workbook to make changes, then publish-workbook.`,
+      };
+    }
+
+    case 'open-local-workbook': {
+      // Paths are on the server host - an extension chat must not read or write its files
+      if (bridge.isExtensionRequest()) {
+        return { success: false, step: 'validate', error: 'open-local-workbook is only available to local MCP clients' };
+      }
+      const filePath = args.filePath as string | undefined;
+      if (!filePath) {
+        return { success: false, step: 'validate', error: 'filePath is required' };
+      }
+
+      const open = await openLocalWorkbook(filePath);
+      if (!open.success || !open.workbook) {
+        return { success: false, step: 'open', error: open.error };
+      }
+
+      const workbook = open.workbook;
+      return {
+        success: true,
+        workbookId: workbook.workbookId,
+        workbookName: workbook.workbookName,
+        filePath: workbook.filePath,
+        packaged: !!workbook.packageFiles,
+        packageFiles: workbook.packageFiles ? Object.keys(workbook.packageFiles) : undefined,
+        xmlLength: workbook.xml.length,
+        cachedWorkbooks: listCachedWorkbooks().length,
+        message: `Workbook "${workbook.workbookName}" opened. Use modify-workbook to make changes, then save-local-workbook.`,
+      };
+    }
+
+    case 'save-local-workbook': {
+      if (bridge.isExtensionRequest()) {
+        return { success: false, step: 'validate', error: 'save-local-workbook is only available to local MCP clients' };
+      }
+      const save = await saveLocalWorkbook({
+        workbookId: args.workbookId as string | undefined,
+        filePath: args.filePath as string | undefined,
+        overwrite: args.overwrite === true,
+      });
+      if (!save.success) {
+        return { success: false, step: 'save', error: save.error };
+      }
+
+      return {
+        success: true,
+        filePath: save.filePath,
+        format: save.format,
+        bytes: save.bytes,
+        message: `Workbook saved to ${save.filePath}.`,
+      };
+    }
+
+    case 'parse-workbook-xml': {
+      let xml = args.xml as string | undefined;
+      if (!xml) {
+        const cached = getCachedWorkbook(args.workbookId as string | undefined);
+        if (!cached) {
+          return { success: false, step: 'validate', error: 'Workbook not loaded. Use download-workbook first or pass xml.' };
+        }
+        xml = cached.xml;
+      }
+
+      let model: TwbWorkbook;
+      try {
+        model = parseWorkbookXml(xml);
+      } catch (e) {
+        return { success: false, step: 'parse', error: e instanceof Error ? e.message : String(e) };
+      }
+
+      const sections = args.sections as Array<keyof TwbWorkbook> | undefined;
+      if (sections && sections.length > 0) {
+        const filtered: Partial<TwbWorkbook> = { version: model.version };
+        for (const section of sections) {
+          (filtered as Record<string, unknown>)[section] = model[section];
+        }
+        return { success: true, workbook: filtered };
+      }
+
+      return { success: true, workbook: model };
+    }
+
+    case 'modify-workbook': {
+      const edits = args.edits as TwbEdit[] | undefined;
+      if (!Array.isArray(edits) || edits.length === 0) {
+        return { success: false, step: 'validate', error: 'edits must be a non-empty array' };
+      }
+      const invalidEdits = validateTwbEdits(edits);
+      if (invalidEdits.length > 0) {
+        const first = invalidEdits[0];
+        return {
+          success: false,
+          step: 'validate',
+          error: `Edit ${first.index + 1} (${first.op || 'no op'}) is invalid: ${first.error}. No edits were applied.`,
+          invalidEdits,
+        };
+      }
+
+      const workbookId = args.workbookId as string | undefined;
+      const result = applyWorkbookEdits(edits, workbookId);
+      if (!result.success) {
+        return { success: false, step: 'modify', error: result.error, applied: result.applied };
+      }
+
+      return {
+        success: true,
+        applied: result.applied,
+        ...getWorkbookSummary(workbookId),
+      };
+    }
+
+    case 'list-workbooks': {
+      const workbooks = listCachedWorkbooks();
+      return {
+        success: true,
+        workbooks,
+        sessions: listSessions(),
+        message: workbooks.length > 0
+          ? `${workbooks.length} workbook(s) cached.`
+          : 'No workbooks cached. Use download-workbook first.',
+      };
+    }
+
+    case 'compare-workbooks': {
+      const baseId = args.baseWorkbookId as string;
+      const compareId = args.compareWorkbookId as string;
+      const base = baseId ? getCachedWorkbook(baseId) : null;
+      const compare = compareId ? getCachedWorkbook(compareId) : null;
+      if (!base || !compare) {
+        return {
+          success: false,
+          step: 'validate',
+          error: `Workbook ${!base ? baseId : compareId} is not loaded. Use list-workbooks to see loaded workbooks.`,
+        };
+      }
+
+      try {
+        const diff = diffWorkbookXml(base.xml, compare.xml);
+        return {
+          success: true,
+          base: { workbookId: base.workbookId, workbookName: base.workbookName, sessionKey: base.sessionKey },
+          compare: { workbookId: compare.workbookId, workbookName: compare.workbookName, sessionKey: compare.sessionKey },
+          hasChanges: diff.hasChanges,
+          changes: diff.changes,
+          summary: diff.summary,
+          report: diff.formattedReport,
+        };
+      } catch (e) {
+        return { success: false, step: 'diff', error: e instanceof Error ? e.message : String(e) };
+      }
+    }
+
+    case 'close-workbook': {
+      const workbookId = args.workbookId as string;
+      const summary = getWorkbookSummary(workbookId);
+      if (!summary.loaded) {
+        return { success: false, step: 'validate', error: `Workbook ${workbookId} is not loaded` };
+      }
+      evictWorkbook(workbookId);
+      return {
+        success: true,
+        workbookId,
+        discardedModifications: summary.hasModifications,
+        message: `Workbook "${summary.workbookName}" removed from cache.`,
+      };
+    }
+
+    case 'publish-workbook': {
+      const workbookId = args.workbookId as string | undefined;
+      const summary = getWorkbookSummary(workbookId);
+      if (!summary.loaded) {
+        return { success: false, step: 'validate', error: 'Workbook not loaded. Use download-workbook first.' };
+      }
+
+      const mode = (args.mode as 'overwrite' | 'new') || 'new';
+      const dryRun = args.dryRun === true;
+
+      // Publishing to another site signs in to it first
+      let targetSessionKey: string | undefined;
+      if (args.server && !dryRun) {
+        const connection = resolveTableauConnection(args, bridge.isExtensionRequest());
+        if (!connection.success) {
+          return { success: false, step: 'configure', error: connection.error };
+        }
+        const auth = await authenticate(connection.server, connection.siteName, connection.patName, connection.patSecret);
+        if (!auth.success) {
+          return { success: false, step: 'authenticate', error: auth.error };
+        }
+        targetSessionKey = auth.sessionKey;
+      }
+
+      const publish = await publishWorkbook({
+        workbookId: summary.workbookId,
+        targetSessionKey,
+        mode,
+        newName: args.newName as string | undefined,
+        projectId: args.projectId as string | undefined,
+        description: args.description as string | undefined,
+        dryRun,
+        author: args.author as string | undefined,
+        reason: args.reason as string | undefined,
+        // Progress bar in the extension (large workbooks upload in chunks)
+        onProgress: reportPublishProgress(bridge, summary),
+      });
+
+      if (!publish.success) {
+        return {
+          success: false,
+          step: publish.authError ? 'authenticate' : dryRun ? 'diff' : 'publish',
+          error: publish.error,
+        };
+      }
+
+      if (publish.dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          mode,
+          changes: publish.changes?.changes,
+          summary: publish.changes?.summary,
+          report: publish.changes?.formattedReport,
+          message: publish.changes?.hasChanges
+            ? `Dry run: ${publish.changes.changes.length} change(s) would be published (${mode}). Nothing was published.`
+            : 'Dry run: no changes to publish.',
+        };
+      }
+
+      return {
+        success: true,
+        mode,
+        workbookId: publish.workbookId,
+        workbookUrl: publish.workbookUrl,
+        hadModifications: summary.hasModifications,
+        changes: publish.changes?.changes,
+        report: publish.changes?.formattedReport,
+        chunkedUpload: publish.chunked,
+        versions: publish.versions && {
+          replaced: publish.versions.replaced.versionId,
+          published: publish.versions.published.versionId,
+        },
+        message: `Workbook published (${mode}).${publish.versions ? ` Previous version saved as ${publish.versions.replaced.versionId}.` : ''}`,
+      };
+    }
+
+    case 'list-workbook-versions': {
+      const workbookId = (args.workbookId as string) || getWorkbookSummary().workbookId;
+      if (!workbookId) {
+        return { success: false, step: 'validate', error: 'workbookId is required when no workbook is loaded' };
+      }
+
+      const versions = await listVersions(workbookId);
+      return {
+        success: true,
+        workbookId,
+        versions,
+        message: versions.length > 0
+          ? `${versions.length} version(s) recorded.`
+          : 'No versions recorded. Versions are saved when a workbook is published with mode "overwrite".',
+      };
+    }
+
+    case 'diff-workbook-versions': {
+      const workbookId = (args.workbookId as string) || getWorkbookSummary().workbookId;
+      const fromVersion = args.fromVersion as string;
+      const toVersion = (args.toVersion as string) || 'current';
+      if (!workbookId || !fromVersion) {
+        return { success: false, step: 'validate', error: 'workbookId and fromVersion are required' };
+      }
+
+      // "current" is the cached workbook, including unpublished modifications
+      const loadXml = async (versionId: string): Promise<string | null> => {
+        if (versionId === 'current') return getCachedWorkbook(workbookId)?.xml ?? null;
+        return (await getVersion(workbookId, versionId))?.xml ?? null;
+      };
+      const [fromXml, toXml] = await Promise.all([loadXml(fromVersion), loadXml(toVersion)]);
+      if (fromXml === null || toXml === null) {
+        const missing = fromXml === null ? fromVersion : toVersion;
+        return {
+          success: false,
+          step: 'validate',
+          error: missing === 'current'
+            ? `Workbook ${workbookId} is not loaded. Use download-workbook first.`
+            : `Version ${missing} not found. Use list-workbook-versions.`,
+        };
+      }
+
+      try {
+        const diff = diffWorkbookXml(fromXml, toXml);
+        return {
+          success: true,
+          workbookId,
+          fromVersion,
+          toVersion,
+          hasChanges: diff.hasChanges,
+          changes: diff.changes,
+          summary: diff.summary,
+          report: diff.formattedReport,
+        };
+      } catch (e) {
+        return { success: false, step: 'diff', error: e instanceof Error ? e.message : String(e) };
+      }
+    }
+
+    case 'rollback-workbook': {
+      const workbookId = (args.workbookId as string) || getWorkbookSummary().workbookId;
+      const versionId = args.versionId as string;
+      if (!workbookId || !versionId) {
+        return { success: false, step: 'validate', error: 'workbookId and versionId are required' };
+      }
+
+      const summary = getWorkbookSummary(workbookId);
+      if (!summary.loaded) {
+        return { success: false, step: 'validate', error: `Workbook ${workbookId} is not loaded. Use download-workbook first.` };
+      }
+      if (summary.hasModifications && args.discardModifications !== true) {
+        return {
+          success: false,
+          step: 'validate',
+          error: 'The cached workbook has unpublished modifications. Publish them first or pass discardModifications.',
+        };
+      }
+
+      const version = await getVersion(workbookId, versionId);
+      if (!version) {
+        return { success: false, step: 'validate', error: `Version ${versionId} not found. Use list-workbook-versions.` };
+      }
+
+      if (args.dryRun === true) {
+        // Compare against what the server has, without touching the cache
+        const cached = getCachedWorkbook(workbookId)!;
+        try {
+          const diff = diffWorkbookXml(cached.originalXml, version.xml);
+          return {
+            success: true,
+            dryRun: true,
+            workbookId,
+            restoredVersion: versionId,
+            changes: diff.changes,
+            report: diff.formattedReport,
+            message: `Dry run: rolling back to ${versionId} would apply ${diff.changes.length} change(s). Nothing was published.`,
+          };
+        } catch (e) {
+          return { success: false, step: 'diff', error: e instanceof Error ? e.message : String(e) };
+        }
+      }
+
+      // Packaged versions bring back their extracts and images too
+      updateCachedWorkbook(version.xml, workbookId, version.version.packaged ? version : undefined);
+      const publish = await publishWorkbook({
+        workbookId,
+        mode: 'overwrite',
+        author: args.author as string | undefined,
+        reason: (args.reason as string) || `Rollback to ${versionId}`,
+        onProgress: reportPublishProgress(bridge, summary),
+      });
+
+      if (!publish.success) {
+        return {
+          success: false,
+          step: publish.authError ? 'authenticate' : 'publish',
+          error: publish.error,
+          message: `The cached workbook now holds ${versionId}; publish-workbook can retry.`,
+        };
+      }
+
+      return {
+        success: true,
+        workbookId,
+        restoredVersion: versionId,
+        changes: publish.changes?.changes,
+        report: publish.changes?.formattedReport,
+        versions: publish.versions && {
+          replaced: publish.versions.replaced.versionId,
+          published: publish.versions.published.versionId,
+        },
+        message: `Rolled back "${summary.workbookName}" to ${versionId}.`,
+      };
+    }
+
     default:
       throw new Error(`Unknown tool: ${name}`);
   }
@@ -0,0 +1,253 @@
+/**
+ * TWB Workbook Diff
+ *
+ * Compares two workbook models and reports semantic changes: calculated
+ * fields, fields, parameters, worksheets, dashboards, zones, colors, styles
+ * and filters. Used to preview what a publish will change on the server.
+ */
+
+import {
+  TwbWorkbook,
+  TwbStyleRule,
+  TwbZone,
+  TwbFilter,
+} from './model.js';
+
+// ==================== TYPES ====================
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export type ChangeCategory =
+  | 'calculated-field'
+  | 'field'
+  | 'parameter'
+  | 'worksheet'
+  | 'dashboard'
+  | 'zone'
+  | 'color'
+  | 'style'
+  | 'filter';
+
+export interface WorkbookChange {
+  category: ChangeCategory;
+  kind: ChangeKind;
+  /** Identity of the changed element, e.g. "Superstore / Profit Ratio" */
+  target: string;
+  before?: string;
+  after?: string;
+}
+
+export interface WorkbookDiff {
+  hasChanges: boolean;
+  changes: WorkbookChange[];
+  /** Change counts per category */
+  summary: Partial<Record<ChangeCategory, Record<ChangeKind, number>>>;
+  /** Formatted Markdown report for chat display */
+  formattedReport: string;
+}
+
+const CATEGORY_LABELS: Record<ChangeCategory, string> = {
+  'calculated-field': 'Calculated Fields',
+  field: 'Fields',
+  parameter: 'Parameters',
+  worksheet: 'Worksheets',
+  dashboard: 'Dashboards',
+  zone: 'Dashboard Zones',
+  color: 'Colors',
+  style: 'Styles',
+  filter: 'Filters',
+};
+
+const KIND_INDICATORS: Record<ChangeKind, string> = {
+  added: '➕',
+  removed: '➖',
+  changed: '✏️',
+};
+
+const COLOR_VALUE = /^#[0-9a-fA-F]{3,8}$/;
+
+// ==================== HELPERS ====================
+
+/**
+ * Compare two keyed collections and emit added/removed/changed entries
+ */
+function diffKeyed<T>(
+  category: ChangeCategory,
+  before: Map<string, T>,
+  after: Map<string, T>,
+  describe: (item: T) => string,
+  out: WorkbookChange[]
+): void {
+  for (const [key, item] of before) {
+    const next = after.get(key);
+    if (next === undefined) {
+      out.push({ category, kind: 'removed', target: key, before: describe(item) });
+    } else if (describe(item) !== describe(next)) {
+      out.push({ category, kind: 'changed', target: key, before: describe(item), after: describe(next) });
+    }
+  }
+  for (const [key, item] of after) {
+    if (!before.has(key)) {
+      out.push({ category, kind: 'added', target: key, after: describe(item) });
+    }
+  }
+}
+
+function label(name: string, caption?: string): string {
+  return caption || name.replace(/^\[|\]$/g, '');
+}
+
+function describeZone(zone: TwbZone): string {
+  const parts = [
+    zone.name ? `"${zone.name}"` : zone.type || 'zone',
+    `x=${zone.x ?? '?'} y=${zone.y ?? '?'} w=${zone.w ?? '?'} h=${zone.h ?? '?'}`,
+  ];
+  return parts.join(' ');
+}
+
+function describeFilter(filter: TwbFilter): string {
+  if (filter.members.length > 0) return filter.members.join(', ');
+  if (filter.min !== undefined || filter.max !== undefined) return `${filter.min ?? ''} .. ${filter.max ?? ''}`;
+  return filter.filterClass || 'filter';
+}
+
+/**
+ * Flatten style rules into "scope / element / attr[field]" -> value
+ */
+function collectStyles(scope: string, rules: TwbStyleRule[], colors: Map<string, string>, styles: Map<string, string>): void {
+  for (const rule of rules) {
+    for (const format of rule.formats) {
+      const key = `${scope} / ${rule.element} / ${format.attr}${format.field ? ` [${format.field}]` : ''}`;
+      if (COLOR_VALUE.test(format.value)) {
+        colors.set(key, format.value.toLowerCase());
+      } else {
+        styles.set(key, format.value);
+      }
+    }
+  }
+}
+
+function collectWorkbookStyles(workbook: TwbWorkbook): { colors: Map<string, string>; styles: Map<string, string> } {
+  const colors = new Map<string, string>();
+  const styles = new Map<string, string>();
+  collectStyles('Workbook', workbook.styles, colors, styles);
+  for (const worksheet of workbook.worksheets) {
+    collectStyles(`Worksheet "${worksheet.name}"`, worksheet.styles, colors, styles);
+  }
+  for (const dashboard of workbook.dashboards) {
+    collectStyles(`Dashboard "${dashboard.name}"`, dashboard.styles, colors, styles);
+  }
+  for (const palette of workbook.colorPalettes) {
+    colors.set(`Palette "${palette.name || 'unnamed'}"`, palette.colors.map(c => c.toLowerCase()).join(', '));
+  }
+  return { colors, styles };
+}
+
+// ==================== DIFF ====================
+
+/**
+ * Compute the semantic differences between two workbook models
+ */
+export function diffWorkbooks(before: TwbWorkbook, after: TwbWorkbook): WorkbookDiff {
+  const changes: WorkbookChange[] = [];
+
+  // Calculated fields are keyed by datasource + caption (what users see),
+  // plain fields by datasource + internal name
+  const calcs = (wb: TwbWorkbook) => new Map(
+    wb.datasources.flatMap(ds => ds.calculations.map(c => [`${label(ds.name, ds.caption)} / ${label(c.name, c.caption)}`, c] as const))
+  );
+  const fields = (wb: TwbWorkbook) => new Map(
+    wb.datasources.flatMap(ds => ds.columns
+      .filter(c => !ds.calculations.some(calc => calc.name === c.name))
+      .map(c => [`${label(ds.name, ds.caption)} / ${c.name}`, c] as const))
+  );
+  diffKeyed('calculated-field', calcs(before), calcs(after),
+    c => `${c.caption ? `${c.caption}: ` : ''}${c.formula} (${c.datatype || '?'} ${c.role || '?'})`, changes);
+  diffKeyed('field', fields(before), fields(after),
+    c => `${c.caption || c.name} (${c.datatype || '?'} ${c.role || '?'}${c.hidden ? ', hidden' : ''})`, changes);
+
+  // Parameters
+  const params = (wb: TwbWorkbook) => new Map(wb.parameters.map(p => [label(p.name, p.caption), p] as const));
+  diffKeyed('parameter', params(before), params(after), p => {
+    const domain = p.range
+      ? ` range ${p.range.min ?? ''}..${p.range.max ?? ''}`
+      : p.members ? ` members [${p.members.join(', ')}]` : '';
+    return `value ${p.value ?? ''}${domain}`;
+  }, changes);
+
+  // Worksheets (shelves and marks - filters and styles are reported separately)
+  const sheets = (wb: TwbWorkbook) => new Map(wb.worksheets.map(w => [w.name, w] as const));
+  diffKeyed('worksheet', sheets(before), sheets(after), w => [
+    `rows: ${w.rows || '-'}`,
+    `cols: ${w.cols || '-'}`,
+    `mark: ${w.markClass || 'Automatic'}`,
+    `encodings: ${w.encodings.map(e => `${e.type}=${e.column || ''}`).join('; ') || '-'}`,
+  ].join(' | '), changes);
+
+  // Filters, keyed by worksheet + column
+  const filters = (wb: TwbWorkbook) => new Map(
+    wb.worksheets.flatMap(w => w.filters.map(f => [`${w.name} / ${f.column}`, f] as const))
+  );
+  diffKeyed('filter', filters(before), filters(after), describeFilter, changes);
+
+  // Dashboards and their zones
+  const dashboards = (wb: TwbWorkbook) => new Map(wb.dashboards.map(d => [d.name, d] as const));
+  diffKeyed('dashboard', dashboards(before), dashboards(after),
+    d => d.size ? Object.entries(d.size).map(([k, v]) => `${k}=${v}`).join(' ') : 'automatic size', changes);
+  const zones = (wb: TwbWorkbook) => new Map(
+    wb.dashboards.flatMap(d => d.zones.map(z => [`${d.name} / zone ${z.id}`, z] as const))
+  );
+  diffKeyed('zone', zones(before), zones(after), describeZone, changes);
+
+  // Colors and other formatting
+  const beforeStyles = collectWorkbookStyles(before);
+  const afterStyles = collectWorkbookStyles(after);
+  diffKeyed('color', beforeStyles.colors, afterStyles.colors, v => v, changes);
+  diffKeyed('style', beforeStyles.styles, afterStyles.styles, v => v, changes);
+
+  const summary: WorkbookDiff['summary'] = {};
+  for (const change of changes) {
+    const counts = summary[change.category] ?? (summary[change.category] = { added: 0, removed: 0, changed: 0 });
+    counts[change.kind]++;
+  }
+
+  return {
+    hasChanges: changes.length > 0,
+    changes,
+    summary,
+    formattedReport: formatDiffReport(changes),
+  };
+}
+
+/** Collapse multi-line values (e.g. formulas) so they fit in inline code */
+function inline(value: string | undefined): string {
+  return (value ?? '').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Format changes as a Markdown report grouped by category
+ */
+function formatDiffReport(changes: WorkbookChange[]): string {
+  if (changes.length === 0) {
+    return '## Workbook Changes\n\nNo changes detected.';
+  }
+
+  let report = `## Workbook Changes\n\n**${changes.length} change${changes.length === 1 ? '' : 's'} detected**\n`;
+
+  for (const category of Object.keys(CATEGORY_LABELS) as ChangeCategory[]) {
+    const categoryChanges = changes.filter(c => c.category === category);
+    if (categoryChanges.length === 0) continue;
+
+    report += `\n### ${CATEGORY_LABELS[category]}\n\n`;
+    for (const change of categoryChanges) {
+      const indicator = KIND_INDICATORS[change.kind];
+      if (change.kind === 'changed') {
+        report += `- ${indicator} **${change.target}**: \`${inline(change.before)}\` → \`${inline(change.after)}\`\n`;
+      } else {
+        report += `- ${indicator} **${change.target}** ${change.kind}: \`${inline(change.after ?? change.before)}\`\n`;
+      }
+    }
+  }
+
+  return report;
+}
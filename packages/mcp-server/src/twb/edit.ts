@@ -0,0 +1,450 @@
+/**
+ * TWB Workbook Edits
+ *
+ * Structured edits that address workbook elements by identity
+ * (datasource + field, worksheet name, dashboard + zone id) rather than by
+ * matching XML text. Each edit mutates the XML tree in place and reports
+ * what it changed.
+ */
+
+import {
+  XmlDocument,
+  XmlElement,
+  getAttr,
+  setAttr,
+  childElements,
+  findChild,
+  findDescendants,
+  walkElements,
+  createElement,
+  appendChild,
+  insertAfter,
+  removeElement,
+} from './xml.js';
+import { PARAMETERS_DATASOURCE } from './model.js';
+
+// ==================== EDIT TYPES ====================
+
+export type TwbEdit =
+  | { op: 'set-calculation'; datasource?: string; field: string; formula: string }
+  | {
+      op: 'add-calculated-field';
+      datasource?: string;
+      caption: string;
+      formula: string;
+      datatype?: 'string' | 'integer' | 'real' | 'boolean' | 'date' | 'datetime';
+      role?: 'dimension' | 'measure';
+    }
+  | { op: 'remove-field'; datasource?: string; field: string }
+  | { op: 'set-field-caption'; datasource?: string; field: string; caption: string }
+  | { op: 'rename-worksheet'; worksheet: string; newName: string }
+  | { op: 'set-parameter'; parameter: string; value: string }
+  | { op: 'set-style'; worksheet?: string; dashboard?: string; element: string; attr: string; value: string; field?: string }
+  | { op: 'set-zone'; dashboard: string; zoneId: string; x?: number; y?: number; w?: number; h?: number }
+  | { op: 'remove-zone'; dashboard: string; zoneId: string };
+
+export type TwbEditOp = TwbEdit['op'];
+
+export const TWB_EDIT_OPS: TwbEditOp[] = [
+  'set-calculation',
+  'add-calculated-field',
+  'remove-field',
+  'set-field-caption',
+  'rename-worksheet',
+  'set-parameter',
+  'set-style',
+  'set-zone',
+  'remove-zone',
+];
+
+export interface TwbEditResult {
+  success: boolean;
+  /** Human-readable description of what changed */
+  description?: string;
+  error?: string;
+}
+
+/** String fields each op needs - names must be non-empty, values may be "" */
+const REQUIRED_FIELDS: Record<TwbEditOp, string[]> = {
+  'set-calculation': ['field', 'formula'],
+  'add-calculated-field': ['caption', 'formula'],
+  'remove-field': ['field'],
+  'set-field-caption': ['field', 'caption'],
+  'rename-worksheet': ['worksheet', 'newName'],
+  'set-parameter': ['parameter', 'value'],
+  'set-style': ['element', 'attr', 'value'],
+  'set-zone': ['dashboard', 'zoneId'],
+  'remove-zone': ['dashboard', 'zoneId'],
+};
+
+const OPTIONAL_STRING_FIELDS = ['datasource', 'worksheet', 'dashboard', 'field'];
+const ZONE_NUMBER_FIELDS = ['x', 'y', 'w', 'h'];
+const MAY_BE_EMPTY = new Set(['value', 'formula']);
+
+export interface TwbEditProblem {
+  /** Position of the edit in the batch */
+  index: number;
+  op: string;
+  error: string;
+}
+
+/**
+ * Check every edit's op and field types before any of them is applied.
+ * Edits arrive from the model as plain JSON, so the TwbEdit type is only
+ * a promise until this passes. Returns one problem per invalid edit.
+ */
+export function validateTwbEdits(edits: unknown[]): TwbEditProblem[] {
+  const problems: TwbEditProblem[] = [];
+  edits.forEach((edit, index) => {
+    if (!edit || typeof edit !== 'object') {
+      problems.push({ index, op: '', error: 'Edit must be an object' });
+      return;
+    }
+    const fields = edit as Record<string, unknown>;
+    const op = typeof fields.op === 'string' ? fields.op : '';
+    if (!TWB_EDIT_OPS.includes(op as TwbEditOp)) {
+      problems.push({ index, op, error: `Unknown edit operation: ${op || '(missing)'}. Use one of: ${TWB_EDIT_OPS.join(', ')}` });
+      return;
+    }
+
+    const errors: string[] = [];
+    for (const name of REQUIRED_FIELDS[op as TwbEditOp]) {
+      const value = fields[name];
+      if (typeof value !== 'string') errors.push(`${name} must be a string`);
+      else if (!value.trim() && !MAY_BE_EMPTY.has(name)) errors.push(`${name} must not be empty`);
+    }
+    for (const name of OPTIONAL_STRING_FIELDS) {
+      if (REQUIRED_FIELDS[op as TwbEditOp].includes(name) || fields[name] === undefined) continue;
+      if (typeof fields[name] !== 'string') errors.push(`${name} must be a string`);
+    }
+    if (op === 'set-zone') {
+      for (const name of ZONE_NUMBER_FIELDS) {
+        const value = fields[name];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+          errors.push(`${name} must be a number`);
+        }
+      }
+    }
+
+    if (errors.length > 0) problems.push({ index, op, error: errors.join('; ') });
+  });
+  return problems;
+}
+
+// ==================== LOOKUPS ====================
+
+function workbookSection(doc: XmlDocument, name: string): XmlElement | undefined {
+  return findChild(doc.root, name);
+}
+
+function dataDatasources(doc: XmlDocument): XmlElement[] {
+  const section = workbookSection(doc, 'datasources');
+  if (!section) return [];
+  return childElements(section, 'datasource').filter(d => getAttr(d, 'name') !== PARAMETERS_DATASOURCE);
+}
+
+/** Normalize a field reference so "Sales" and "[Sales]" both match */
+function bracketed(name: string): string {
+  return name.startsWith('[') ? name : `[${name}]`;
+}
+
+function matchesColumn(column: XmlElement, field: string): boolean {
+  return getAttr(column, 'name') === bracketed(field) || getAttr(column, 'caption') === field;
+}
+
+function findDatasource(doc: XmlDocument, name: string): XmlElement | undefined {
+  return dataDatasources(doc).find(d => getAttr(d, 'name') === name || getAttr(d, 'caption') === name);
+}
+
+/**
+ * Resolve a datasource by name/caption, or the only datasource when omitted
+ */
+function resolveDatasource(doc: XmlDocument, name?: string): { datasource?: XmlElement; error?: string } {
+  if (name) {
+    const datasource = findDatasource(doc, name);
+    return datasource ? { datasource } : { error: `Datasource not found: ${name}` };
+  }
+  const all = dataDatasources(doc);
+  if (all.length === 1) return { datasource: all[0] };
+  return {
+    error: all.length === 0
+      ? 'Workbook has no datasources'
+      : `Workbook has ${all.length} datasources - specify one of: ${all.map(d => getAttr(d, 'caption') || getAttr(d, 'name')).join(', ')}`,
+  };
+}
+
+/**
+ * Resolve a column by name/caption. Without a datasource, the field must be unique across the workbook.
+ */
+function resolveColumn(
+  doc: XmlDocument,
+  field: string,
+  datasourceName?: string
+): { column?: XmlElement; datasource?: XmlElement; error?: string } {
+  const candidates = datasourceName
+    ? (() => {
+        const datasource = findDatasource(doc, datasourceName);
+        return datasource ? [datasource] : [];
+      })()
+    : dataDatasources(doc);
+
+  if (datasourceName && candidates.length === 0) {
+    return { error: `Datasource not found: ${datasourceName}` };
+  }
+
+  const matches: Array<{ column: XmlElement; datasource: XmlElement }> = [];
+  for (const datasource of candidates) {
+    for (const column of childElements(datasource, 'column')) {
+      if (matchesColumn(column, field)) matches.push({ column, datasource });
+    }
+  }
+
+  if (matches.length === 0) return { error: `Field not found: ${field}` };
+  if (matches.length > 1) {
+    return { error: `Field "${field}" exists in ${matches.length} datasources - specify the datasource` };
+  }
+  return matches[0];
+}
+
+function findWorksheet(doc: XmlDocument, name: string): XmlElement | undefined {
+  const section = workbookSection(doc, 'worksheets');
+  return section && childElements(section, 'worksheet').find(w => getAttr(w, 'name') === name);
+}
+
+function findDashboard(doc: XmlDocument, name: string): XmlElement | undefined {
+  const section = workbookSection(doc, 'dashboards');
+  return section && childElements(section, 'dashboard').find(d => getAttr(d, 'name') === name);
+}
+
+function findZone(dashboard: XmlElement, zoneId: string): XmlElement | undefined {
+  return findDescendants(dashboard, 'zone').find(z => getAttr(z, 'id') === zoneId);
+}
+
+function generateCalculationName(doc: XmlDocument): string {
+  const existing = new Set<string>();
+  walkElements(doc.root, el => {
+    if (el.name === 'column') {
+      const name = getAttr(el, 'name');
+      if (name) existing.add(name);
+    }
+  });
+  // Tableau uses 19-digit identifiers for calculated fields
+  let name: string;
+  do {
+    const digits = `${Date.now()}${Math.floor(Math.random() * 1e6)}`.padEnd(19, '0').substring(0, 19);
+    name = `[Calculation_${digits}]`;
+  } while (existing.has(name));
+  return name;
+}
+
+// ==================== EDIT HANDLERS ====================
+
+function setCalculation(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'set-calculation' }>): TwbEditResult {
+  const { column, error } = resolveColumn(doc, edit.field, edit.datasource);
+  if (!column) return { success: false, error };
+  const calculation = findChild(column, 'calculation');
+  if (!calculation) {
+    return { success: false, error: `Field "${edit.field}" is not a calculated field` };
+  }
+  setAttr(calculation, 'formula', edit.formula);
+  return { success: true, description: `Updated formula of ${getAttr(column, 'caption') || getAttr(column, 'name')}` };
+}
+
+function addCalculatedField(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'add-calculated-field' }>): TwbEditResult {
+  const { datasource, error } = resolveDatasource(doc, edit.datasource);
+  if (!datasource) return { success: false, error };
+
+  const duplicate = childElements(datasource, 'column').some(c => getAttr(c, 'caption') === edit.caption);
+  if (duplicate) {
+    return { success: false, error: `A field named "${edit.caption}" already exists` };
+  }
+
+  const role = edit.role || 'measure';
+  const column = createElement('column', {
+    caption: edit.caption,
+    datatype: edit.datatype || 'real',
+    name: generateCalculationName(doc),
+    role,
+    type: role === 'measure' ? 'quantitative' : 'nominal',
+  });
+
+  // Keep columns grouped: insert after the last existing column when there is one
+  const columns = childElements(datasource, 'column');
+  if (columns.length > 0) {
+    insertAfter(columns[columns.length - 1], column);
+  } else {
+    appendChild(datasource, column);
+  }
+  // Appended once the column is in the tree so it picks up the right indentation
+  appendChild(column, createElement('calculation', { class: 'tableau', formula: edit.formula }));
+
+  return {
+    success: true,
+    description: `Added calculated field "${edit.caption}" (${getAttr(column, 'name')}) to ${getAttr(datasource, 'caption') || getAttr(datasource, 'name')}`,
+  };
+}
+
+function removeField(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'remove-field' }>): TwbEditResult {
+  const { column, error } = resolveColumn(doc, edit.field, edit.datasource);
+  if (!column) return { success: false, error };
+  const label = getAttr(column, 'caption') || getAttr(column, 'name');
+  removeElement(column);
+  return { success: true, description: `Removed field ${label}` };
+}
+
+function setFieldCaption(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'set-field-caption' }>): TwbEditResult {
+  const { column, error } = resolveColumn(doc, edit.field, edit.datasource);
+  if (!column) return { success: false, error };
+  setAttr(column, 'caption', edit.caption);
+  return { success: true, description: `Set caption of ${getAttr(column, 'name')} to "${edit.caption}"` };
+}
+
+function renameWorksheet(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'rename-worksheet' }>): TwbEditResult {
+  const worksheet = findWorksheet(doc, edit.worksheet);
+  if (!worksheet) return { success: false, error: `Worksheet not found: ${edit.worksheet}` };
+  if (findWorksheet(doc, edit.newName) || findDashboard(doc, edit.newName)) {
+    return { success: false, error: `A sheet named "${edit.newName}" already exists` };
+  }
+
+  // Sheet names are referenced from dashboard zones, windows, viewpoints, actions and story points
+  let references = 0;
+  walkElements(doc.root, el => {
+    const isSheetReference =
+      el === worksheet ||
+      (el.name === 'zone' && !getAttr(el, 'type-v2') && !getAttr(el, 'type')) ||
+      el.name === 'window' ||
+      el.name === 'viewpoint';
+    if (isSheetReference && getAttr(el, 'name') === edit.worksheet) {
+      setAttr(el, 'name', edit.newName);
+      references++;
+    }
+    for (const attr of ['worksheet', 'captured-sheet']) {
+      if (getAttr(el, attr) === edit.worksheet) {
+        setAttr(el, attr, edit.newName);
+        references++;
+      }
+    }
+  });
+
+  return {
+    success: true,
+    description: `Renamed worksheet "${edit.worksheet}" to "${edit.newName}" (${references} references updated)`,
+  };
+}
+
+function setParameter(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'set-parameter' }>): TwbEditResult {
+  const section = workbookSection(doc, 'datasources');
+  const parameters = section && childElements(section, 'datasource').find(d => getAttr(d, 'name') === PARAMETERS_DATASOURCE);
+  const column = parameters && childElements(parameters, 'column').find(c => matchesColumn(c, edit.parameter));
+  if (!column) return { success: false, error: `Parameter not found: ${edit.parameter}` };
+
+  const datatype = getAttr(column, 'datatype');
+  const literal = datatype === 'string' ? `"${edit.value.replace(/"/g, '""')}"` : edit.value;
+  setAttr(column, 'value', literal);
+  const calculation = findChild(column, 'calculation');
+  if (calculation) setAttr(calculation, 'formula', literal);
+
+  return { success: true, description: `Set parameter ${getAttr(column, 'caption') || edit.parameter} to ${literal}` };
+}
+
+function setStyle(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'set-style' }>): TwbEditResult {
+  let container: XmlElement | undefined;
+  let scopeLabel = 'workbook';
+  if (edit.worksheet) {
+    const worksheet = findWorksheet(doc, edit.worksheet);
+    if (!worksheet) return { success: false, error: `Worksheet not found: ${edit.worksheet}` };
+    container = findChild(worksheet, 'table');
+    if (!container) return { success: false, error: `Worksheet "${edit.worksheet}" has no table` };
+    scopeLabel = `worksheet "${edit.worksheet}"`;
+  } else if (edit.dashboard) {
+    container = findDashboard(doc, edit.dashboard);
+    if (!container) return { success: false, error: `Dashboard not found: ${edit.dashboard}` };
+    scopeLabel = `dashboard "${edit.dashboard}"`;
+  } else {
+    container = doc.root;
+  }
+
+  let style = findChild(container, 'style');
+  if (!style) {
+    style = createElement('style');
+    appendChild(container, style);
+  }
+
+  let rule = childElements(style, 'style-rule').find(r => getAttr(r, 'element') === edit.element);
+  if (!rule) {
+    rule = createElement('style-rule', { element: edit.element });
+    appendChild(style, rule);
+  }
+
+  const format = childElements(rule, 'format').find(
+    f => getAttr(f, 'attr') === edit.attr && getAttr(f, 'field') === edit.field
+  );
+  if (format) {
+    setAttr(format, 'value', edit.value);
+  } else {
+    const attrs: Record<string, string> = { attr: edit.attr };
+    if (edit.field) attrs.field = edit.field;
+    attrs.value = edit.value;
+    appendChild(rule, createElement('format', attrs));
+  }
+
+  return { success: true, description: `Set ${edit.element} ${edit.attr}=${edit.value} on ${scopeLabel}` };
+}
+
+function setZone(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'set-zone' }>): TwbEditResult {
+  const dashboard = findDashboard(doc, edit.dashboard);
+  if (!dashboard) return { success: false, error: `Dashboard not found: ${edit.dashboard}` };
+  const zone = findZone(dashboard, edit.zoneId);
+  if (!zone) return { success: false, error: `Zone ${edit.zoneId} not found in dashboard "${edit.dashboard}"` };
+
+  const changed: string[] = [];
+  for (const key of ['x', 'y', 'w', 'h'] as const) {
+    const value = edit[key];
+    if (value !== undefined) {
+      setAttr(zone, key, String(Math.round(value)));
+      changed.push(`${key}=${Math.round(value)}`);
+    }
+  }
+  if (changed.length === 0) return { success: false, error: 'set-zone requires at least one of x, y, w, h' };
+
+  return { success: true, description: `Updated zone ${edit.zoneId} in "${edit.dashboard}": ${changed.join(', ')}` };
+}
+
+function removeZone(doc: XmlDocument, edit: Extract<TwbEdit, { op: 'remove-zone' }>): TwbEditResult {
+  const dashboard = findDashboard(doc, edit.dashboard);
+  if (!dashboard) return { success: false, error: `Dashboard not found: ${edit.dashboard}` };
+  const zone = findZone(dashboard, edit.zoneId);
+  if (!zone) return { success: false, error: `Zone ${edit.zoneId} not found in dashboard "${edit.dashboard}"` };
+  removeElement(zone);
+  return { success: true, description: `Removed zone ${edit.zoneId} from "${edit.dashboard}"` };
+}
+
+// ==================== DISPATCH ====================
+
+/**
+ * Apply a single edit to a parsed workbook document (mutates the tree)
+ */
+export function applyTwbEdit(doc: XmlDocument, edit: TwbEdit): TwbEditResult {
+  switch (edit.op) {
+    case 'set-calculation':
+      return setCalculation(doc, edit);
+    case 'add-calculated-field':
+      return addCalculatedField(doc, edit);
+    case 'remove-field':
+      return removeField(doc, edit);
+    case 'set-field-caption':
+      return setFieldCaption(doc, edit);
+    case 'rename-worksheet':
+      return renameWorksheet(doc, edit);
+    case 'set-parameter':
+      return setParameter(doc, edit);
+    case 'set-style':
+      return setStyle(doc, edit);
+    case 'set-zone':
+      return setZone(doc, edit);
+    case 'remove-zone':
+      return removeZone(doc, edit);
+    default:
+      return { success: false, error: `Unknown edit operation: ${(edit as { op: string }).op}` };
+  }
+}
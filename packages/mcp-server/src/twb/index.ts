@@ -0,0 +1,66 @@
+/**
+ * TWB - Tableau workbook XML model
+ *
+ * Parses .twb XML into a structured model, applies identity-based edits
+ * that serialize back to valid TWB, and diffs workbook versions.
+ */
+
+import { parseXml, serializeXml } from './xml.js';
+import { buildWorkbookModel, TwbWorkbook } from './model.js';
+import { applyTwbEdit, TwbEdit } from './edit.js';
+import { diffWorkbooks, WorkbookDiff } from './diff.js';
+
+export * from './model.js';
+export * from './diff.js';
+export type { TwbEdit, TwbEditOp, TwbEditResult, TwbEditProblem } from './edit.js';
+export { TWB_EDIT_OPS, applyTwbEdit, validateTwbEdits } from './edit.js';
+export type { XmlDocument, XmlElement } from './xml.js';
+export { parseXml, serializeXml } from './xml.js';
+
+/**
+ * Parse workbook XML into the structured model
+ */
+export function parseWorkbookXml(xml: string): TwbWorkbook {
+  return buildWorkbookModel(parseXml(xml));
+}
+
+/**
+ * Compute the semantic diff between two versions of workbook XML
+ */
+export function diffWorkbookXml(beforeXml: string, afterXml: string): WorkbookDiff {
+  return diffWorkbooks(parseWorkbookXml(beforeXml), parseWorkbookXml(afterXml));
+}
+
+export interface TwbEditBatchResult {
+  success: boolean;
+  /** Updated XML - only set when every edit succeeded */
+  xml?: string;
+  applied: string[];
+  error?: string;
+  /** Index of the edit that failed */
+  failedIndex?: number;
+}
+
+/**
+ * Apply a batch of edits to workbook XML. The batch is atomic: if any edit
+ * fails, no XML is returned and the caller keeps the original.
+ */
+export function applyEditsToXml(xml: string, edits: TwbEdit[]): TwbEditBatchResult {
+  let doc;
+  try {
+    doc = parseXml(xml);
+  } catch (error) {
+    return { success: false, applied: [], error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const applied: string[] = [];
+  for (let i = 0; i < edits.length; i++) {
+    const result = applyTwbEdit(doc, edits[i]);
+    if (!result.success) {
+      return { success: false, applied, error: `Edit ${i + 1} (${edits[i].op}) failed: ${result.error}`, failedIndex: i };
+    }
+    applied.push(result.description || edits[i].op);
+  }
+
+  return { success: true, xml: serializeXml(doc), applied };
+}
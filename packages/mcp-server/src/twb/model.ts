@@ -0,0 +1,327 @@
+/**
+ * TWB Workbook Model
+ *
+ * Builds a plain, JSON-serializable view of a Tableau workbook from its XML tree:
+ * datasources, columns, calculations, parameters, worksheets, dashboards,
+ * zones and styles. The model is read-only - edits go through ./edit.ts,
+ * which addresses elements by identity and works on the XML tree directly.
+ */
+
+import {
+  XmlDocument,
+  XmlElement,
+  getAttr,
+  childElements,
+  findChild,
+  findDescendants,
+  textContent,
+} from './xml.js';
+
+// ==================== MODEL TYPES ====================
+
+export interface TwbColumn {
+  /** Internal name, e.g. "[Sales]" or "[Calculation_1234]" */
+  name: string;
+  caption?: string;
+  datatype?: string;
+  role?: string;
+  type?: string;
+  hidden?: boolean;
+}
+
+export interface TwbCalculation extends TwbColumn {
+  formula: string;
+  calculationClass: string;
+}
+
+export interface TwbDatasource {
+  name: string;
+  caption?: string;
+  connectionClass?: string;
+  columns: TwbColumn[];
+  calculations: TwbCalculation[];
+}
+
+export interface TwbParameter {
+  name: string;
+  caption?: string;
+  datatype?: string;
+  value?: string;
+  domainType?: string;
+  range?: { min?: string; max?: string; granularity?: string };
+  members?: string[];
+}
+
+export interface TwbStyleFormat {
+  attr: string;
+  value: string;
+  field?: string;
+  scope?: string;
+}
+
+export interface TwbStyleRule {
+  element: string;
+  formats: TwbStyleFormat[];
+}
+
+export interface TwbFilter {
+  filterClass?: string;
+  column: string;
+  /** Member values for categorical filters */
+  members: string[];
+  min?: string;
+  max?: string;
+}
+
+export interface TwbEncoding {
+  type: string;
+  column?: string;
+}
+
+export interface TwbWorksheet {
+  name: string;
+  datasources: string[];
+  rows?: string;
+  cols?: string;
+  markClass?: string;
+  filters: TwbFilter[];
+  encodings: TwbEncoding[];
+  styles: TwbStyleRule[];
+}
+
+export interface TwbZone {
+  id: string;
+  parentId?: string;
+  /** Worksheet name for worksheet zones */
+  name?: string;
+  type?: string;
+  x?: number;
+  y?: number;
+  w?: number;
+  h?: number;
+  param?: string;
+}
+
+export interface TwbDashboard {
+  name: string;
+  size?: Record<string, string>;
+  zones: TwbZone[];
+  styles: TwbStyleRule[];
+}
+
+export interface TwbColorPalette {
+  name?: string;
+  type?: string;
+  colors: string[];
+}
+
+export interface TwbWorkbook {
+  version?: string;
+  sourceBuild?: string;
+  datasources: TwbDatasource[];
+  parameters: TwbParameter[];
+  worksheets: TwbWorksheet[];
+  dashboards: TwbDashboard[];
+  styles: TwbStyleRule[];
+  colorPalettes: TwbColorPalette[];
+}
+
+/** Name of the pseudo-datasource that holds workbook parameters */
+export const PARAMETERS_DATASOURCE = 'Parameters';
+
+// ==================== BUILDERS ====================
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function buildColumn(column: XmlElement): TwbColumn {
+  return {
+    name: getAttr(column, 'name') || '',
+    caption: getAttr(column, 'caption'),
+    datatype: getAttr(column, 'datatype'),
+    role: getAttr(column, 'role'),
+    type: getAttr(column, 'type'),
+    hidden: getAttr(column, 'hidden') === 'true' || undefined,
+  };
+}
+
+function buildStyleRules(style: XmlElement | undefined): TwbStyleRule[] {
+  if (!style) return [];
+  return childElements(style, 'style-rule').map(rule => ({
+    element: getAttr(rule, 'element') || '',
+    formats: childElements(rule, 'format').map(format => ({
+      attr: getAttr(format, 'attr') || '',
+      value: getAttr(format, 'value') || '',
+      field: getAttr(format, 'field'),
+      scope: getAttr(format, 'scope'),
+    })),
+  }));
+}
+
+function buildDatasource(datasource: XmlElement): TwbDatasource {
+  const columns = childElements(datasource, 'column');
+  const calculations: TwbCalculation[] = [];
+
+  for (const column of columns) {
+    const calculation = findChild(column, 'calculation');
+    const formula = calculation && getAttr(calculation, 'formula');
+    if (calculation && formula !== undefined) {
+      calculations.push({
+        ...buildColumn(column),
+        formula,
+        calculationClass: getAttr(calculation, 'class') || 'tableau',
+      });
+    }
+  }
+
+  return {
+    name: getAttr(datasource, 'name') || '',
+    caption: getAttr(datasource, 'caption'),
+    connectionClass: (() => {
+      const connection = findChild(datasource, 'connection');
+      return connection ? getAttr(connection, 'class') : undefined;
+    })(),
+    columns: columns.map(buildColumn),
+    calculations,
+  };
+}
+
+function buildParameter(column: XmlElement): TwbParameter {
+  const range = findChild(column, 'range');
+  const members = findChild(column, 'members');
+  return {
+    name: getAttr(column, 'name') || '',
+    caption: getAttr(column, 'caption'),
+    datatype: getAttr(column, 'datatype'),
+    value: getAttr(column, 'value'),
+    domainType: getAttr(column, 'param-domain-type'),
+    range: range
+      ? { min: getAttr(range, 'min'), max: getAttr(range, 'max'), granularity: getAttr(range, 'granularity') }
+      : undefined,
+    members: members
+      ? childElements(members, 'member').map(m => getAttr(m, 'value') || '')
+      : undefined,
+  };
+}
+
+function buildFilter(filter: XmlElement): TwbFilter {
+  const members = findDescendants(filter, 'groupfilter')
+    .map(g => getAttr(g, 'member'))
+    .filter((m): m is string => m !== undefined);
+  const min = findChild(filter, 'min');
+  const max = findChild(filter, 'max');
+  return {
+    filterClass: getAttr(filter, 'class'),
+    column: getAttr(filter, 'column') || '',
+    members,
+    min: min ? textContent(min) : undefined,
+    max: max ? textContent(max) : undefined,
+  };
+}
+
+function buildWorksheet(worksheet: XmlElement): TwbWorksheet {
+  const table = findChild(worksheet, 'table');
+  const view = table && findChild(table, 'view');
+  const rows = table && findChild(table, 'rows');
+  const cols = table && findChild(table, 'cols');
+  const viewDatasources = view && findChild(view, 'datasources');
+  const mark = table ? findDescendants(table, 'mark')[0] : undefined;
+
+  const encodings: TwbEncoding[] = [];
+  if (table) {
+    for (const encodingsEl of findDescendants(table, 'encodings')) {
+      for (const encoding of childElements(encodingsEl)) {
+        encodings.push({ type: encoding.name, column: getAttr(encoding, 'column') });
+      }
+    }
+  }
+
+  return {
+    name: getAttr(worksheet, 'name') || '',
+    datasources: viewDatasources
+      ? childElements(viewDatasources, 'datasource').map(d => getAttr(d, 'name') || '')
+      : [],
+    rows: rows ? textContent(rows) : undefined,
+    cols: cols ? textContent(cols) : undefined,
+    markClass: mark ? getAttr(mark, 'class') : undefined,
+    filters: view ? childElements(view, 'filter').map(buildFilter) : [],
+    encodings,
+    styles: buildStyleRules(table && findChild(table, 'style')),
+  };
+}
+
+function collectZones(zone: XmlElement, parentId: string | undefined, out: TwbZone[]): void {
+  const id = getAttr(zone, 'id') || '';
+  out.push({
+    id,
+    parentId,
+    name: getAttr(zone, 'name'),
+    type: getAttr(zone, 'type-v2') ?? getAttr(zone, 'type'),
+    x: toNumber(getAttr(zone, 'x')),
+    y: toNumber(getAttr(zone, 'y')),
+    w: toNumber(getAttr(zone, 'w')),
+    h: toNumber(getAttr(zone, 'h')),
+    param: getAttr(zone, 'param'),
+  });
+  for (const child of childElements(zone, 'zone')) {
+    collectZones(child, id, out);
+  }
+}
+
+function buildDashboard(dashboard: XmlElement): TwbDashboard {
+  const size = findChild(dashboard, 'size');
+  const zonesEl = findChild(dashboard, 'zones');
+  const zones: TwbZone[] = [];
+  if (zonesEl) {
+    for (const zone of childElements(zonesEl, 'zone')) {
+      collectZones(zone, undefined, zones);
+    }
+  }
+  return {
+    name: getAttr(dashboard, 'name') || '',
+    size: size ? Object.fromEntries(size.attributes.map(a => [a.name, a.value])) : undefined,
+    zones,
+    styles: buildStyleRules(findChild(dashboard, 'style')),
+  };
+}
+
+function buildColorPalettes(root: XmlElement): TwbColorPalette[] {
+  const preferences = findChild(root, 'preferences');
+  if (!preferences) return [];
+  return findDescendants(preferences, 'color-palette').map(palette => ({
+    name: getAttr(palette, 'name'),
+    type: getAttr(palette, 'type'),
+    colors: childElements(palette, 'color').map(textContent),
+  }));
+}
+
+/**
+ * Build the workbook model from a parsed TWB document
+ */
+export function buildWorkbookModel(doc: XmlDocument): TwbWorkbook {
+  const root = doc.root;
+  if (root.name !== 'workbook') {
+    throw new Error(`Not a Tableau workbook: root element is <${root.name}>`);
+  }
+
+  const datasourcesEl = findChild(root, 'datasources');
+  const datasourceEls = datasourcesEl ? childElements(datasourcesEl, 'datasource') : [];
+  const parametersEl = datasourceEls.find(d => getAttr(d, 'name') === PARAMETERS_DATASOURCE);
+
+  const worksheetsEl = findChild(root, 'worksheets');
+  const dashboardsEl = findChild(root, 'dashboards');
+
+  return {
+    version: getAttr(root, 'version'),
+    sourceBuild: getAttr(root, 'source-build'),
+    datasources: datasourceEls.filter(d => d !== parametersEl).map(buildDatasource),
+    parameters: parametersEl ? childElements(parametersEl, 'column').map(buildParameter) : [],
+    worksheets: worksheetsEl ? childElements(worksheetsEl, 'worksheet').map(buildWorksheet) : [],
+    dashboards: dashboardsEl ? childElements(dashboardsEl, 'dashboard').map(buildDashboard) : [],
+    styles: buildStyleRules(findChild(root, 'style')),
+    colorPalettes: buildColorPalettes(root),
+  };
+}
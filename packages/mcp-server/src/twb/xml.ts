@@ -0,0 +1,455 @@
+/**
+ * Minimal XML DOM for Tableau workbooks
+ *
+ * Parses .twb XML into an ordered node tree and serializes it back.
+ * Attribute and text values keep their original encoding until they are
+ * changed, so an unmodified document round-trips without reformatting
+ * (apart from whitespace between attributes).
+ *
+ * CDATA sections and comments are kept as opaque nodes, so edits never
+ * touch text that only looks like markup.
+ */
+
+// ==================== NODE TYPES ====================
+
+export interface XmlAttribute {
+  name: string;
+  value: string;
+  quote: '"' | "'";
+  /** Original encoded value - cleared when the value changes */
+  raw?: string;
+}
+
+export interface XmlElement {
+  type: 'element';
+  name: string;
+  attributes: XmlAttribute[];
+  children: XmlNode[];
+  selfClosing: boolean;
+  parent: XmlElement | null;
+}
+
+export interface XmlText {
+  type: 'text';
+  /** Encoded text as it appears in the document */
+  raw: string;
+}
+
+export interface XmlCData {
+  type: 'cdata';
+  value: string;
+}
+
+export interface XmlComment {
+  type: 'comment';
+  value: string;
+}
+
+export interface XmlProcessingInstruction {
+  type: 'pi';
+  raw: string;
+}
+
+export interface XmlDoctype {
+  type: 'doctype';
+  raw: string;
+}
+
+export type XmlNode = XmlElement | XmlText | XmlCData | XmlComment | XmlProcessingInstruction | XmlDoctype;
+
+export interface XmlDocument {
+  children: XmlNode[];
+  root: XmlElement;
+}
+
+// ==================== ENTITIES ====================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeEntities(raw: string): string {
+  return raw.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function encodeAttribute(value: string, quote: '"' | "'"): string {
+  let encoded = value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+  if (quote === "'") {
+    encoded = encoded.replace(/'/g, '&apos;');
+  }
+  return encoded;
+}
+
+function encodeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// ==================== PARSER ====================
+
+const NAME_PATTERN = /[A-Za-z_:][-A-Za-z0-9_:.]*/y;
+
+/**
+ * Parse an XML string into a document tree
+ * Throws with the character offset when the XML is malformed
+ */
+export function parseXml(xml: string): XmlDocument {
+  const topLevel: XmlNode[] = [];
+  const stack: XmlElement[] = [];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`XML parse error at offset ${pos}: ${message}`);
+  };
+
+  const append = (node: XmlNode) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      if (node.type === 'element') node.parent = parent;
+      parent.children.push(node);
+    } else {
+      topLevel.push(node);
+    }
+  };
+
+  const readName = (): string => {
+    NAME_PATTERN.lastIndex = pos;
+    const match = NAME_PATTERN.exec(xml);
+    if (!match) fail('expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const skipWhitespace = () => {
+    while (pos < xml.length && /\s/.test(xml[pos])) pos++;
+  };
+
+  const readUntil = (terminator: string, what: string): string => {
+    const end = xml.indexOf(terminator, pos);
+    if (end === -1) fail(`unterminated ${what}`);
+    const content = xml.substring(pos, end);
+    pos = end + terminator.length;
+    return content;
+  };
+
+  // Skip a byte order mark if present
+  if (xml.charCodeAt(0) === 0xfeff) pos = 1;
+
+  while (pos < xml.length) {
+    if (xml[pos] !== '<') {
+      const end = xml.indexOf('<', pos);
+      const raw = xml.substring(pos, end === -1 ? xml.length : end);
+      pos = end === -1 ? xml.length : end;
+      if (stack.length === 0 && raw.trim() !== '') fail('text outside the root element');
+      append({ type: 'text', raw });
+      continue;
+    }
+
+    if (xml.startsWith('<!--', pos)) {
+      pos += 4;
+      append({ type: 'comment', value: readUntil('-->', 'comment') });
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      append({ type: 'cdata', value: readUntil(']]>', 'CDATA section') });
+    } else if (xml.startsWith('<?', pos)) {
+      const start = pos;
+      pos += 2;
+      readUntil('?>', 'processing instruction');
+      append({ type: 'pi', raw: xml.substring(start, pos) });
+    } else if (xml.startsWith('<!DOCTYPE', pos)) {
+      const start = pos;
+      let depth = 0;
+      while (pos < xml.length) {
+        const ch = xml[pos++];
+        if (ch === '[') depth++;
+        else if (ch === ']') depth--;
+        else if (ch === '>' && depth === 0) break;
+      }
+      append({ type: 'doctype', raw: xml.substring(start, pos) });
+    } else if (xml.startsWith('</', pos)) {
+      pos += 2;
+      const name = readName();
+      skipWhitespace();
+      if (xml[pos] !== '>') fail(`expected '>' to close </${name}`);
+      pos++;
+      const open = stack.pop();
+      if (!open) fail(`unexpected closing tag </${name}>`);
+      if (open!.name !== name) fail(`mismatched closing tag </${name}>, expected </${open!.name}>`);
+    } else {
+      pos++;
+      const element: XmlElement = {
+        type: 'element',
+        name: readName(),
+        attributes: [],
+        children: [],
+        selfClosing: false,
+        parent: null,
+      };
+
+      for (;;) {
+        skipWhitespace();
+        if (xml.startsWith('/>', pos)) {
+          pos += 2;
+          element.selfClosing = true;
+          break;
+        }
+        if (xml[pos] === '>') {
+          pos++;
+          break;
+        }
+        if (pos >= xml.length) fail(`unterminated start tag <${element.name}`);
+
+        const attrName = readName();
+        skipWhitespace();
+        if (xml[pos] !== '=') fail(`expected '=' after attribute ${attrName}`);
+        pos++;
+        skipWhitespace();
+        const quote = xml[pos];
+        if (quote !== '"' && quote !== "'") fail(`expected quoted value for attribute ${attrName}`);
+        pos++;
+        const raw = readUntil(quote, `attribute ${attrName}`);
+        element.attributes.push({ name: attrName, value: decodeEntities(raw), quote: quote as '"' | "'", raw });
+      }
+
+      append(element);
+      if (!element.selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`unclosed element <${stack[stack.length - 1].name}>`);
+  }
+
+  const roots = topLevel.filter((n): n is XmlElement => n.type === 'element');
+  if (roots.length !== 1) {
+    throw new Error(`XML parse error: expected exactly one root element, found ${roots.length}`);
+  }
+
+  return { children: topLevel, root: roots[0] };
+}
+
+// ==================== SERIALIZER ====================
+
+function serializeNode(node: XmlNode, out: string[]): void {
+  switch (node.type) {
+    case 'text':
+      out.push(node.raw);
+      break;
+    case 'cdata':
+      out.push(`<![CDATA[${node.value}]]>`);
+      break;
+    case 'comment':
+      out.push(`<!--${node.value}-->`);
+      break;
+    case 'pi':
+    case 'doctype':
+      out.push(node.raw);
+      break;
+    case 'element': {
+      out.push(`<${node.name}`);
+      for (const attr of node.attributes) {
+        const encoded = attr.raw ?? encodeAttribute(attr.value, attr.quote);
+        out.push(` ${attr.name}=${attr.quote}${encoded}${attr.quote}`);
+      }
+      if (node.selfClosing && node.children.length === 0) {
+        out.push(' />');
+        break;
+      }
+      out.push('>');
+      for (const child of node.children) serializeNode(child, out);
+      out.push(`</${node.name}>`);
+      break;
+    }
+  }
+}
+
+/**
+ * Serialize a document tree back to an XML string
+ */
+export function serializeXml(doc: XmlDocument): string {
+  const out: string[] = [];
+  for (const node of doc.children) serializeNode(node, out);
+  return out.join('');
+}
+
+// ==================== QUERY HELPERS ====================
+
+export function getAttr(element: XmlElement, name: string): string | undefined {
+  return element.attributes.find(a => a.name === name)?.value;
+}
+
+/**
+ * Set an attribute, adding it if missing. New attributes use the element's
+ * existing quote style (Tableau writes single quotes).
+ */
+export function setAttr(element: XmlElement, name: string, value: string): void {
+  const existing = element.attributes.find(a => a.name === name);
+  if (existing) {
+    if (existing.value !== value) {
+      existing.value = value;
+      existing.raw = undefined;
+    }
+    return;
+  }
+  const quote = element.attributes[0]?.quote ?? "'";
+  element.attributes.push({ name, value, quote });
+}
+
+export function removeAttr(element: XmlElement, name: string): void {
+  element.attributes = element.attributes.filter(a => a.name !== name);
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (c): c is XmlElement => c.type === 'element' && (!name || c.name === name)
+  );
+}
+
+export function findChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * Find all descendant elements with the given name (document order)
+ */
+export function findDescendants(element: XmlElement, name: string): XmlElement[] {
+  const results: XmlElement[] = [];
+  const visit = (el: XmlElement) => {
+    for (const child of el.children) {
+      if (child.type !== 'element') continue;
+      if (child.name === name) results.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return results;
+}
+
+/**
+ * Visit every element in the subtree, including the element itself
+ */
+export function walkElements(element: XmlElement, visitor: (el: XmlElement) => void): void {
+  visitor(element);
+  for (const child of element.children) {
+    if (child.type === 'element') walkElements(child, visitor);
+  }
+}
+
+/**
+ * Concatenated decoded text and CDATA content of an element
+ */
+export function textContent(element: XmlElement): string {
+  return element.children
+    .map(c => {
+      if (c.type === 'text') return decodeEntities(c.raw);
+      if (c.type === 'cdata') return c.value;
+      if (c.type === 'element') return textContent(c);
+      return '';
+    })
+    .join('');
+}
+
+export function setTextContent(element: XmlElement, value: string): void {
+  element.children = [{ type: 'text', raw: encodeText(value) }];
+  element.selfClosing = false;
+}
+
+// ==================== MUTATION HELPERS ====================
+
+export function createElement(name: string, attributes: Record<string, string> = {}): XmlElement {
+  return {
+    type: 'element',
+    name,
+    attributes: Object.entries(attributes).map(([attrName, value]) => ({ name: attrName, value, quote: "'" as const })),
+    children: [],
+    selfClosing: true,
+    parent: null,
+  };
+}
+
+/**
+ * Leading indentation of an element, taken from the whitespace before it
+ */
+function indentationOf(element: XmlElement): string {
+  const parent = element.parent;
+  if (!parent) return '';
+  const index = parent.children.indexOf(element);
+  const previous = parent.children[index - 1];
+  if (previous?.type === 'text' && /^\s*$/.test(previous.raw)) {
+    const lastNewline = previous.raw.lastIndexOf('\n');
+    return lastNewline === -1 ? '' : previous.raw.substring(lastNewline + 1);
+  }
+  return '';
+}
+
+/**
+ * Append a child element, matching the document's pretty-print indentation
+ */
+export function appendChild(parent: XmlElement, child: XmlElement): void {
+  child.parent = parent;
+  const parentIndent = indentationOf(parent);
+  const childIndent = parentIndent + '  ';
+
+  if (parent.children.length === 0) {
+    parent.selfClosing = false;
+    parent.children.push(
+      { type: 'text', raw: `\n${childIndent}` },
+      child,
+      { type: 'text', raw: `\n${parentIndent}` }
+    );
+    return;
+  }
+
+  const last = parent.children[parent.children.length - 1];
+  if (last.type === 'text' && /^\s*$/.test(last.raw) && last.raw.includes('\n')) {
+    parent.children.splice(parent.children.length - 1, 0, { type: 'text', raw: `\n${childIndent}` }, child);
+  } else {
+    parent.children.push(child);
+  }
+}
+
+/**
+ * Insert an element directly after a sibling, copying the sibling's indentation
+ */
+export function insertAfter(sibling: XmlElement, element: XmlElement): void {
+  const parent = sibling.parent;
+  if (!parent) throw new Error('Cannot insert next to the root element');
+  element.parent = parent;
+  const index = parent.children.indexOf(sibling);
+  const indent = indentationOf(sibling);
+  parent.children.splice(index + 1, 0, { type: 'text', raw: `\n${indent}` }, element);
+}
+
+/**
+ * Remove an element together with the indentation whitespace before it
+ */
+export function removeElement(element: XmlElement): void {
+  const parent = element.parent;
+  if (!parent) throw new Error('Cannot remove the root element');
+  const index = parent.children.indexOf(element);
+  if (index === -1) return;
+  const previous = parent.children[index - 1];
+  if (previous?.type === 'text' && /^\s*$/.test(previous.raw)) {
+    parent.children.splice(index - 1, 2);
+  } else {
+    parent.children.splice(index, 1);
+  }
+  element.parent = null;
+}
@@ -0,0 +1,335 @@
+/**
+ * Usage Ledger - token and cost accounting for LLM calls
+ *
+ * Each chat reply (all of its model turns, including conversation summaries)
+ * and each vision call made by a tool is appended to a JSONL ledger: tokens,
+ * estimated cost, tools used, the caller and the dashboard it came from.
+ * Stored in DASHAGENT_USAGE_FILE (default ~/.dashagent/usage.jsonl).
+ *
+ * The caller is the paired extension's token id, or the dashboard/client id
+ * for extensions on the shared token, or "mcp" for local MCP clients.
+ *
+ * PRICING:
+ * Costs are estimates from list prices in USD per million tokens
+ * (MODEL_PRICES, longest "provider:model" prefix wins). Local and mock models
+ * are free; models without a price are recorded with costUsd null. Add or
+ * override prices with DASHAGENT_MODEL_PRICES:
+ *   {"openai:gpt-4o": {"input": 2.5, "output": 10}}
+ *
+ * DAILY BUDGETS (UTC days):
+ * - DASHAGENT_DAILY_BUDGET_USD: all callers together
+ * - DASHAGENT_CALLER_DAILY_BUDGET_USD: each caller
+ * Once a budget is spent, chats use DASHAGENT_BUDGET_DOWNGRADE_MODEL
+ * ("provider:model") for the rest of the day, or are refused if it is unset.
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { getProvider, ModelConfig } from './providers/index.js';
+
+// Read on use so the replay harness can point the ledger elsewhere
+const usageFile = () => process.env.DASHAGENT_USAGE_FILE || join(homedir(), '.dashagent', 'usage.jsonl');
+
+export interface UsageCaller {
+  clientId?: string;
+  tokenId?: string;
+  dashboardName?: string;
+}
+
+export interface UsageEntry extends UsageCaller {
+  timestamp: string;
+  kind: 'chat' | 'vision';
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated USD; null when the model has no known price */
+  costUsd: number | null;
+  tools: string[];
+  caller: string;
+  conversationId?: string;
+  /** Requested "provider:model" when a budget downgraded the call */
+  downgradedFrom?: string;
+}
+
+export const USAGE_GROUP_BY = ['model', 'provider', 'tool', 'caller', 'dashboard', 'day', 'kind'] as const;
+export type UsageGroupBy = typeof USAGE_GROUP_BY[number];
+
+export interface UsageGroup {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export type BudgetDecision =
+  | { action: 'allow' }
+  | { action: 'downgrade'; modelConfig: ModelConfig; reason: string }
+  | { action: 'refuse'; reason: string };
+
+// USD per million tokens, by "provider:model" prefix
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'openai:gpt-5.2-pro': { input: 21, output: 168 },
+  'openai:gpt-5.2': { input: 1.75, output: 14 },
+  'openai:gpt-5-nano': { input: 0.05, output: 0.4 },
+  'openai:gpt-5-mini': { input: 0.25, output: 2 },
+  'openai:gpt-5': { input: 1.25, output: 10 },
+  'openai:gpt-4.1': { input: 2, output: 8 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'anthropic:claude-opus-4-5': { input: 5, output: 25 },
+  'anthropic:claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic:claude-haiku-4-5': { input: 1, output: 5 },
+  'anthropic:claude-3-opus': { input: 15, output: 75 },
+  'anthropic:claude-3-5-sonnet': { input: 3, output: 15 },
+  'anthropic:claude-3-haiku': { input: 0.25, output: 1.25 },
+  'local:': { input: 0, output: 0 },
+  'mock:': { input: 0, output: 0 },
+};
+
+function modelPrices(): Record<string, { input: number; output: number }> {
+  try {
+    return { ...MODEL_PRICES, ...JSON.parse(process.env.DASHAGENT_MODEL_PRICES || '{}') };
+  } catch {
+    console.error('[Usage] DASHAGENT_MODEL_PRICES is not valid JSON - using built-in prices');
+    return MODEL_PRICES;
+  }
+}
+
+/**
+ * Estimated USD cost of a call, or null when the model has no known price
+ */
+export function estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number | null {
+  const id = `${provider}:${model}`;
+  const prices = modelPrices();
+  const match = Object.keys(prices)
+    .filter(prefix => id.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!match) return null;
+  const { input, output } = prices[match];
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+export function callerKey(caller: UsageCaller): string {
+  return caller.tokenId || caller.dashboardName || caller.clientId || 'mcp';
+}
+
+function budgetFromEnv(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || '');
+  return value > 0 ? value : undefined;
+}
+
+// ==================== LEDGER ====================
+
+async function readLedger(): Promise<UsageEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(usageFile(), 'utf8');
+  } catch {
+    return [];
+  }
+  const entries: UsageEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip a partially written line rather than losing the whole ledger
+    }
+  }
+  return entries;
+}
+
+// Today's spend, loaded from the ledger on first use and kept current by recordUsage
+let today: { file: string; day: string; totalUsd: number; byCaller: Map<string, number> } | null = null;
+let todayLoading: Promise<void> | null = null;
+
+const roundUsd = (usd: number) => Math.round(usd * 10000) / 10000;
+const utcDay = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+async function todaySpend(): Promise<NonNullable<typeof today>> {
+  if (today && (today.day !== utcDay() || today.file !== usageFile())) today = null;
+  if (!today) {
+    todayLoading ??= (async () => {
+      const day = utcDay();
+      const spend = { file: usageFile(), day, totalUsd: 0, byCaller: new Map<string, number>() };
+      for (const entry of await readLedger()) {
+        if (entry.timestamp.slice(0, 10) !== day || !entry.costUsd) continue;
+        spend.totalUsd += entry.costUsd;
+        spend.byCaller.set(entry.caller, (spend.byCaller.get(entry.caller) || 0) + entry.costUsd);
+      }
+      today = spend;
+    })().finally(() => { todayLoading = null; });
+    await todayLoading;
+  }
+  return today!;
+}
+
+/**
+ * Append a call to the ledger (cost is estimated here)
+ */
+export async function recordUsage(
+  entry: Omit<UsageEntry, 'timestamp' | 'costUsd' | 'caller'>
+): Promise<UsageEntry> {
+  const recorded: UsageEntry = {
+    timestamp: new Date().toISOString(),
+    ...entry,
+    caller: callerKey(entry),
+    costUsd: estimateCost(entry.provider, entry.model, entry.promptTokens, entry.completionTokens),
+  };
+
+  const spend = await todaySpend();
+  if (recorded.costUsd) {
+    spend.totalUsd += recorded.costUsd;
+    spend.byCaller.set(recorded.caller, (spend.byCaller.get(recorded.caller) || 0) + recorded.costUsd);
+  }
+
+  const file = usageFile();
+  try {
+    await mkdir(dirname(file), { recursive: true });
+    await appendFile(file, JSON.stringify(recorded) + '\n');
+  } catch (error) {
+    console.error(`[Usage] Failed to write ${file}:`, error);
+  }
+  return recorded;
+}
+
+// ==================== BUDGETS ====================
+
+/**
+ * Today's spend against the budgets, overall and for one caller key
+ */
+export async function getBudgetStatus(caller?: string): Promise<{
+  day: string;
+  spentUsd: number;
+  dailyBudgetUsd?: number;
+  caller?: { key: string; spentUsd: number; dailyBudgetUsd?: number };
+  downgradeModel?: string;
+}> {
+  const spend = await todaySpend();
+  return {
+    day: spend.day,
+    spentUsd: roundUsd(spend.totalUsd),
+    dailyBudgetUsd: budgetFromEnv('DASHAGENT_DAILY_BUDGET_USD'),
+    ...(caller ? {
+      caller: {
+        key: caller,
+        spentUsd: roundUsd(spend.byCaller.get(caller) || 0),
+        dailyBudgetUsd: budgetFromEnv('DASHAGENT_CALLER_DAILY_BUDGET_USD'),
+      },
+    } : {}),
+    downgradeModel: process.env.DASHAGENT_BUDGET_DOWNGRADE_MODEL || undefined,
+  };
+}
+
+/**
+ * Decide whether a chat may use its model given today's spend
+ */
+export async function checkBudget(modelConfig: ModelConfig, caller: UsageCaller): Promise<BudgetDecision> {
+  const status = await getBudgetStatus(callerKey(caller));
+  let exceeded: string | undefined;
+  if (status.dailyBudgetUsd !== undefined && status.spentUsd >= status.dailyBudgetUsd) {
+    exceeded = `the daily budget of $${status.dailyBudgetUsd.toFixed(2)}`;
+  } else if (status.caller?.dailyBudgetUsd !== undefined && status.caller.spentUsd >= status.caller.dailyBudgetUsd) {
+    exceeded = `your daily budget of $${status.caller.dailyBudgetUsd.toFixed(2)}`;
+  }
+  if (!exceeded) return { action: 'allow' };
+
+  const downgrade = status.downgradeModel;
+  const separator = downgrade?.indexOf(':') ?? -1;
+  if (!downgrade || separator < 0) {
+    return { action: 'refuse', reason: `Usage has reached ${exceeded} for today. Try again tomorrow (UTC).` };
+  }
+
+  const provider = downgrade.slice(0, separator);
+  const model = downgrade.slice(separator + 1);
+  if (provider === modelConfig.provider && model === modelConfig.model) return { action: 'allow' };
+
+  // The chat's key only works for its own provider
+  const apiKey = provider === modelConfig.provider ? modelConfig.apiKey : '';
+  if (!getProvider(provider) || (getProvider(provider)!.requiresApiKey && !apiKey)) {
+    return {
+      action: 'refuse',
+      reason: `Usage has reached ${exceeded} for today and the fallback model ${downgrade} is not available with this API key.`,
+    };
+  }
+  return {
+    action: 'downgrade',
+    modelConfig: { provider, model, apiKey },
+    reason: `Usage has reached ${exceeded} for today - using ${downgrade}.`,
+  };
+}
+
+// ==================== QUERY ====================
+
+/**
+ * Summarize the ledger between two dates, grouped by one dimension.
+ * Grouping by tool counts each call once per tool it used.
+ */
+export async function queryUsage(options: {
+  since?: Date;
+  until?: Date;
+  groupBy?: UsageGroupBy;
+  dashboard?: string;
+  caller?: string;
+}): Promise<{
+  from?: string;
+  to?: string;
+  totals: Omit<UsageGroup, 'key'>;
+  groups: UsageGroup[];
+  unpricedModels: string[];
+}> {
+  const groupBy = options.groupBy || 'model';
+  const entries = (await readLedger()).filter(entry => {
+    const time = new Date(entry.timestamp);
+    if (options.since && time < options.since) return false;
+    if (options.until && time > options.until) return false;
+    if (options.dashboard && entry.dashboardName !== options.dashboard) return false;
+    if (options.caller && entry.caller !== options.caller) return false;
+    return true;
+  });
+
+  const keysFor = (entry: UsageEntry): string[] => {
+    switch (groupBy) {
+      case 'provider': return [entry.provider];
+      case 'tool': return entry.tools.length > 0 ? entry.tools : ['(no tools)'];
+      case 'caller': return [entry.caller];
+      case 'dashboard': return [entry.dashboardName || '(MCP client)'];
+      case 'day': return [entry.timestamp.slice(0, 10)];
+      case 'kind': return [entry.kind];
+      default: return [`${entry.provider}:${entry.model}`];
+    }
+  };
+
+  const totals = { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  const groups = new Map<string, UsageGroup>();
+  const unpriced = new Set<string>();
+  for (const entry of entries) {
+    totals.calls++;
+    totals.promptTokens += entry.promptTokens;
+    totals.completionTokens += entry.completionTokens;
+    totals.costUsd += entry.costUsd || 0;
+    if (entry.costUsd === null) unpriced.add(`${entry.provider}:${entry.model}`);
+
+    for (const key of new Set(keysFor(entry))) {
+      const group = groups.get(key) || { key, calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+      group.calls++;
+      group.promptTokens += entry.promptTokens;
+      group.completionTokens += entry.completionTokens;
+      group.costUsd += entry.costUsd || 0;
+      groups.set(key, group);
+    }
+  }
+
+  return {
+    from: options.since?.toISOString(),
+    to: options.until?.toISOString(),
+    totals: { ...totals, costUsd: roundUsd(totals.costUsd) },
+    groups: Array.from(groups.values())
+      .map(group => ({ ...group, costUsd: roundUsd(group.costUsd) }))
+      .sort((a, b) => b.costUsd - a.costUsd || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens)),
+    unpricedModels: Array.from(unpriced),
+  };
+}
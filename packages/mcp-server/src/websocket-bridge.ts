@@ -1,17 +1,39 @@
 /**
  * WebSocketBridge - Manages connections to Tableau Extensions (Dashboard and Viz)
  * 
- * SECURITY: Uses a shared secret for authentication. The extension must send
- * the correct token in the 'register' message to be allowed to use tools.
+ * SECURITY: The extension must send a valid token in the 'register' message
+ * to be allowed to use tools - either a per-client token obtained by pairing
+ * (see client-auth.ts) or the shared DASHAGENT_WS_TOKEN secret. Unpaired
+ * extensions stay connected only to send a 'pair' message with the one-time
+ * code printed by the server.
+ * 
+ * ROUTING: Chats and tool calls from an extension run in a routing context
+ * bound to that client, so every request they make (data, renders, progress)
+ * goes back to the same dashboard. Calls from plain MCP clients name a target
+ * with runForClient(); with several extensions connected and no target,
+ * requests fail rather than guess.
  */
 
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
 import { WebSocketServer, WebSocket } from 'ws';
 import { handleToolCall } from './tools/index.js';
-import { handleChat } from './llm-handler.js';
+import { handleChat, ChatStreamEvent } from './llm-handler.js';
 import { getAvailableTools } from './tool-router.js';
-
-// Shared secret for WebSocket authentication (set via env or use default for dev)
-const WS_AUTH_TOKEN = process.env.DASHAGENT_WS_TOKEN || 'dashagent-dev-token-2024';
+import { recordAudit } from './audit-log.js';
+import {
+  resolveSharedToken,
+  createPairingCode,
+  redeemPairingCode,
+  verifyClientToken,
+  rotateClientToken,
+  getTokenChain,
+} from './client-auth.js';
+
+// Failed pairing attempts allowed per connection before it is closed
+// (client-auth.ts also limits failures across all connections)
+const MAX_PAIRING_ATTEMPTS = 5;
+// Default wait for an extension to answer a request
+const REQUEST_TIMEOUT_MS = 30000;
 
 type ExtensionType = 'dashboard' | 'viz' | 'unknown';
 
@@ -23,23 +45,54 @@ interface ExtensionClient {
   worksheetName?: string;
   connectedAt: Date;
   authenticated: boolean;  // Track auth status
+  tokenId?: string;  // Paired token used to register (undefined for the shared secret)
+  pairingAttempts: number;
 }
 
 interface PendingRequest {
+  clientId: string;  // Only this client may answer
   resolve: (value: any) => void;
   reject: (reason: any) => void;
   timeout: NodeJS.Timeout;
 }
 
+export interface ConnectedClientInfo {
+  id: string;
+  extensionType: ExtensionType;
+  dashboardName?: string;
+  worksheetName?: string;
+  connectedAt: Date;
+}
+
+/**
+ * Stands in for the extension during one chat (see harness/record-replay.ts).
+ * Recording observes real round-trips; replay answers from a fixture.
+ */
+export interface ExtensionTrafficHook {
+  /** Answer a request without sending it (return undefined to send for real) */
+  respond?(message: any, noWait: boolean): { response?: any; error?: string } | undefined;
+  /** Called with the outcome of each request that was sent */
+  observe?(message: any, noWait: boolean, outcome: { response?: any; error?: string }): void;
+  /** Connection state to report instead of the live one */
+  connection?: { connected: boolean; clients: ConnectedClientInfo[] };
+}
+
 export class WebSocketBridge {
   private wss: WebSocketServer;
   private clients: Map<string, ExtensionClient> = new Map();
   private pendingRequests: Map<string, PendingRequest> = new Map();
   private requestCounter = 0;
+  // Client the current chat/tool call came from (see runForClient)
+  private routeContext = new AsyncLocalStorage<{ clientId: string; fromExtension: boolean }>();
+  private trafficHook = new AsyncLocalStorage<ExtensionTrafficHook>();
+  private sharedToken: string | null;
 
   constructor(port: number) {
+    // Throws (refusing to start) when the built-in default token is used outside dev mode
+    this.sharedToken = resolveSharedToken();
     this.wss = new WebSocketServer({ port });
     this.setupServer();
+    this.printPairingCode();
   }
 
   private setupServer() {
@@ -54,6 +107,7 @@ export class WebSocketBridge {
         extensionType: 'unknown',
         connectedAt: new Date(),
         authenticated: false,  // Must authenticate via register
+        pairingAttempts: 0,
       };
 
       this.clients.set(clientId, client);
@@ -70,6 +124,7 @@ export class WebSocketBridge {
       ws.on('close', () => {
         console.error(`📱 Extension disconnected: ${clientId}`);
         this.clients.delete(clientId);
+        this.rejectPendingForClient(clientId);
       });
 
       ws.on('error', (error) => {
@@ -89,6 +144,36 @@ export class WebSocketBridge {
     });
   }
 
+  /**
+   * Print a one-time code for pairing an extension (stderr - stdout is the MCP channel)
+   */
+  printPairingCode(): { code: string; expiresAt: Date } {
+    const pairing = createPairingCode();
+    console.error(`🔑 Extension pairing code: ${pairing.code} (expires ${pairing.expiresAt.toLocaleTimeString()})`);
+    return pairing;
+  }
+
+  private rejectAuth(client: ExtensionClient, error: string): void {
+    console.error(`🚫 Auth failed for ${client.id} - ${error}`);
+    client.ws.send(JSON.stringify({
+      type: 'auth-error',
+      error,
+    }));
+    client.ws.close(4001, 'Unauthorized');
+    this.clients.delete(client.id);
+  }
+
+  /**
+   * Check a register token: shared secret or paired client token
+   */
+  private verifyToken(authToken: string): { valid: boolean; tokenId?: string; shouldRotate?: boolean; reason?: string } {
+    if (this.sharedToken && authToken === this.sharedToken) {
+      return { valid: true };
+    }
+    const result = verifyClientToken(authToken);
+    return { valid: result.valid, tokenId: result.info?.tokenId, shouldRotate: result.shouldRotate, reason: result.reason };
+  }
+
   private generateClientId(): string {
     return `ext_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   }
@@ -98,21 +183,26 @@ export class WebSocketBridge {
     if (!client) return;
 
     switch (message.type) {
-      case 'register':
-        // Validate auth token
-        if (message.authToken !== WS_AUTH_TOKEN) {
-          console.error(`🚫 Auth failed for ${clientId} - invalid token`);
+      case 'register': {
+        // Not paired yet - keep the connection open so it can send 'pair'
+        if (!message.authToken) {
           client.ws.send(JSON.stringify({
-            type: 'auth-error',
-            error: 'Invalid authentication token',
+            type: 'auth-required',
+            message: 'Enter the pairing code printed by the MCP server in the extension settings.',
           }));
-          client.ws.close(4001, 'Unauthorized');
-          this.clients.delete(clientId);
+          return;
+        }
+
+        // Validate auth token
+        const auth = this.verifyToken(message.authToken);
+        if (!auth.valid) {
+          this.rejectAuth(client, `Invalid authentication token${auth.reason ? ` (${auth.reason})` : ''}`);
           return;
         }
         
         // Handle registration from both extension types
         client.authenticated = true;
+        client.tokenId = auth.tokenId;
         client.extensionType = message.extensionType || 'dashboard';
         client.dashboardName = message.dashboardName;
         client.worksheetName = message.worksheetName;
@@ -120,12 +210,63 @@ export class WebSocketBridge {
         const extLabel = client.extensionType === 'viz' ? '📈 Viz Extension' : '📊 Dashboard Extension';
         const name = client.worksheetName || client.dashboardName || 'unnamed';
         console.error(`${extLabel} registered: ${name} ✓ authenticated`);
+
+        // Close to expiry - hand the extension a fresh token
+        if (auth.tokenId && auth.shouldRotate) {
+          const rotated = rotateClientToken(auth.tokenId);
+          if (rotated) {
+            client.tokenId = rotated.info.tokenId;
+            client.ws.send(JSON.stringify({
+              type: 'token-rotated',
+              token: rotated.token,
+              expiresAt: rotated.info.expiresAt,
+            }));
+          }
+        }
+        break;
+      }
+
+      case 'pair': {
+        // Exchange a one-time pairing code for a per-client token
+        const label = String(message.label || message.worksheetName || message.dashboardName || client.id).slice(0, 100);
+        const paired = typeof message.pairingCode === 'string'
+          ? redeemPairingCode(message.pairingCode, label)
+          : { error: 'Invalid or expired pairing code' };
+        if ('error' in paired) {
+          client.pairingAttempts++;
+          if (client.pairingAttempts >= MAX_PAIRING_ATTEMPTS) {
+            this.rejectAuth(client, 'Too many invalid pairing codes');
+            return;
+          }
+          client.ws.send(JSON.stringify({
+            type: 'pair-error',
+            error: paired.error,
+          }));
+          return;
+        }
+
+        client.authenticated = true;
+        client.tokenId = paired.info.tokenId;
+        client.extensionType = message.extensionType || 'dashboard';
+        client.dashboardName = message.dashboardName;
+        client.worksheetName = message.worksheetName;
+        client.ws.send(JSON.stringify({
+          type: 'paired',
+          token: paired.token,
+          tokenId: paired.info.tokenId,
+          expiresAt: paired.info.expiresAt,
+        }));
+        console.error(`🔗 Extension paired: ${label} (token ${paired.info.tokenId})`);
+
+        // Codes are single-use - print the next one for the next analyst
+        this.printPairingCode();
         break;
+      }
 
       case 'response':
         // Handle response to a pending request
         const pending = this.pendingRequests.get(message.requestId);
-        if (pending) {
+        if (pending && pending.clientId === clientId) {
           clearTimeout(pending.timeout);
           this.pendingRequests.delete(message.requestId);
           
@@ -141,7 +282,7 @@ export class WebSocketBridge {
       case 'encoding-response':
         // Forward data from extension
         const dataRequest = this.pendingRequests.get(message.requestId || message.id);
-        if (dataRequest) {
+        if (dataRequest && dataRequest.clientId === clientId) {
           clearTimeout(dataRequest.timeout);
           this.pendingRequests.delete(message.requestId || message.id);
           dataRequest.resolve(message);
@@ -200,7 +341,7 @@ export class WebSocketBridge {
     
     // Call the tool handler (imported at top level to share module state)
     try {
-      const result = await handleToolCall(toolName, toolArgs, this);
+      const result = await this.routeContext.run({ clientId, fromExtension: true }, () => handleToolCall(toolName, toolArgs, this));
       
       // Send response back to extension
       client.ws.send(JSON.stringify({
@@ -228,24 +369,35 @@ export class WebSocketBridge {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    const { requestId, chatMessage, conversationHistory, modelConfig, visionModelConfig, generationModelConfig, systemPrompt, dashboardContext, hasImage } = message;
+    const { requestId, chatMessage, conversationHistory, conversationId, modelConfig, visionModelConfig, generationModelConfig, systemPrompt, dashboardContext, hasImage, stream } = message;
 
-    console.error(`💬 Chat request from extension: "${chatMessage?.substring(0, 50)}..." hasImage=${!!hasImage}`);
+    console.error(`💬 Chat request from extension: "${chatMessage?.substring(0, 50)}..." hasImage=${!!hasImage} stream=${!!stream}`);
+
+    // Extensions that ask for it get progress as 'chat-stream' messages before the final 'chat-response'
+    const onEvent = stream
+      ? (event: ChatStreamEvent) => {
+          if (client.ws.readyState === WebSocket.OPEN) {
+            client.ws.send(JSON.stringify({ type: 'chat-stream', requestId, event }));
+          }
+        }
+      : undefined;
 
     try {
-      const chatResponse = await handleChat(
+      const chatResponse = await this.routeContext.run({ clientId, fromExtension: true }, () => handleChat(
         {
           message: chatMessage,
           conversationHistory: conversationHistory || [],
+          conversationId,
           modelConfig,
           visionModelConfig,  // Pass user-selected vision model for analyze-design etc.
           generationModelConfig,  // Pass user-selected generation model for fallback HTML etc.
           systemPrompt: systemPrompt || '',
           dashboardContext,
           hasImage: !!hasImage,  // Pass to tool router for intent classification
+          onEvent,
         },
         this
-      );
+      ));
 
       // Send response with metadata for display
       client.ws.send(JSON.stringify({
@@ -285,31 +437,188 @@ export class WebSocketBridge {
   }
 
   /**
-   * Send a message to the first connected extension of specified type
-   * If no type specified, tries dashboard first, then viz
+   * Run work (a chat or tool call) with requests routed to one client
+   * Everything sent via sendToExtension/sendToExtensionNoWait inside fn,
+   * including from awaited async work, goes to this client.
+   */
+  runForClient<T>(clientId: string, fn: () => Promise<T>): Promise<T> {
+    return this.routeContext.run({ clientId, fromExtension: false }, fn);
+  }
+
+  /**
+   * Run fn with extension traffic passing through hook (record/replay)
    */
-  sendToExtension(message: any, extensionType?: ExtensionType): Promise<any> {
+  runWithTrafficHook<T>(hook: ExtensionTrafficHook, fn: () => Promise<T>): Promise<T> {
+    return this.trafficHook.run(hook, fn);
+  }
+
+  /**
+   * The extension the current chat/tool call came from or is routed to
+   * (undefined for unrouted calls from local MCP clients)
+   */
+  getRequestClient(): { clientId: string; tokenId?: string; dashboardName?: string; worksheetName?: string } | undefined {
+    const route = this.routeContext.getStore();
+    const client = route && this.clients.get(route.clientId);
+    if (!client) return undefined;
+    return {
+      clientId: client.id,
+      tokenId: client.tokenId,
+      dashboardName: client.dashboardName,
+      worksheetName: client.worksheetName,
+    };
+  }
+
+  /**
+   * Whether the current tool call came from an extension (chat or tools/call)
+   * rather than a local MCP client. Used to keep admin tools local-only.
+   */
+  isExtensionRequest(): boolean {
+    return this.routeContext.getStore()?.fromExtension ?? false;
+  }
+
+  /**
+   * Disconnect every client registered with a token or any token rotated
+   * from or to it (after revocation)
+   */
+  disconnectToken(tokenId: string): number {
+    const chain = new Set(getTokenChain(tokenId));
+    let count = 0;
+    for (const client of Array.from(this.clients.values())) {
+      if (client.tokenId && chain.has(client.tokenId)) {
+        this.rejectAuth(client, 'Token revoked');
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Record a message sent to an extension in the audit log (without the
+   * bridge's own routing fields)
+   */
+  private auditExtensionAction(client: ExtensionClient, message: any, status: 'success' | 'error', error?: string, durationMs?: number): void {
+    const { type, ...args } = message;
+    void recordAudit({
+      event: 'extension-action',
+      action: type,
+      args,
+      status,
+      error,
+      durationMs,
+      clientId: client.id,
+      tokenId: client.tokenId,
+      dashboardName: client.dashboardName,
+    });
+  }
+
+  /**
+   * Pick the client a request should go to
+   * Inside a routing context: the originating client, or for another extension
+   * type, that type on the same dashboard. Otherwise the only connected client
+   * (of the type) - several without a target is an error.
+   */
+  private resolveTargetClient(extensionType?: ExtensionType): { client?: ExtensionClient; error?: string } {
+    const authenticated = Array.from(this.clients.values()).filter(c => c.authenticated);
+    const route = this.routeContext.getStore();
+
+    if (route) {
+      const origin = this.clients.get(route.clientId);
+      if (!origin || !origin.authenticated) {
+        return { error: `Extension ${route.clientId} is no longer connected` };
+      }
+      if (!extensionType || origin.extensionType === extensionType) {
+        return { client: origin };
+      }
+      const sibling = authenticated.find(c => c.extensionType === extensionType && c.dashboardName === origin.dashboardName);
+      return sibling ? { client: sibling } : { error: this.noClientMessage(extensionType) };
+    }
+
+    const candidates = extensionType
+      ? authenticated.filter(c => c.extensionType === extensionType)
+      : authenticated;
+    if (candidates.length === 0) {
+      return { error: this.noClientMessage(extensionType) };
+    }
+    if (candidates.length > 1) {
+      const names = candidates.map(c => `${c.id} (${c.worksheetName || c.dashboardName || c.extensionType})`).join(', ');
+      return { error: `Multiple extensions connected: ${names}. Pass targetClientId to choose one (see check-connection).` };
+    }
+    return { client: candidates[0] };
+  }
+
+  private noClientMessage(extensionType?: ExtensionType): string {
+    return extensionType === 'viz'
+      ? 'No Viz Extension connected. Add DashAgent Viz to a worksheet via the Marks Card.'
+      : 'No Tableau Extension connected. Please add DashAgentTool extension to your dashboard.';
+  }
+
+  private rejectPendingForClient(clientId: string): void {
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (pending.clientId === clientId) {
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(requestId);
+        pending.reject(new Error('Extension disconnected before responding'));
+      }
+    }
+  }
+
+  /**
+   * Send a request to the routed extension and wait for its response
+   * (see resolveTargetClient for how the client is chosen). Requests that
+   * wait on a person (confirm-action) pass a longer timeout.
+   */
+  sendToExtension(message: any, extensionType?: ExtensionType, timeoutMs = REQUEST_TIMEOUT_MS): Promise<any> {
+    const hook = this.trafficHook.getStore();
+    if (!hook) return this.requestFromExtension(message, extensionType, timeoutMs);
+
+    const replayed = hook.respond?.(message, false);
+    if (replayed) {
+      return replayed.error ? Promise.reject(new Error(replayed.error)) : Promise.resolve(replayed.response);
+    }
+    return this.requestFromExtension(message, extensionType, timeoutMs).then(
+      (response) => {
+        hook.observe?.(message, false, { response });
+        return response;
+      },
+      (error) => {
+        hook.observe?.(message, false, { error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    );
+  }
+
+  private requestFromExtension(message: any, extensionType: ExtensionType | undefined, timeoutMs: number): Promise<any> {
     return new Promise((resolve, reject) => {
-      const client = extensionType 
-        ? this.getClientByType(extensionType)
-        : this.getFirstClient();
+      const { client, error } = this.resolveTargetClient(extensionType);
       
       if (!client) {
-        const typeHint = extensionType === 'viz' 
-          ? 'No Viz Extension connected. Add DashAgent Viz to a worksheet via the Marks Card.'
-          : 'No Tableau Extension connected. Please add DashAgentTool extension to your dashboard.';
-        reject(new Error(typeHint));
+        reject(new Error(error));
         return;
       }
 
       const requestId = `req_${++this.requestCounter}`;
+      const startedAt = Date.now();
+      // Answers arrive on the socket - bound so the entry keeps the caller's audit context
+      const audited = AsyncResource.bind((status: 'success' | 'error', error?: string) => this.auditExtensionAction(client, message, status, error, Date.now() - startedAt));
       
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(requestId);
+        audited('error', 'timed out');
         reject(new Error('Request to extension timed out'));
-      }, 30000); // 30 second timeout
+      }, timeoutMs);
 
-      this.pendingRequests.set(requestId, { resolve, reject, timeout });
+      this.pendingRequests.set(requestId, {
+        clientId: client.id,
+        resolve: (value) => {
+          audited(value?.error ? 'error' : 'success', value?.error);
+          resolve(value);
+        },
+        reject: (error) => {
+          audited('error', error instanceof Error ? error.message : String(error));
+          reject(error);
+        },
+        timeout,
+      });
 
       client.ws.send(JSON.stringify({
         ...message,
@@ -322,15 +631,19 @@ export class WebSocketBridge {
    * Send a message and don't wait for response
    */
   sendToExtensionNoWait(message: any, extensionType?: ExtensionType): void {
-    const client = extensionType 
-      ? this.getClientByType(extensionType)
-      : this.getFirstClient();
+    const hook = this.trafficHook.getStore();
+    if (hook?.respond?.(message, true)) return;
+
+    const { client, error } = this.resolveTargetClient(extensionType);
     if (client) {
       console.error(`[Bridge] sendToExtensionNoWait to ${client.id} type=${message.type}`);
       client.ws.send(JSON.stringify(message));
+      // Progress updates aren't actions
+      if (message.type !== 'publish-progress') this.auditExtensionAction(client, message, 'success');
     } else {
-      console.error(`[Bridge] sendToExtensionNoWait FAILED - no connected client! type=${message.type}`);
+      console.error(`[Bridge] sendToExtensionNoWait FAILED - ${error} type=${message.type}`);
     }
+    hook?.observe?.(message, true, client ? {} : { error });
   }
 
   /**
@@ -347,41 +660,42 @@ export class WebSocketBridge {
   }
 
   /**
-   * Check if any authenticated extension is connected
+   * Check if an authenticated extension is connected
+   * Inside a routing context, only the originating client counts.
    */
   hasConnectedExtension(extensionType?: ExtensionType): boolean {
+    const hooked = this.trafficHook.getStore()?.connection;
+    if (hooked) return hooked.connected;
+    if (this.routeContext.getStore()) {
+      return !!this.resolveTargetClient(extensionType).client;
+    }
     const authenticatedClients = Array.from(this.clients.values()).filter(c => c.authenticated);
     if (!extensionType) return authenticatedClients.length > 0;
     return authenticatedClients.some(c => c.extensionType === extensionType);
   }
 
   /**
-   * Get list of connected extensions
+   * Get connected, authenticated extensions
+   * Plain MCP clients pass an id from this list as targetClientId.
    */
-  getConnectedExtensions(): Array<{ 
-    id: string; 
-    extensionType: ExtensionType;
-    dashboardName?: string; 
-    worksheetName?: string;
-  }> {
-    return Array.from(this.clients.values()).map((c) => ({
-      id: c.id,
-      extensionType: c.extensionType,
-      dashboardName: c.dashboardName,
-      worksheetName: c.worksheetName,
-    }));
+  getConnectedClients(): ConnectedClientInfo[] {
+    const hooked = this.trafficHook.getStore()?.connection;
+    if (hooked) return hooked.clients;
+    return Array.from(this.clients.values())
+      .filter(c => c.authenticated)
+      .map((c) => ({
+        id: c.id,
+        extensionType: c.extensionType,
+        dashboardName: c.dashboardName,
+        worksheetName: c.worksheetName,
+        connectedAt: c.connectedAt,
+      }));
   }
 
-  private getFirstClient(): ExtensionClient | undefined {
-    // Prefer dashboard extension, fall back to viz
-    const dashboard = Array.from(this.clients.values()).find(c => c.extensionType === 'dashboard');
-    if (dashboard) return dashboard;
-    
-    const [first] = this.clients.values();
-    return first;
-  }
-  
-  private getClientByType(type: ExtensionType): ExtensionClient | undefined {
-    return Array.from(this.clients.values()).find(c => c.extensionType === type);
+  /**
+   * Check whether a client id names a connected, authenticated extension
+   */
+  isConnectedClient(clientId: string): boolean {
+    return !!this.clients.get(clientId)?.authenticated;
   }
 }
@@ -0,0 +1,142 @@
+/**
+ * Workbook Version Store
+ *
+ * Local history of published workbooks, keyed by workbook id. Before an
+ * overwrite publish, the content the server has at that moment is downloaded
+ * and snapshotted with who/when/why metadata; the newly published content is
+ * recorded too, so any two versions can be diffed and an older one
+ * republished.
+ *
+ * Versions are stored on disk so they survive clearCache() and restarts:
+ *   <DASHAGENT_VERSION_DIR>/<workbook id>/index.json     version metadata
+ *   <DASHAGENT_VERSION_DIR>/<workbook id>/<version>.twb   XML snapshot
+ *   <DASHAGENT_VERSION_DIR>/<workbook id>/<version>.twbx  packaged snapshot
+ *                                                         (extracts, images)
+ * Defaults to ~/.dashagent/versions.
+ */
+
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const VERSION_DIR = process.env.DASHAGENT_VERSION_DIR || join(homedir(), '.dashagent', 'versions');
+
+export interface WorkbookVersion {
+  versionId: string; // "v1", "v2", ...
+  workbookId: string;
+  workbookName: string;
+  /** pre-publish: what the server had before an overwrite; published: what was uploaded */
+  kind: 'pre-publish' | 'published';
+  createdAt: string;
+  author: string;
+  reason?: string;
+  sessionKey?: string;
+  size: number;
+  /** Stored as a .twbx with the package's other files */
+  packaged?: boolean;
+}
+
+/** What a version holds - the XML, plus the rest of the package for .twbx workbooks */
+export interface VersionContent {
+  xml: string;
+  twbEntryName?: string;
+  packageFiles?: Record<string, Uint8Array>;
+}
+
+// Saves for one workbook run one at a time so two publishes can't take the same version id
+const pendingSaves = new Map<string, Promise<unknown>>();
+
+function workbookDir(workbookId: string): string {
+  // Workbook ids are LUIDs, or "local:<path>" for local files
+  return join(VERSION_DIR, workbookId.replace(/[^\w.-]/g, '_'));
+}
+
+async function readIndex(workbookId: string): Promise<WorkbookVersion[]> {
+  try {
+    return JSON.parse(await readFile(join(workbookDir(workbookId), 'index.json'), 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+function snapshotFile(versionId: string, packaged?: boolean): string {
+  return `${versionId}.${packaged ? 'twbx' : 'twb'}`;
+}
+
+/**
+ * Record a version of a workbook
+ */
+export function saveVersion(
+  entry: Omit<WorkbookVersion, 'versionId' | 'createdAt' | 'size' | 'packaged'>,
+  content: VersionContent
+): Promise<WorkbookVersion> {
+  const save = (pendingSaves.get(entry.workbookId) ?? Promise.resolve()).then(() => writeVersion(entry, content));
+  // A failed save must not block the next one
+  pendingSaves.set(entry.workbookId, save.catch(() => undefined));
+  return save;
+}
+
+async function writeVersion(
+  entry: Omit<WorkbookVersion, 'versionId' | 'createdAt' | 'size' | 'packaged'>,
+  content: VersionContent
+): Promise<WorkbookVersion> {
+  const dir = workbookDir(entry.workbookId);
+  await mkdir(dir, { recursive: true });
+
+  const packaged = !!content.packageFiles;
+  const bytes = packaged
+    ? zipSync({ [content.twbEntryName || `${entry.workbookName}.twb`]: strToU8(content.xml), ...content.packageFiles })
+    : strToU8(content.xml);
+
+  const versions = await readIndex(entry.workbookId);
+  const last = versions.reduce((max, v) => Math.max(max, parseInt(v.versionId.slice(1), 10) || 0), 0);
+  const version: WorkbookVersion = {
+    ...entry,
+    versionId: `v${last + 1}`,
+    createdAt: new Date().toISOString(),
+    size: bytes.length,
+    ...(packaged ? { packaged } : {}),
+  };
+
+  // Write the snapshot before the index so the index never points at a missing file
+  await writeFile(join(dir, snapshotFile(version.versionId, packaged)), bytes);
+  versions.push(version);
+  await writeFile(join(dir, 'index.json'), JSON.stringify(versions, null, 2), 'utf8');
+
+  console.error(`[Versions] Saved ${version.kind} ${version.versionId} of "${version.workbookName}"`);
+  return version;
+}
+
+/**
+ * List recorded versions of a workbook, oldest first
+ */
+export async function listVersions(workbookId: string): Promise<WorkbookVersion[]> {
+  return readIndex(workbookId);
+}
+
+/**
+ * Load a version's metadata and content
+ */
+export async function getVersion(
+  workbookId: string,
+  versionId: string
+): Promise<({ version: WorkbookVersion } & VersionContent) | null> {
+  const version = (await readIndex(workbookId)).find(v => v.versionId === versionId);
+  if (!version) return null;
+
+  try {
+    const file = join(workbookDir(workbookId), snapshotFile(versionId, version.packaged));
+    if (!version.packaged) {
+      return { version, xml: await readFile(file, 'utf8') };
+    }
+
+    const entries = unzipSync(new Uint8Array(await readFile(file)));
+    const twbEntryName = Object.keys(entries).find(name => name.endsWith('.twb'));
+    if (!twbEntryName) return null;
+    const { [twbEntryName]: twb, ...packageFiles } = entries;
+    return { version, xml: strFromU8(twb), twbEntryName, packageFiles };
+  } catch {
+    return null;
+  }
+}